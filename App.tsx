@@ -6,10 +6,35 @@ import { AvatarSystem } from './components/AvatarSystem';
 import { HUD } from './components/HUD';
 import { PermissionGate } from './components/PermissionGate';
 import { BootSequence } from './components/BootSequence';
-import { TrackedObject, TranscriptItem, SystemStatus, LogEntry, ViewMode, ConnectedUser, AvatarAction, AiAnnotation, ZoomState, AnalysisMode, CameraDevice, TooltipState } from './types';
+import { NetworkSettingsPanel } from './components/NetworkSettingsPanel';
+import { GestureBindingsPanel } from './components/GestureBindingsPanel';
+import { loadGestureBindings, saveGestureBindings } from './utils/gestureBindings';
+import { DetectorPanel } from './components/DetectorPanel';
+import { VideoSourcePanel } from './components/VideoSourcePanel';
+import { PlaybackBar } from './components/PlaybackBar';
+import { VideoSource } from './utils/videoSources';
+import { SessionPanel } from './components/SessionPanel';
+import { SessionRecorder } from './utils/sessionRecorder';
+import { SessionReplay, SessionTimeline, sessionTimeAt } from './utils/sessionReplay';
+import { loadSession } from './utils/sessionStore';
+import { ExportPanel } from './components/ExportPanel';
+import { ZonePanel } from './components/ZonePanel';
+import { ZoneDrawLayer } from './components/ZoneDrawLayer';
+import { GeofenceMonitor, ZoneEvent, PresetArea, PresetDirection, presetZone } from './utils/geofence';
+import { loadZones, saveZones } from './utils/zoneStore';
+import { DetectionLog } from './utils/detectionExport';
+import { loadDetectorConfig, saveDetectorConfig, loadGalleryConfig, saveGalleryConfig, DEFAULT_DETECTOR } from './utils/detectorSettings';
+import { GalleryConfig } from './utils/ReIdGallery';
+import { CalibrationPanel } from './components/CalibrationPanel';
+import { ASSETS, AssetId, AssetReport } from './utils/assets';
+import { TrackedObject, TranscriptItem, SystemStatus, LogEntry, ViewMode, ConnectedUser, AvatarAction, AiAnnotation, ZoomState, AnalysisMode, CameraDevice, TooltipState, LinkStats, TargetMark, NetworkSettings, UnitPose, CameraCalibration, SizeProfile, DynamicGesture, GestureAction, DetectorConfig, DetectorInfo, VideoSourceSpec, GeoZone } from './types';
 import { NetworkService } from './utils/NetworkService';
+import { loadNetworkSettings, saveNetworkSettings } from './utils/networkSettings';
+import { PoseService } from './utils/PoseService';
+import { loadCalibrations, saveCalibrations, loadSizeProfiles, saveSizeProfiles } from './utils/calibrationStore';
+import { DEFAULT_FOCAL_LENGTH, setSizeProfiles } from './utils/objectGeometry';
 import { queryOpenRouter } from './utils/fallbackService';
-import { ZoomIn, ZoomOut, User, Camera as CameraIcon, SwitchCamera, RotateCcw, BrainCircuit, WifiOff } from 'lucide-react';
+import { ZoomIn, ZoomOut, User, Camera as CameraIcon, SwitchCamera, RotateCcw, BrainCircuit, WifiOff, Settings, Compass, Ruler, Layers, Hand, ScanSearch, Film, Disc, Download, Fence } from 'lucide-react';
 
 type AppState = 'permissions' | 'booting' | 'active';
 
@@ -31,13 +56,17 @@ const toolsDeclaration: FunctionDeclaration[] = [
   },
   {
     name: "selectTarget",
-    description: "Выделить/захватить объект или человека в рамку по описанию. Например: 'Выдели человека', 'Захвати чашку'.",
+    description: "Выделить/захватить объект или человека в рамку по описанию и отметить его для всего отряда. Например: 'Выдели человека', 'Захвати чашку', 'Возьми цель Браво'. Ищет и среди целей, переданных другими юнитами.",
     parameters: {
         type: Type.OBJECT,
         properties: {
             targetType: {
                 type: Type.STRING,
-                description: "Тип объекта для выделения (person, cup, bottle, и т.д.) или 'reset' для снятия выделения."
+                description: "Тип объекта для выделения (person, cup, bottle, и т.д.), 'marked' чтобы взять цель, отмеченную другим юнитом, или 'reset' для снятия выделения."
+            },
+            unit: {
+                type: Type.STRING,
+                description: "Необязательно. Имя юнита, чью отметку взять (для 'marked')."
             }
         },
         required: ["targetType"]
@@ -79,14 +108,34 @@ const toolsDeclaration: FunctionDeclaration[] = [
         },
         required: ["x", "y", "label"]
     }
+  },
+  {
+    name: "setPerimeter",
+    description: "Зоны и рубежи на текущей камере: тревога, когда человек входит в зону, задерживается в ней или пересекает рубеж. Например: 'Поставь периметр здесь', 'Рубеж слева направо', 'Убери периметр'.",
+    parameters: {
+        type: Type.OBJECT,
+        properties: {
+            action: { type: Type.STRING, enum: ["SET", "CLEAR", "LIST"], description: "SET — создать, CLEAR — удалить все (или по имени), LIST — перечислить." },
+            shape: { type: Type.STRING, enum: ["zone", "tripwire"], description: "Зона (область) или рубеж (линия). По умолчанию зона." },
+            area: { type: Type.STRING, enum: ["view", "left", "right", "near", "far", "target"], description: "Где: весь кадр, левая/правая половина, ближняя/дальняя часть, или вокруг выделенной цели." },
+            direction: { type: Type.STRING, enum: ["both", "left-to-right", "right-to-left", "toward-camera", "away-from-camera"], description: "Для рубежа: направление пересечения, которое вызывает тревогу." },
+            dwellSeconds: { type: Type.NUMBER, description: "Для зоны: тревога, если человек находится в ней дольше стольких секунд." },
+            name: { type: Type.STRING, description: "Название зоны." }
+        },
+        required: ["action"]
+    }
   }
 ];
 
+// TF.js graph model for monocular depth (MiDaS-style), optional
+const DEPTH_MODEL_URL = process.env.DEPTH_MODEL_URL || '';
+
 const CONTROL_HINTS = [
     "\"Переключи камеру\"",
     "\"Выдели человека\"",
     "\"Что происходит?\"",
-    "\"Включи аватар\""
+    "\"Включи аватар\"",
+    "\"Поставь периметр здесь\""
 ];
 
 // AudioWorklet Processor Code for low-latency audio input
@@ -129,6 +178,9 @@ const App: React.FC = () => {
   
   const [cameras, setCameras] = useState<CameraDevice[]>([]);
   const [activeCameraId, setActiveCameraId] = useState<string>('');
+  // Voice commands reach handleSwitchCamera from the Gemini session's first-render closure
+  const camerasRef = useRef<CameraDevice[]>([]);
+  const activeCameraIdRef = useRef('');
   
   const [error, setError] = useState<string>('');
   const [fps, setFps] = useState(0);
@@ -143,19 +195,74 @@ const App: React.FC = () => {
   const [deduction, setDeduction] = useState<string>('');
   const [hintIndex, setHintIndex] = useState(0);
   const [selectedTargetId, setSelectedTargetId] = useState<string | number | null>(null);
+  // Live API callbacks close over the first render, tools read objects through refs
+  const localObjectsRef = useRef<TrackedObject[]>([]);
+  const remoteObjectsRef = useRef<TrackedObject[]>([]);
   
   const knownProfilesRef = useRef<Map<string | number, string>>(new Map());
   const [avatarAction, setAvatarAction] = useState<AvatarAction>('IDLE');
   const avatarTimeoutRef = useRef<any>(null);
   const networkRef = useRef<NetworkService | null>(null);
   const [networkUsers, setNetworkUsers] = useState<ConnectedUser[]>([]);
+  const [linkStats, setLinkStats] = useState<LinkStats | null>(null);
+  const [marks, setMarks] = useState<TargetMark[]>([]);
+  const marksRef = useRef<TargetMark[]>([]);
+  const pendingReleasesRef = useRef<Set<string>>(new Set());
   const [userId, setUserId] = useState<string>('INIT');
+  const [networkSettings, setNetworkSettings] = useState<NetworkSettings>(loadNetworkSettings);
+  const networkSettingsRef = useRef<NetworkSettings>(networkSettings);
+  const [showNetworkSettings, setShowNetworkSettings] = useState(false);
+  const poseServiceRef = useRef<PoseService>(new PoseService());
+  const [remotePoses, setRemotePoses] = useState<Record<string, UnitPose>>({});
+  const [isPoseCalibrated, setIsPoseCalibrated] = useState(false);
+  const [calibrations, setCalibrations] = useState<Record<string, CameraCalibration>>(loadCalibrations);
+  const [sizeProfiles, setSizeProfilesState] = useState<Record<string, SizeProfile>>(loadSizeProfiles);
+  const [frameSize, setFrameSize] = useState<{ width: number; height: number } | null>(null);
+  const frameSizeRef = useRef({ width: 1280, height: 720 }); // For the per-frame callbacks
+  const detectionLogRef = useRef(new DetectionLog()); // What the HUD tracked, for export
+  const [showExport, setShowExport] = useState(false);
+  const [showCalibration, setShowCalibration] = useState(false);
+  const [gestureBindings, setGestureBindings] = useState<Record<DynamicGesture, GestureAction>>(loadGestureBindings);
+  const [showGestureBindings, setShowGestureBindings] = useState(false);
+  const [detectorConfig, setDetectorConfig] = useState<DetectorConfig>(loadDetectorConfig);
+  const [galleryConfig, setGalleryConfig] = useState<GalleryConfig>(loadGalleryConfig);
+  const [detectorInfo, setDetectorInfo] = useState<DetectorInfo | null>(null);
+  const [assetUrls, setAssetUrls] = useState<Record<AssetId, string> | null>(null); // Set by the boot integrity check
+  const [showDetector, setShowDetector] = useState(false);
+  const [videoSource, setVideoSource] = useState<VideoSourceSpec>({ kind: 'camera' });
+  const videoSourceRef = useRef<VideoSourceSpec>(videoSource);
+  const [liveSource, setLiveSource] = useState<VideoSource | null>(null); // What is actually playing
+  const [showVideoSource, setShowVideoSource] = useState(false);
+  const [recorder, setRecorder] = useState<SessionRecorder | null>(null);
+  const recorderRef = useRef<SessionRecorder | null>(null); // For the Gemini session's long-lived callbacks
+  const recordedRef = useRef(new WeakSet<object>()); // Logs and transcripts already written
+  const lastObjectsRecordRef = useRef(0);
+  const [replay, setReplay] = useState<SessionReplay | null>(null);
+  const [replayTime, setReplayTime] = useState(0);
+  const [showSessions, setShowSessions] = useState(false);
+  const [zonesByCamera, setZonesByCamera] = useState<Record<string, GeoZone[]>>(loadZones);
+  const zonesRef = useRef<GeoZone[]>([]); // Active camera's, for the per-frame check and the tools
+  const cameraKeyRef = useRef('default');
+  const geofenceRef = useRef(new GeofenceMonitor());
+  const [activeZoneIds, setActiveZoneIds] = useState<string[]>([]);
+  const [showZones, setShowZones] = useState(false);
+  const [drawingZone, setDrawingZone] = useState<GeoZone['kind'] | null>(null);
+  const [depthMode, setDepthMode] = useState<'off' | 'on' | 'map'>('off');
   const remoteObjectsMapRef = useRef<Map<string, TrackedObject[]>>(new Map());
   const [history, setHistory] = useState<TranscriptItem[]>([]);
   
   // Audio Buffers for Streaming Text
   const [userBuffer, setUserBuffer] = useState('');
   const [aiBuffer, setAiBuffer] = useState('');
+  // Mirrors of the buffers for Live API callbacks, which close over the first render
+  const userTurnRef = useRef('');
+  const aiTurnRef = useRef('');
+
+  // Squad Chat
+  const [squadVoiceRelay, setSquadVoiceRelay] = useState(false);
+  const [readChatAloud, setReadChatAloud] = useState(true);
+  const squadVoiceRelayRef = useRef(false);
+  const readChatAloudRef = useRef(true);
   
   const inputAnalyserRef = useRef<AnalyserNode | null>(null); 
   const outputAnalyserRef = useRef<AnalyserNode | null>(null); 
@@ -190,6 +297,37 @@ const App: React.FC = () => {
     return () => clearInterval(timer);
   }, []);
 
+  // Session recording: HUD feeds go in as they appear, objects at a HUD-like rate
+  useEffect(() => {
+    if (!recorder) return;
+    logs.filter(l => !recordedRef.current.has(l)).forEach(l => {
+        recordedRef.current.add(l);
+        recorder.record({ kind: 'log', data: l });
+    });
+  }, [logs, recorder]);
+
+  useEffect(() => {
+    if (!recorder) return;
+    history.filter(h => !recordedRef.current.has(h)).forEach(h => {
+        recordedRef.current.add(h);
+        recorder.record({ kind: 'transcript', data: h });
+    });
+  }, [history, recorder]);
+
+  useEffect(() => {
+    if (!recorder || recorder.elapsed - lastObjectsRecordRef.current < 500) return;
+    lastObjectsRecordRef.current = recorder.elapsed;
+    recorder.record({ kind: 'objects', data: { local: localObjects, remote: remoteObjects } });
+  }, [localObjects, remoteObjects, recorder]);
+
+  // The recorded video is the replay clock
+  useEffect(() => {
+    if (!replay || !liveSource?.playback) return;
+    const playback = liveSource.playback;
+    const interval = setInterval(() => setReplayTime(sessionTimeAt(replay.meta, playback.currentTime)), 250);
+    return () => clearInterval(interval);
+  }, [replay, liveSource]);
+
   // Monitor Scene Updates and Log them
   useEffect(() => {
     if (sceneDescription !== 'ОЖИДАНИЕ ДАННЫХ...') {
@@ -216,9 +354,14 @@ const App: React.FC = () => {
   }, []);
 
   useEffect(() => {
-      const net = new NetworkService();
+      const settings = networkSettingsRef.current;
+      const net = new NetworkService(settings.relayUrl);
       networkRef.current = net;
       setUserId(net.getUserId());
+      net.setName(settings.displayName);
+      net.setRoom(settings.room);
+      net.configureSecurity({ squadKey: settings.squadKey, token: settings.token });
+      net.setReplaying(!!replay);
       net.on((type, data) => {
           if (type === 'STATUS') {
              if (data === 'ПОДКЛЮЧЕНО') setStatus('СЕТЬ');
@@ -230,17 +373,239 @@ const App: React.FC = () => {
                  addLog('net', 'АВТОНОМНЫЙ РЕЖИМ');
              }
           }
-          if (type === 'USERS') setNetworkUsers(data);
+          if (type === 'LINK_STATS') setLinkStats(data);
+          if (type === 'MARKS') {
+             const next = data as TargetMark[];
+             next.filter(m => !marksRef.current.some(p => p.key === m.key && p.designatorId === m.designatorId))
+                 .forEach(m => addLog('action', `ЦЕЛЕУКАЗАНИЕ: ${m.designatorName} → ${m.class.toUpperCase()}`));
+             marksRef.current = next;
+             pendingReleasesRef.current.forEach(key => { if (!next.some(m => m.key === key)) pendingReleasesRef.current.delete(key); });
+             setMarks(next);
+             publishRemoteObjects();
+          }
+          if (type === 'MARK_DENIED') addLog('net', `ЦЕЛЬ УЖЕ ОТМЕЧЕНА: ${data.holder}`);
+          if (type === 'SECURITY') addLog('net', data);
+          if (type === 'USERS') {
+             setNetworkUsers(data);
+             // Drop targets reported by units that went offline or left
+             const onlineIds = new Set((data as ConnectedUser[]).filter(u => u.status === 'online').map(u => u.id));
+             let purged = false;
+             remoteObjectsMapRef.current.forEach((_, id) => {
+                 if (!onlineIds.has(id)) {
+                     remoteObjectsMapRef.current.delete(id);
+                     purged = true;
+                 }
+             });
+             if (purged) publishRemoteObjects();
+             setRemotePoses(prev => {
+                 const stale = Object.keys(prev).filter(id => !onlineIds.has(id));
+                 if (stale.length === 0) return prev;
+                 const next = { ...prev };
+                 stale.forEach(id => delete next[id]);
+                 return next;
+             });
+          }
+          if (type === 'POSE') setRemotePoses(prev => ({ ...prev, [data.userId]: data.pose }));
+          if (type === 'CHAT') {
+             const { name, color, message } = data;
+             const item: TranscriptItem = {
+                 id: Date.now() + Math.random(),
+                 text: message.text,
+                 timestamp: Date.now(),
+                 user: name,
+                 color,
+                 channel: message.to ? 'direct' : 'broadcast'
+             };
+             setHistory(prev => [...prev, item].slice(-10));
+             if (readChatAloudRef.current) speakSystemMessage(`${name}: ${message.text}`);
+          }
           if (type === 'OBJECTS') {
              const { userId, objects } = data;
              remoteObjectsMapRef.current.set(userId, objects);
-             const allRemote: TrackedObject[] = [];
-             remoteObjectsMapRef.current.forEach((objs) => allRemote.push(...objs));
-             setRemoteObjects(allRemote);
+             publishRemoteObjects();
           }
       });
+      // Effect re-runs on fallback switch: keep the squad link up across the swap
+      if (appState === 'active' && settings.enabled) net.connect();
+      return () => net.disconnect();
   }, [isFallbackMode]);
 
+  useEffect(() => {
+      networkRef.current?.setReplaying(!!replay);
+  }, [replay]);
+
+  // Share our orientation (and landmark calibration) so teammates can place our targets
+  useEffect(() => {
+      if (appState !== 'active') return;
+      const t = setInterval(() => {
+          const pose = poseServiceRef.current.nextBroadcast();
+          if (pose) networkRef.current?.sendPose(pose);
+      }, 250);
+      return () => clearInterval(t);
+  }, [appState]);
+
+  useEffect(() => () => poseServiceRef.current.stop(), []);
+
+  const handleCalibratePose = () => {
+      const pose = poseServiceRef.current;
+      const landmark = localObjectsRef.current.find(o => o.isSelected);
+      if (landmark) {
+          pose.calibrate(landmark.position3D);
+          setIsPoseCalibrated(true);
+          addLog('sys', `КАЛИБРОВКА ПО ОРИЕНТИРУ: ${landmark.class.toUpperCase()} ${landmark.distance.toFixed(1)}m`);
+          if (pose.getHeadingSource() !== 'compass') addLog('sys', 'НЕТ КОМПАСА: СМЕЩЕНИЕ ОТРЯДА НЕ ПРИМЕНЯЕТСЯ');
+      } else if (pose.isCalibrated()) {
+          pose.clearCalibration();
+          setIsPoseCalibrated(false);
+          addLog('sys', 'КАЛИБРОВКА СБРОШЕНА');
+      } else {
+          addLog('sys', 'ВЫБЕРИТЕ ОБЩИЙ ОРИЕНТИР ДЛЯ КАЛИБРОВКИ');
+      }
+  };
+
+  // Calibrations are per physical camera; before enumeration the browser default is used
+  const cameraKey = activeCameraId || 'default';
+  const activeCalibration = calibrations[cameraKey];
+  // Zones too: they are drawn on one camera's view
+  const zones = zonesByCamera[cameraKey] || [];
+  zonesRef.current = zones;
+  cameraKeyRef.current = cameraKey;
+  camerasRef.current = cameras;
+  activeCameraIdRef.current = activeCameraId;
+  videoSourceRef.current = videoSource;
+
+  useEffect(() => {
+      setSizeProfiles(sizeProfiles);
+  }, [sizeProfiles]);
+
+  const cycleDepthMode = () => {
+      if (!DEPTH_MODEL_URL) {
+          addLog('sys', 'МОДЕЛЬ ГЛУБИНЫ НЕ НАСТРОЕНА (DEPTH_MODEL_URL)');
+          return;
+      }
+      setDepthMode(prev => prev === 'off' ? 'on' : prev === 'on' ? 'map' : 'off');
+  };
+
+  const handleCameraCalibration = (calibration: CameraCalibration | null) => {
+      setCalibrations(prev => {
+          const next = { ...prev };
+          if (calibration) next[cameraKey] = calibration;
+          else delete next[cameraKey];
+          saveCalibrations(next);
+          return next;
+      });
+      addLog('sys', calibration ? 'КАМЕРА ОТКАЛИБРОВАНА' : 'КАЛИБРОВКА КАМЕРЫ СБРОШЕНА');
+  };
+
+  const handleSaveSizeProfiles = (profiles: Record<string, SizeProfile>) => {
+      saveSizeProfiles(profiles);
+      setSizeProfilesState(profiles);
+      addLog('sys', `ПРОФИЛИ РАЗМЕРОВ: ${Object.keys(profiles).length} ИЗМЕНЕНО`);
+  };
+
+  // Functional so the Gemini tool's long-lived closure edits the current camera's list
+  const updateZones = (update: (zones: GeoZone[]) => GeoZone[]) => {
+      setZonesByCamera(prev => {
+          const key = cameraKeyRef.current;
+          const next = { ...prev, [key]: update(prev[key] || []) };
+          if (next[key].length === 0) delete next[key];
+          saveZones(next);
+          return next;
+      });
+  };
+
+  const addZone = (zone: Omit<GeoZone, 'id' | 'name'>, name?: string) => {
+      const count = zonesRef.current.filter(z => z.kind === zone.kind).length + 1;
+      const created: GeoZone = { ...zone, id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`, name: name || `${zone.kind === 'tripwire' ? 'РУБЕЖ' : 'ЗОНА'} ${count}` };
+      updateZones(list => [...list, created]);
+      addLog('sys', `${zone.kind === 'tripwire' ? 'РУБЕЖ' : 'ЗОНА'} УСТАНОВЛЕН${zone.kind === 'tripwire' ? '' : 'А'}: ${created.name}`);
+      return created;
+  };
+
+  const startZoneDrawing = (kind: GeoZone['kind']) => {
+      setShowZones(false);
+      setZoomState({ level: 1, x: 50, y: 50 }); // Points are placed on the unzoomed view
+      setDrawingZone(kind);
+  };
+
+  const handleZoneDrawn = (points: [number, number][]) => {
+      if (drawingZone) addZone({ kind: drawingZone, points });
+      setDrawingZone(null);
+      setShowZones(true);
+  };
+
+  const handleZoneEvents = (events: ZoneEvent[]) => {
+      events.forEach(e => {
+          const who = knownProfilesRef.current.get(e.objectId) || `PERSON #${e.objectId}`;
+          const alert = e.kind === 'enter' ? `ВХОД В ЗОНУ «${e.zone.name}»`
+              : e.kind === 'dwell' ? `ЗАДЕРЖКА В ЗОНЕ «${e.zone.name}» > ${e.zone.dwellSeconds} С`
+              : `ПЕРЕСЕЧЕНИЕ РУБЕЖА «${e.zone.name}»${e.zone.direction && e.zone.direction !== 'both' ? '' : e.direction === 'forward' ? ' (ПО СТРЕЛКЕ)' : ' (ПРОТИВ СТРЕЛКИ)'}`;
+          addLog('detect', `${alert}: ${who}`);
+          sendSessionContext(`[ТРЕВОГА] ${alert.toLowerCase()}: ${who}. Сообщи оператору.`);
+      });
+      // One phrase per update, several people walking in together would queue up otherwise
+      const first = events[0];
+      if (first) speakSystemMessage(first.kind === 'cross' ? `Пересечение рубежа ${first.zone.name}` : first.kind === 'dwell' ? `Задержка в зоне ${first.zone.name}` : `Вход в зону ${first.zone.name}`);
+  };
+
+  const handleSendChat = (text: string, to: string | null, source: 'text' | 'voice' = 'text') => {
+      networkRef.current?.sendChat(text, to, source);
+      const recipient = to ? networkRef.current?.connectedUsers.find(u => u.id === to)?.name || to : undefined;
+      const item: TranscriptItem = {
+          id: Date.now() + Math.random(),
+          text,
+          isAi: false,
+          timestamp: Date.now(),
+          channel: to ? 'direct' : 'broadcast',
+          recipient
+      };
+      setHistory(prev => [...prev, item].slice(-10));
+  };
+
+  // Finalized operator speech goes to the squad only when voice relay is on
+  const relayVoiceToSquad = (text: string) => {
+      if (!squadVoiceRelayRef.current || !text.trim()) return;
+      networkRef.current?.sendChat(text.trim(), null, 'voice');
+  };
+
+  const toggleSquadVoiceRelay = () => {
+      squadVoiceRelayRef.current = !squadVoiceRelayRef.current;
+      setSquadVoiceRelay(squadVoiceRelayRef.current);
+      addLog('net', squadVoiceRelayRef.current ? 'ГОЛОС В ЭФИРЕ ОТРЯДА' : 'ГОЛОС ТОЛЬКО ДЛЯ ИИ');
+  };
+
+  const toggleReadChatAloud = () => {
+      readChatAloudRef.current = !readChatAloudRef.current;
+      setReadChatAloud(readChatAloudRef.current);
+  };
+
+  const publishRemoteObjects = () => {
+      const allRemote: TrackedObject[] = [];
+      remoteObjectsMapRef.current.forEach((objs, ownerId) => {
+          objs.forEach(o => allRemote.push(withDesignation({ ...o, isRemote: true, remoteUser: ownerId }, ownerId)));
+      });
+      remoteObjectsRef.current = allRemote;
+      setRemoteObjects(allRemote);
+  };
+
+  const withDesignation = (obj: TrackedObject, ownerId: string): TrackedObject => {
+      const mark = marksRef.current.find(m => m.ownerId === ownerId && m.objectId === obj.id);
+      return mark ? { ...obj, designator: mark.designatorName, designatorColor: mark.color } : obj;
+  };
+
+  // Local selection plus a squad-wide claim; the relay may deny it if someone else holds the target
+  const designateTarget = (obj: TrackedObject | null) => {
+      const net = networkRef.current;
+      if (!obj) {
+          setSelectedTargetId(null);
+          const own = net?.getOwnMark();
+          if (own) net?.releaseMark(own.key);
+          return;
+      }
+      setSelectedTargetId(obj.isRemote ? null : obj.id);
+      if (net) net.claimMark(obj.isRemote && obj.remoteUser ? obj.remoteUser : net.getUserId(), obj.id, obj.class);
+  };
+
   useEffect(() => {
       const handleKey = (e: KeyboardEvent) => {
           if (e.key === 'ArrowUp') handleManualZoom(0.1);
@@ -270,14 +635,142 @@ const App: React.FC = () => {
       }));
   };
   
+  // Shared by the systemControl tool and gesture bindings
+  const runSystemCommand = (command: string) => {
+      if (command === "TOGGLE_VIEW") setViewMode(prev => prev === 'ar' ? 'avatar' : 'ar');
+      else if (command === "RESET_ZOOM") setZoomState({ level: 1, x: 50, y: 50 });
+      else if (command === "TOGGLE_LOGS") setShowLogs(prev => !prev);
+      else if (command === "SWITCH_CAMERA") handleSwitchCamera();
+      else if (command === "CYCLE_ANALYSIS") setAnalysisMode(p => p === 'AUTO' ? 'DETAILED' : p === 'DETAILED' ? 'SILENT' : 'AUTO');
+  };
+
+  // "Поставь периметр здесь": preset shapes on the current view, or around the selected target
+  const runPerimeterTool = (args: any): string => {
+      const action = String(args.action || 'SET').toUpperCase();
+      if (action === 'LIST') {
+          const list = zonesRef.current.map(z => `${z.kind === 'tripwire' ? 'tripwire' : 'zone'} "${z.name}"`);
+          return list.length ? list.join(', ') : 'NO_ZONES';
+      }
+      if (action === 'CLEAR') {
+          const name = args.name ? String(args.name).toLowerCase() : '';
+          const removed = zonesRef.current.filter(z => !name || z.name.toLowerCase().includes(name));
+          if (removed.length === 0) return 'NO_ZONES';
+          updateZones(list => list.filter(z => !removed.some(r => r.id === z.id)));
+          addLog('sys', `ЗОНЫ УДАЛЕНЫ: ${removed.map(z => z.name).join(', ')}`);
+          return `CLEARED ${removed.length}`;
+      }
+      const area = (args.area || 'view') as PresetArea;
+      const selected = localObjectsRef.current.find(o => o.isSelected);
+      if (area === 'target' && !selected) return 'NO_TARGET_SELECTED';
+      const { width, height } = frameSizeRef.current;
+      const target = selected && [selected.bbox[0] / width, selected.bbox[1] / height, selected.bbox[2] / width, selected.bbox[3] / height] as [number, number, number, number];
+      const dwell = Number(args.dwellSeconds);
+      const zone = presetZone(args.shape === 'tripwire' ? 'tripwire' : 'zone', area, {
+          direction: args.direction as PresetDirection | undefined,
+          dwellSeconds: dwell > 0 ? dwell : undefined,
+          target: target || undefined
+      });
+      const created = addZone(zone, args.name ? String(args.name) : undefined);
+      return `SET ${created.kind} "${created.name}"`;
+  };
+
+  const handleDynamicGesture = (gesture: DynamicGesture, pointedId?: string | number) => {
+      const action = gestureBindings[gesture];
+      if (!action || action === 'NONE') return;
+      if (action === 'SELECT_POINTED') {
+          if (pointedId !== undefined) handlePointSelect(pointedId);
+          return;
+      }
+      addLog('action', `ЖЕСТ: ${gesture} → ${action}`);
+      runSystemCommand(action);
+  };
+
+  const handlePointSelect = (id: string | number) => {
+      const target = localObjectsRef.current.find(o => o.id === id);
+      if (!target || target.isSelected) return;
+      designateTarget(target);
+      addLog('action', `ЗАХВАТ УКАЗАНИЕМ: ${target.class.toUpperCase()}`);
+  };
+
+  const handleSaveGestureBindings = (bindings: Record<DynamicGesture, GestureAction>) => {
+      setGestureBindings(bindings);
+      saveGestureBindings(bindings);
+      setShowGestureBindings(false);
+  };
+
+  const handleSaveDetector = (config: DetectorConfig, gallery: GalleryConfig) => {
+      setDetectorConfig(config);
+      saveDetectorConfig(config);
+      setGalleryConfig(gallery);
+      saveGalleryConfig(gallery);
+      setShowDetector(false);
+      addLog('sys', `ДЕТЕКТОР: ${config.id.toUpperCase()}`);
+  };
+
+  const handleSelectVideoSource = (spec: VideoSourceSpec) => {
+      setReplay(null);
+      setVideoSource(spec);
+      setShowVideoSource(false);
+      const name = spec.kind === 'file' ? spec.file.name : spec.kind === 'frames' ? `${spec.files.length} КАДРОВ @ ${spec.fps} FPS` : spec.kind === 'screen' ? 'ЗАХВАТ ЭКРАНА' : 'КАМЕРА';
+      addLog('sys', `ИСТОЧНИК: ${name.toUpperCase()}`);
+  };
+
+  const handleVideoSourceEnded = () => {
+      if (videoSource.kind === 'camera') return;
+      setReplay(null);
+      setVideoSource({ kind: 'camera' });
+      addLog('sys', 'ИСТОЧНИК ЗАВЕРШЕН: ВОЗВРАТ К КАМЕРЕ');
+  };
+
   const handleSwitchCamera = () => {
+      // From footage or a screen share the first press returns to the live camera
+      if (videoSourceRef.current.kind !== 'camera') {
+          handleSelectVideoSource({ kind: 'camera' });
+          return;
+      }
+      const cameras = camerasRef.current;
       if (cameras.length < 2) return;
-      const currentIndex = cameras.findIndex(c => c.deviceId === activeCameraId);
+      const currentIndex = cameras.findIndex(c => c.deviceId === activeCameraIdRef.current);
       const nextIndex = (currentIndex + 1) % cameras.length;
       setActiveCameraId(cameras[nextIndex].deviceId);
       addLog('sys', `КАМЕРА: ${cameras[nextIndex].label.toUpperCase()}`);
   };
 
+  const startRecording = () => {
+      if (recorderRef.current) return;
+      const rec = new SessionRecorder(`СЕССИЯ ${new Date().toLocaleString('ru-RU')}`);
+      recorderRef.current = rec;
+      setRecorder(rec);
+      addLog('sys', 'ЗАПИСЬ СЕССИИ: НАЧАТА');
+  };
+
+  const stopRecording = async () => {
+      const rec = recorderRef.current;
+      if (!rec) return;
+      recorderRef.current = null;
+      setRecorder(null);
+      const meta = await rec.stop();
+      addLog('sys', `ЗАПИСЬ СОХРАНЕНА: ${Math.round(meta.duration / 1000)} С, ${meta.eventCount} СОБЫТИЙ${meta.videoOffset === null ? ', БЕЗ ВИДЕО' : ''}`);
+  };
+
+  const startReplay = async (id: string) => {
+      await stopRecording();
+      const session = await loadSession(id).catch(() => null);
+      if (!session || !session.video) {
+          addLog('sys', 'ПОВТОР НЕВОЗМОЖЕН: НЕТ ВИДЕО');
+          return;
+      }
+      const type = session.meta.videoType || session.video.type || 'video/webm';
+      const video = new File([session.video], `${session.meta.id}.${type.includes('mp4') ? 'mp4' : 'webm'}`, { type });
+      setShowSessions(false);
+      setReplayTime(session.meta.videoOffset ?? 0);
+      setReplay({ meta: session.meta, timeline: new SessionTimeline(session.events, session.meta.duration), video });
+      setVideoSource({ kind: 'file', file: video });
+      addLog('sys', `ПОВТОР: ${session.meta.name}`);
+  };
+
+  const exitReplay = () => handleSelectVideoSource({ kind: 'camera' });
+
   const addLog = (type: LogEntry['type'], message: string) => {
     setLogs(prev => [...prev, {
         id: Date.now(),
@@ -288,6 +781,8 @@ const App: React.FC = () => {
   };
 
   const handlePermissions = async () => {
+    // Has to start inside the tap: iOS refuses orientation access afterwards
+    const orientationPermission = PoseService.requestPermission();
     try {
       // First ensure permissions
       await navigator.mediaDevices.getUserMedia({ video: true, audio: true });
@@ -300,6 +795,7 @@ const App: React.FC = () => {
       
       setCameras(videoDevices);
       if (videoDevices.length > 0) setActiveCameraId(videoDevices[0].deviceId);
+      if (await orientationPermission) poseServiceRef.current.start();
 
       setError('');
       setAppState('booting');
@@ -326,11 +822,39 @@ const App: React.FC = () => {
       }
   };
 
+  const applyNetworkSettings = (next: NetworkSettings) => {
+      const prev = networkSettingsRef.current;
+      networkSettingsRef.current = next;
+      setNetworkSettings(next);
+      saveNetworkSettings(next);
+      setShowNetworkSettings(false);
+
+      const net = networkRef.current;
+      if (!net) return;
+      if (!next.enabled) net.disconnect();
+      net.setName(next.displayName);
+      net.setRoom(next.room);
+      if (next.squadKey !== prev.squadKey || next.token !== prev.token) {
+          net.configureSecurity({ squadKey: next.squadKey, token: next.token });
+      }
+      net.setUrl(next.relayUrl);
+      // Opens a changed URL and retries a relay that rejected the previous token; a new squad key
+      // already rejoined in configureSecurity
+      if (next.enabled && appState === 'active') net.connect();
+      addLog('net', next.enabled ? `СЕТЬ: ${next.relayUrl} / ${next.room}` : 'СЕТЬ ОТКЛЮЧЕНА ОПЕРАТОРОМ');
+  };
+
+  const handleAssetsChecked = (report: AssetReport) => {
+      setAssetUrls(report.urls);
+      if (report.missing.length === 0) return;
+      addLog('sys', `АКТИВЫ: НЕТ ${report.missing.length} ИЗ ${ASSETS.length} (${navigator.onLine ? 'ЗАГРУЗКА С CDN' : 'НЕДОСТУПНЫ ОФЛАЙН'})`);
+  };
+
   const handleBootComplete = async () => {
       setAppState('active');
       setIsListening(true);
       speakSystemMessage("Система онлайн. Нейроинтерфейс активен.");
-      networkRef.current?.connect();
+      if (networkSettingsRef.current.enabled) networkRef.current?.connect();
       await connectToGemini();
   };
 
@@ -400,6 +924,7 @@ const App: React.FC = () => {
                   const text = lastResult[0].transcript;
                   addLog('action', `ВЫ: ${text}`);
                   setHistory(prev => [...prev, { id: Date.now(), text, isAi: false, timestamp: Date.now() }].slice(-10));
+                  relayVoiceToSquad(text);
                   
                   setAvatarAction('LISTENING');
                   // Query OpenRouter
@@ -458,6 +983,7 @@ const App: React.FC = () => {
               3. Используй 'updateSceneStatus' для обновления текстового статуса.
               4. Используй 'annotateRegion' если видишь лица или важные объекты.
               5. Описывай изменения в сцене кратко и четко, как в радиоэфире.
+              6. Сообщения [СЦЕНА] - сводка локального детектора (объекты и позы людей), [ТРЕВОГА] - событие, о котором нужно сразу доложить.
             `,
             // FIXED: Using empty objects avoids "invalid argument" error. 
             // The Live API infers the correct transcription model from the main model.
@@ -488,24 +1014,40 @@ const App: React.FC = () => {
                 if (msg.toolCall) {
                     const responses = msg.toolCall.functionCalls.map(fc => {
                         const args = fc.args;
+                        recorderRef.current?.record({ kind: 'tool', data: { name: fc.name, args: args || {} } });
                         let result = "OK";
                         if (fc.name === "systemControl") {
-                            if (args.command === "TOGGLE_VIEW") setViewMode(prev => prev === 'ar' ? 'avatar' : 'ar');
-                            else if (args.command === "RESET_ZOOM") setZoomState({ level: 1, x: 50, y: 50 });
-                            else if (args.command === "TOGGLE_LOGS") setShowLogs(prev => !prev);
-                            else if (args.command === "SWITCH_CAMERA") handleSwitchCamera();
-                            else if (args.command === "CYCLE_ANALYSIS") setAnalysisMode(p => p === 'AUTO' ? 'DETAILED' : p === 'DETAILED' ? 'SILENT' : 'AUTO');
+                            runSystemCommand(String(args.command));
                         } else if (fc.name === "selectTarget") {
-                            if (args.targetType === 'reset') {
-                                setSelectedTargetId(null);
+                            const targetType = String(args.targetType).toLowerCase();
+                            const myId = networkRef.current?.getUserId();
+                            if (targetType === 'reset') {
+                                designateTarget(null);
                                 addLog('action', 'СБРОС ВЫДЕЛЕНИЯ');
+                            } else if (targetType === 'marked') {
+                                const unit = args.unit ? String(args.unit).toLowerCase() : '';
+                                const mark = marksRef.current
+                                    .filter(m => m.designatorId !== myId && (!unit || m.designatorName.toLowerCase().includes(unit)))
+                                    .sort((a, b) => b.timestamp - a.timestamp)[0];
+                                if (!mark) {
+                                    addLog('sys', 'НЕТ ОТМЕТОК ОТРЯДА');
+                                    result = "NO_SQUAD_MARKS";
+                                } else {
+                                    // Seen by this unit: lock on locally, the squad mark stays with its designator
+                                    if (mark.ownerId === myId) setSelectedTargetId(mark.objectId);
+                                    addLog('action', `ЦЕЛЬ ОТРЯДА: ${mark.class.toUpperCase()} (${mark.designatorName})`);
+                                    result = mark.ownerId === myId ? "OK" : `REMOTE_TARGET_SEEN_BY_${mark.ownerId}`;
+                                }
                             } else {
-                                const targetType = args.targetType.toLowerCase();
-                                const candidates = localObjects.filter(o => o.class.includes(targetType) || targetType.includes(o.class));
-                                if (candidates.length > 0) {
-                                    candidates.sort((a,b) => (b.bbox[2]*b.bbox[3]) - (a.bbox[2]*a.bbox[3]));
-                                    setSelectedTargetId(candidates[0].id);
-                                    addLog('action', `ЗАХВАТ ЦЕЛИ: ${targetType.toUpperCase()}`);
+                                const matches = (o: TrackedObject) => o.class.includes(targetType) || targetType.includes(o.class);
+                                const bySize = (a: TrackedObject, b: TrackedObject) => (b.bbox[2]*b.bbox[3]) - (a.bbox[2]*a.bbox[3]);
+                                const local = localObjectsRef.current.filter(matches).sort(bySize);
+                                const remote = remoteObjectsRef.current.filter(matches).sort(bySize);
+                                const target = local[0] || remote[0];
+                                if (target) {
+                                    designateTarget(target);
+                                    addLog('action', `ЗАХВАТ ЦЕЛИ: ${targetType.toUpperCase()}${target.isRemote ? ` [${target.remoteUser}]` : ''}`);
+                                    if (target.isRemote) result = "REMOTE_TARGET";
                                 } else {
                                     addLog('sys', `ЦЕЛЬ НЕ НАЙДЕНА: ${targetType}`);
                                     result = "TARGET_NOT_FOUND";
@@ -527,6 +1069,8 @@ const App: React.FC = () => {
                                 label: args.label,
                                 timestamp: Date.now()
                             }]);
+                        } else if (fc.name === "setPerimeter") {
+                            result = runPerimeterTool(args);
                         }
                         return { id: fc.id, name: fc.name, response: { result } };
                     });
@@ -544,6 +1088,7 @@ const App: React.FC = () => {
                    const text = msg.serverContent.inputTranscription.text;
                    if (text) {
                        setAvatarAction('LISTENING');
+                       userTurnRef.current += text;
                        setUserBuffer(prev => prev + text);
                    }
                 }
@@ -551,6 +1096,7 @@ const App: React.FC = () => {
                 if (msg.serverContent?.outputTranscription) {
                     const text = msg.serverContent.outputTranscription.text;
                     if (text) {
+                        aiTurnRef.current += text;
                         setAiBuffer(prev => prev + text);
                     }
                 }
@@ -559,17 +1105,22 @@ const App: React.FC = () => {
                    setStatus('СЛЕЖЕНИЕ');
                    setAvatarAction('IDLE');
                    
+                   const userTurn = userTurnRef.current;
+                   const aiTurn = aiTurnRef.current;
                    setHistory(h => {
                        const newHistory = [...h];
-                       if (userBuffer.trim()) {
-                           newHistory.push({ id: Date.now() - 1, text: userBuffer, isAi: false, timestamp: Date.now() });
+                       if (userTurn.trim()) {
+                           newHistory.push({ id: Date.now() - 1, text: userTurn, isAi: false, timestamp: Date.now() });
                        }
-                       if (aiBuffer.trim()) {
-                           newHistory.push({ id: Date.now(), text: aiBuffer, isAi: true, timestamp: Date.now() });
+                       if (aiTurn.trim()) {
+                           newHistory.push({ id: Date.now(), text: aiTurn, isAi: true, timestamp: Date.now() });
                        }
                        return newHistory.slice(-10);
                    });
+                   relayVoiceToSquad(userTurn);
                    
+                   userTurnRef.current = '';
+                   aiTurnRef.current = '';
                    setUserBuffer('');
                    setAiBuffer('');
                 }
@@ -733,24 +1284,72 @@ const App: React.FC = () => {
       setTimeout(() => setDeduction(''), 8000);
   }, []);
 
+  const handleReacquire = useCallback((id: number, cls: string) => {
+      const knownName = knownProfilesRef.current.get(id);
+      addLog('info', `ЦЕЛЬ ВОЗВРАЩЕНА: ${knownName || `${cls.toUpperCase()} #${id}`}`);
+  }, []);
+
+  // Structured context for the live model, alongside the video frames it already gets
+  const sendSessionContext = useCallback((text: string) => {
+      if (!connectedRef.current || !sessionPromiseRef.current) return;
+      sessionPromiseRef.current.then(session => {
+          try {
+              session.sendRealtimeInput({ text });
+          } catch(e) {}
+      }).catch(e => {});
+  }, []);
+
+  const handleSceneChange = useCallback((summary: string) => {
+      setSceneDescription(summary);
+      sendSessionContext(`[СЦЕНА] ${summary}`);
+  }, []);
+
+  const handlePersonDown = useCallback((id: string | number) => {
+      const name = knownProfilesRef.current.get(id) || `PERSON #${id}`;
+      addLog('action', `ЧЕЛОВЕК УПАЛ: ${name}`);
+      setDeduction(`ТРЕВОГА: ЧЕЛОВЕК УПАЛ\nЦЕЛЬ: ${name}`);
+      setTimeout(() => setDeduction(''), 8000);
+      sendSessionContext(`[ТРЕВОГА] Человек упал: ${name}. Сообщи оператору.`);
+  }, []);
+
   const handleUpdateLocalObjects = useCallback((newObjects: TrackedObject[]) => {
     const now = performance.now();
     const delta = now - lastTimeRef.current;
     lastTimeRef.current = now;
     setFps(Math.round(1000 / delta));
-    const processed = newObjects.map(obj => ({
+    const myId = networkRef.current?.getUserId() || '';
+    const processed = newObjects.map(obj => withDesignation({
         ...obj,
         codeName: knownProfilesRef.current.get(obj.id),
         isSelected: obj.id === selectedTargetId
-    }));
+    }, myId));
+    localObjectsRef.current = processed;
     setLocalObjects(processed);
+
+    const zoneEvents = geofenceRef.current.update(zonesRef.current, processed, frameSizeRef.current.width, frameSizeRef.current.height, Date.now());
+    if (!replay) handleZoneEvents(zoneEvents); // Replayed alerts are already in the recorded log
+    const active = geofenceRef.current.activeZoneIds(Date.now());
+    setActiveZoneIds(prev => prev.join() === active.join() ? prev : active);
+
+    // A replay only redraws: its detections are not new, and the squad must not take them for live ones
+    if (replay) return;
+    detectionLogRef.current.record(processed, Date.now(), frameSizeRef.current.width, frameSizeRef.current.height);
+
+    // Drop squad marks on targets this unit no longer tracks
+    marksRef.current.forEach(m => {
+        if (m.ownerId !== myId || pendingReleasesRef.current.has(m.key)) return;
+        if (processed.some(o => o.id === m.objectId)) return;
+        pendingReleasesRef.current.add(m.key);
+        networkRef.current?.releaseMark(m.key);
+    });
     if (now - lastNetworkSendRef.current > 30) {
-        networkRef.current?.send('TELEMETRY', processed);
+        networkRef.current?.sendTelemetry(processed);
         lastNetworkSendRef.current = now;
     }
-  }, [selectedTargetId]);
+  }, [selectedTargetId, replay]);
 
   const handleFrameCapture = useCallback((base64: string, quality: number) => {
+      detectionLogRef.current.attachJpeg(base64);
       if (isFallbackMode) return;
       if (connectedRef.current && sessionPromiseRef.current) {
           sessionPromiseRef.current.then(session => {
@@ -774,7 +1373,15 @@ const App: React.FC = () => {
   };
 
   const toggleViewMode = () => setViewMode(prev => prev === 'ar' ? 'avatar' : 'ar');
-  const allObjects = [...localObjects, ...remoteObjects];
+  // In replay the HUD rebuilds from the recording; the tracker re-runs on the recorded predictions
+  const replayObjects = replay?.timeline.objectsAt(replayTime);
+  const hudRemoteObjects = replay ? replayObjects?.remote || [] : remoteObjects;
+  const allObjects = [...localObjects, ...hudRemoteObjects];
+  const replayMarkers = replay
+      ? replay.timeline.markers()
+          .map(m => ({ ...m, time: (m.t - (replay.meta.videoOffset ?? 0)) / 1000 }))
+          .filter(m => m.time >= 0)
+      : [];
   const detectedPeople = localObjects.filter(o => o.class === 'person');
 
   if (appState === 'permissions') {
@@ -788,7 +1395,7 @@ const App: React.FC = () => {
     >
       {appState === 'booting' && (
           <div className="absolute inset-0 z-[100] pointer-events-none">
-              <BootSequence onComplete={handleBootComplete} />
+              <BootSequence onAssetsChecked={handleAssetsChecked} onComplete={handleBootComplete} />
           </div>
       )}
       <div className={`absolute inset-0 transition-opacity duration-1000 ${viewMode === 'ar' ? 'opacity-100' : 'opacity-0'}`}>
@@ -796,20 +1403,45 @@ const App: React.FC = () => {
              isActive={isVideoActive} 
              zoomState={zoomState}
              activeDeviceId={activeCameraId}
+             source={videoSource}
+             onSourceReady={setLiveSource}
+             onSourceEnded={handleVideoSourceEnded}
              localObjects={localObjects}
-             remoteObjects={remoteObjects}
+             remoteObjects={hudRemoteObjects}
+             recorder={recorder}
+             replay={replay}
+             remotePoses={remotePoses}
+             poseService={poseServiceRef.current}
+             focalLength={activeCalibration?.focalLength ?? DEFAULT_FOCAL_LENGTH}
+             assets={assetUrls}
+             detector={detectorConfig}
+             reIdGallery={galleryConfig}
+             onDetectorReady={setDetectorInfo}
+             depthModelUrl={depthMode !== 'off' ? DEPTH_MODEL_URL : undefined}
+             showDepthMap={depthMode === 'map'}
              aiAnnotations={aiAnnotations}
+             zones={zones}
+             activeZoneIds={activeZoneIds}
              sceneDescription={sceneDescription}
              analysisMode={analysisMode}
              onUpdateLocalObjects={handleUpdateLocalObjects}
-             onSceneChange={setSceneDescription}
+             onSceneChange={handleSceneChange}
              onDeepAnalysis={handleDeepAnalysis}
+             onReacquire={handleReacquire}
+             onPersonDown={handlePersonDown}
+             onDynamicGesture={handleDynamicGesture}
+             onPointSelect={handlePointSelect}
+             onFrameSize={(width, height) => {
+                 frameSizeRef.current = { width, height };
+                 setFrameSize({ width, height });
+             }}
              onFrameCapture={handleFrameCapture}
              onError={(e) => setError(e)}
           />
       </div>
       <div className={`absolute inset-0 pointer-events-none transition-opacity duration-500 ${viewMode === 'avatar' ? 'opacity-100' : 'opacity-0'}`}>
             <AvatarSystem 
+                assets={assetUrls}
                 audioAnalyser={outputAnalyserState} 
                 currentAction={avatarAction}
                 detectedPeople={detectedPeople}
@@ -819,17 +1451,26 @@ const App: React.FC = () => {
          objects={allObjects}
          transcript={userBuffer}
          aiTranscript={aiBuffer}
-         history={history}
-         logs={logs}
+         history={replay ? replay.timeline.transcriptsAt(replayTime) : history}
+         logs={replay ? replay.timeline.logsAt(replayTime) : logs}
          status={isFallbackMode ? 'РЕЗЕРВ' : status}
          isListening={isListening}
          fps={fps}
          audioAnalyser={inputAnalyserRef.current}
          aiAudioAnalyser={outputAnalyserState}
          networkUsers={networkUsers}
+         marks={marks}
+         linkStats={linkStats}
          userId={userId}
+         userName={networkSettings.displayName || userId}
+         room={networkSettings.enabled ? networkSettings.room : null}
          situationSummary={sceneDescription} 
          showLogs={showLogs}
+         onSendChat={handleSendChat}
+         squadVoiceRelay={squadVoiceRelay}
+         onToggleSquadVoiceRelay={toggleSquadVoiceRelay}
+         readChatAloud={readChatAloud}
+         onToggleReadChatAloud={toggleReadChatAloud}
       />
       
       {/* Fallback Mode Indicator */}
@@ -895,6 +1536,96 @@ const App: React.FC = () => {
             >
                 <BrainCircuit size={20} />
             </button>
+            <div className="h-[1px] bg-[#FF7F00]/50"></div>
+            <button 
+                onMouseEnter={(e) => handleMouseEnter("НАСТРОЙКИ СЕТИ", e)} 
+                onMouseLeave={handleMouseLeave}
+                onClick={() => setShowNetworkSettings(true)} 
+                className={`p-2 transition-all hover:bg-[#FF7F00] hover:text-black ${networkSettings.enabled ? 'text-[#FF7F00]' : 'text-gray-500'}`}
+            >
+                <Settings size={20} />
+            </button>
+            <div className="h-[1px] bg-[#FF7F00]/50"></div>
+            <button 
+                onMouseEnter={(e) => handleMouseEnter(isPoseCalibrated ? "СБРОСИТЬ КАЛИБРОВКУ" : "КАЛИБРОВКА ПО ОРИЕНТИРУ", e)} 
+                onMouseLeave={handleMouseLeave}
+                onClick={handleCalibratePose} 
+                className={`p-2 transition-all hover:bg-[#FF7F00] hover:text-black ${isPoseCalibrated ? 'text-[#00FFFF]' : 'text-[#FF7F00]'}`}
+            >
+                <Compass size={20} />
+            </button>
+            <div className="h-[1px] bg-[#FF7F00]/50"></div>
+            <button 
+                onMouseEnter={(e) => handleMouseEnter("КАЛИБРОВКА ДАЛЬНОМЕРА", e)} 
+                onMouseLeave={handleMouseLeave}
+                onClick={() => setShowCalibration(true)} 
+                className={`p-2 transition-all hover:bg-[#FF7F00] hover:text-black ${activeCalibration ? 'text-[#00FFFF]' : 'text-[#FF7F00]'}`}
+            >
+                <Ruler size={20} />
+            </button>
+            <div className="h-[1px] bg-[#FF7F00]/50"></div>
+            <button 
+                onMouseEnter={(e) => handleMouseEnter(depthMode === 'off' ? "МОДЕЛЬ ГЛУБИНЫ" : depthMode === 'on' ? "КАРТА ГЛУБИНЫ" : "ГЛУБИНА ВЫКЛ", e)} 
+                onMouseLeave={handleMouseLeave}
+                onClick={cycleDepthMode} 
+                className={`p-2 transition-all hover:bg-[#FF7F00] hover:text-black ${depthMode !== 'off' ? 'text-[#00FFFF]' : 'text-[#FF7F00]'} ${depthMode === 'map' ? 'bg-[#00FFFF]/20' : ''}`}
+            >
+                <Layers size={20} />
+            </button>
+            <div className="h-[1px] bg-[#FF7F00]/50"></div>
+            <button 
+                onMouseEnter={(e) => handleMouseEnter("УПРАВЛЕНИЕ ЖЕСТАМИ", e)} 
+                onMouseLeave={handleMouseLeave}
+                onClick={() => setShowGestureBindings(true)} 
+                className="p-2 transition-all hover:bg-[#FF7F00] hover:text-black text-[#FF7F00]"
+            >
+                <Hand size={20} />
+            </button>
+            <div className="h-[1px] bg-[#FF7F00]/50"></div>
+            <button 
+                onMouseEnter={(e) => handleMouseEnter("ДЕТЕКТОР ОБЪЕКТОВ", e)} 
+                onMouseLeave={handleMouseLeave}
+                onClick={() => setShowDetector(true)} 
+                className={`p-2 transition-all hover:bg-[#FF7F00] hover:text-black ${detectorConfig.id !== DEFAULT_DETECTOR.id ? 'text-[#00FFFF]' : 'text-[#FF7F00]'}`}
+            >
+                <ScanSearch size={20} />
+            </button>
+            <div className="h-[1px] bg-[#FF7F00]/50"></div>
+            <button 
+                onMouseEnter={(e) => handleMouseEnter("ИСТОЧНИК ВИДЕО", e)} 
+                onMouseLeave={handleMouseLeave}
+                onClick={() => setShowVideoSource(true)} 
+                className={`p-2 transition-all hover:bg-[#FF7F00] hover:text-black ${videoSource.kind !== 'camera' ? 'text-[#00FFFF]' : 'text-[#FF7F00]'}`}
+            >
+                <Film size={20} />
+            </button>
+            <div className="h-[1px] bg-[#FF7F00]/50"></div>
+            <button 
+                onMouseEnter={(e) => handleMouseEnter(recorder ? "ИДЕТ ЗАПИСЬ" : "ЗАПИСЬ СЕССИЙ", e)} 
+                onMouseLeave={handleMouseLeave}
+                onClick={() => setShowSessions(true)} 
+                className={`p-2 transition-all hover:bg-[#FF7F00] hover:text-black ${recorder ? 'text-red-500 animate-pulse' : replay ? 'text-[#00FFFF]' : 'text-[#FF7F00]'}`}
+            >
+                <Disc size={20} />
+            </button>
+            <div className="h-[1px] bg-[#FF7F00]/50"></div>
+            <button 
+                onMouseEnter={(e) => handleMouseEnter("ЭКСПОРТ ДЕТЕКЦИЙ", e)} 
+                onMouseLeave={handleMouseLeave}
+                onClick={() => setShowExport(true)} 
+                className="text-[#FF7F00] hover:bg-[#FF7F00] hover:text-black p-2 transition-all"
+            >
+                <Download size={20} />
+            </button>
+            <div className="h-[1px] bg-[#FF7F00]/50"></div>
+            <button 
+                onMouseEnter={(e) => handleMouseEnter("ЗОНЫ И РУБЕЖИ", e)} 
+                onMouseLeave={handleMouseLeave}
+                onClick={() => setShowZones(true)} 
+                className={`p-2 transition-all hover:bg-[#FF7F00] hover:text-black ${activeZoneIds.length > 0 ? 'text-red-500 animate-pulse' : zones.length > 0 ? 'text-[#00FFFF]' : 'text-[#FF7F00]'}`}
+            >
+                <Fence size={20} />
+            </button>
           </div>
           {viewMode === 'ar' && (
               <div className="flex flex-col gap-2 border border-[#FF7F00]/50 p-1 bg-black/40 tech-panel">
@@ -927,6 +1658,103 @@ const App: React.FC = () => {
           )}
       </div>
 
+      {showNetworkSettings && (
+          <NetworkSettingsPanel
+              settings={networkSettings}
+              userId={userId}
+              onSave={applyNetworkSettings}
+              onClose={() => setShowNetworkSettings(false)}
+          />
+      )}
+
+      {showDetector && (
+          <DetectorPanel
+              config={detectorConfig}
+              active={detectorInfo}
+              gallery={galleryConfig}
+              onSave={handleSaveDetector}
+              onClose={() => setShowDetector(false)}
+          />
+      )}
+
+      {showVideoSource && (
+          <VideoSourcePanel
+              current={videoSource.kind}
+              onSelect={handleSelectVideoSource}
+              onClose={() => setShowVideoSource(false)}
+          />
+      )}
+
+      {liveSource?.playback && videoSource.kind !== 'camera' && viewMode === 'ar' && (
+          <PlaybackBar
+              playback={liveSource.playback}
+              label={replay ? `ПОВТОР: ${replay.meta.name}` : liveSource.label}
+              markers={replay ? replayMarkers : undefined}
+              onClose={exitReplay}
+          />
+      )}
+
+      {showExport && (
+          <ExportPanel
+              log={detectionLogRef.current}
+              onExported={(frames, images) => addLog('sys', `ЭКСПОРТ: ${frames} КАДРОВ, ${images} СНИМКОВ`)}
+              onClose={() => setShowExport(false)}
+          />
+      )}
+
+      {showZones && (
+          <ZonePanel
+              cameraLabel={cameras.find(c => c.deviceId === activeCameraId)?.label || 'КАМЕРА ПО УМОЛЧАНИЮ'}
+              zones={zones}
+              activeZoneIds={activeZoneIds}
+              onDraw={startZoneDrawing}
+              onUpdate={(zone) => updateZones(list => list.map(z => z.id === zone.id ? zone : z))}
+              onDelete={(id) => updateZones(list => list.filter(z => z.id !== id))}
+              onClose={() => setShowZones(false)}
+          />
+      )}
+
+      {drawingZone && viewMode === 'ar' && (
+          <ZoneDrawLayer
+              kind={drawingZone}
+              frameSize={frameSize || frameSizeRef.current}
+              onFinish={handleZoneDrawn}
+              onCancel={() => { setDrawingZone(null); setShowZones(true); }}
+          />
+      )}
+
+      {showSessions && (
+          <SessionPanel
+              isRecording={!!recorder}
+              onStartRecording={startRecording}
+              onStopRecording={stopRecording}
+              onReplay={startReplay}
+              onClose={() => setShowSessions(false)}
+          />
+      )}
+
+      {showGestureBindings && (
+          <GestureBindingsPanel
+              bindings={gestureBindings}
+              onSave={handleSaveGestureBindings}
+              onClose={() => setShowGestureBindings(false)}
+          />
+      )}
+
+      {showCalibration && (
+          <CalibrationPanel
+              cameraLabel={cameras.find(c => c.deviceId === activeCameraId)?.label || 'КАМЕРА ПО УМОЛЧАНИЮ'}
+              calibration={activeCalibration}
+              target={localObjects.find(o => o.isSelected)}
+              frameHeight={frameSize?.height}
+              sizeProfiles={sizeProfiles}
+              onCalibrate={handleCameraCalibration}
+              onResetCalibration={() => handleCameraCalibration(null)}
+              onSaveProfiles={handleSaveSizeProfiles}
+              onClose={() => setShowCalibration(false)}
+          />
+      )}
+
       {error && (
         <div className="absolute top-10 left-1/2 -translate-x-1/2 bg-red-900/90 border-2 border-red-500 text-white px-6 py-4 font-bold z-50 text-xl backdrop-blur-md">
            КРИТИЧЕСКАЯ ОШИБКА: {error}
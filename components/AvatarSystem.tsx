@@ -3,20 +3,22 @@ import React, { useEffect, useRef, useState } from 'react';
 import * as THREE from 'three';
 import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
 import { AvatarAction, TrackedObject } from '../types';
+import { AssetId } from '../utils/assets';
 
 interface AvatarSystemProps {
+  assets: Record<AssetId, string> | null; // Resolved by the boot integrity check; presets load once known
   audioAnalyser: AnalyserNode | null;
   currentAction?: AvatarAction;
   detectedPeople: TrackedObject[];
 }
 
-const PRESET_MODELS = [
-    { name: "TACTICAL HELMET", url: "https://raw.githubusercontent.com/mrdoob/three.js/master/examples/models/gltf/DamagedHelmet/glTF/DamagedHelmet.gltf" },
-    { name: "ROBOT EXPRESSIVE", url: "https://raw.githubusercontent.com/mrdoob/three.js/master/examples/models/gltf/RobotExpressive/RobotExpressive.glb" },
-    { name: "AI CORE", url: null }, 
+const PRESET_MODELS: { name: string; asset: AssetId | null }[] = [
+    { name: "TACTICAL HELMET", asset: 'avatar-helmet' },
+    { name: "ROBOT EXPRESSIVE", asset: 'avatar-robot' },
+    { name: "AI CORE", asset: null }, 
 ];
 
-export const AvatarSystem: React.FC<AvatarSystemProps> = ({ audioAnalyser, currentAction = 'IDLE', detectedPeople }) => {
+export const AvatarSystem: React.FC<AvatarSystemProps> = ({ assets, audioAnalyser, currentAction = 'IDLE', detectedPeople }) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const rendererRef = useRef<THREE.WebGLRenderer | null>(null);
   const sceneRef = useRef<THREE.Scene | null>(null);
@@ -63,7 +65,6 @@ export const AvatarSystem: React.FC<AvatarSystemProps> = ({ audioAnalyser, curre
 
   useEffect(() => {
     initThreeJS();
-    loadPreset(0); 
     const handleMouseMove = (e: MouseEvent) => {
         mouseRef.current.x = (e.clientX / window.innerWidth) * 2 - 1;
         mouseRef.current.y = -(e.clientY / window.innerHeight) * 2 + 1;
@@ -76,6 +77,10 @@ export const AvatarSystem: React.FC<AvatarSystemProps> = ({ audioAnalyser, curre
     };
   }, []);
 
+  useEffect(() => {
+    if (assets) loadPreset(currentModelIndex);
+  }, [assets]);
+
   const initThreeJS = () => {
     if (!containerRef.current) return;
     const width = window.innerWidth;
@@ -113,13 +118,14 @@ export const AvatarSystem: React.FC<AvatarSystemProps> = ({ audioAnalyser, curre
       if (avatarRef.current) sceneRef.current?.remove(avatarRef.current);
       mixerRef.current = null;
       actionsRef.current = {};
-      if (!PRESET_MODELS[index].url) {
+      const asset = PRESET_MODELS[index].asset;
+      if (!asset || !assets) {
           const g = new THREE.Group();
           g.add(new THREE.Mesh(new THREE.IcosahedronGeometry(1, 1), new THREE.MeshStandardMaterial({color: 0x333333, wireframe:true})));
           avatarRef.current = g;
           sceneRef.current?.add(g);
       } else {
-          loadGLB(PRESET_MODELS[index].url!);
+          loadGLB(assets[asset]);
       }
   };
 
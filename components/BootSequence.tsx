@@ -1,46 +1,106 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
+import { ASSETS, AssetGroup, AssetReport, checkAssets } from '../utils/assets';
 
 interface BootSequenceProps {
+  onAssetsChecked: (report: AssetReport) => void; // As soon as the integrity check is done, before the boot finishes
   onComplete: () => void;
 }
 
-export const BootSequence: React.FC<BootSequenceProps> = ({ onComplete }) => {
-  const [lines, setLines] = useState<string[]>([]);
-  const [progress, setProgress] = useState(0);
+interface BootLine {
+  text: string;
+  warn?: boolean;
+}
+
+const GROUP_LABELS: Record<AssetGroup, string> = {
+  runtime: 'РАНТАЙМЫ TENSORFLOW.JS',
+  model: 'ВЕСА НЕЙРОСЕТЕЙ',
+  avatar: 'МОДЕЛИ АВАТАРА'
+};
+
+const assetLines = (report: AssetReport): BootLine[] => {
+  const lines: BootLine[] = [];
+  if (!report.manifest) lines.push({ text: '> МАНИФЕСТ АКТИВОВ НЕ НАЙДЕН', warn: true });
+  (Object.keys(GROUP_LABELS) as AssetGroup[]).forEach(group => {
+    const total = ASSETS.filter(a => a.group === group).length;
+    const missing = report.missing.filter(a => a.group === group);
+    lines.push(missing.length === 0
+      ? { text: `> ${GROUP_LABELS[group]} [OK]` }
+      : { text: `> ${GROUP_LABELS[group]} [ОТСУТСТВУЕТ ${missing.length}/${total}]`, warn: true });
+    // Without a manifest everything is missing, listing it all says nothing more
+    if (report.manifest) missing.forEach(a => lines.push({ text: `  ${a.path}`, warn: true }));
+  });
+  if (report.missing.length === 0) {
+    lines.push({ text: '> АВТОНОМНЫЙ РЕЖИМ ГОТОВ [OK]' });
+  } else {
+    lines.push(navigator.onLine
+      ? { text: '> ОТСУТСТВУЮЩИЕ МОДУЛИ: ЗАГРУЗКА С CDN' }
+      : { text: '> НЕТ СЕТИ: ОТСУТСТВУЮЩИЕ МОДУЛИ НЕДОСТУПНЫ', warn: true });
+    lines.push({ text: '> ДЛЯ АВТОНОМНОЙ РАБОТЫ: npm run assets' });
+  }
+  return lines;
+};
+
+const PRE_LINES = [
+  "BIOS DATE 17/01/26 15:32:00 VER 1.02",
+  "CPU: NEURAL QUANTUM PROCESSOR 64-BIT",
+  "64GB RAM SYSTEM DETECTED",
+  "LOADING KERNEL...",
+  "MOUNTING FILE SYSTEMS...",
+  "INITIATING GRAPHICS ADAPTER...",
+  "> ПРОВЕРКА ЦЕЛОСТНОСТИ МОДУЛЕЙ..."
+];
 
-  const bootLines = [
-    "BIOS DATE 17/01/26 15:32:00 VER 1.02",
-    "CPU: NEURAL QUANTUM PROCESSOR 64-BIT",
-    "64GB RAM SYSTEM DETECTED",
-    "LOADING KERNEL...",
-    "MOUNTING FILE SYSTEMS...",
-    "INITIATING GRAPHICS ADAPTER...",
-    "> ЗАГРУЗКА МОДУЛЕЙ ЗРЕНИЯ [OK]",
-    "> ПОДКЛЮЧЕНИЕ К TENSORFLOW.JS [OK]",
-    "> ПРОВЕРКА ДАТЧИКОВ ГЛУБИНЫ [ЭМУЛЯЦИЯ]",
-    "> УСТАНОВЛЕНИЕ СВЯЗИ С GEMINI API...",
-    "АВТОРИЗАЦИЯ...",
-    "ДОСТУП РАЗРЕШЕН.",
-    "ЗАПУСК ГРАФИЧЕСКОГО ИНТЕРФЕЙСА..."
-  ];
+const POST_LINES = [
+  "> ЗАГРУЗКА МОДУЛЕЙ ЗРЕНИЯ [OK]",
+  "> ПРОВЕРКА ДАТЧИКОВ ГЛУБИНЫ [ЭМУЛЯЦИЯ]",
+  "> УСТАНОВЛЕНИЕ СВЯЗИ С GEMINI API...",
+  "АВТОРИЗАЦИЯ...",
+  "ДОСТУП РАЗРЕШЕН.",
+  "ЗАПУСК ГРАФИЧЕСКОГО ИНТЕРФЕЙСА..."
+];
+
+export const BootSequence: React.FC<BootSequenceProps> = ({ onAssetsChecked, onComplete }) => {
+  const [lines, setLines] = useState<BootLine[]>([]);
+  const [progress, setProgress] = useState(0);
+  const [missingCount, setMissingCount] = useState<number | null>(null);
+  const reportRef = useRef<AssetReport | null>(null);
 
   useEffect(() => {
-    let currentLine = 0;
-    
+    let cancelled = false;
+    checkAssets(new URL('.', window.location.href).href).then(report => {
+        if (cancelled) return;
+        reportRef.current = report;
+        setMissingCount(report.missing.length);
+        onAssetsChecked(report);
+    });
+
+    const queue: BootLine[] = PRE_LINES.map(text => ({ text }));
+    const expected = PRE_LINES.length + POST_LINES.length + 5; // Asset lines are only known after the check
+    let assetsShown = false;
+
     const interval = setInterval(() => {
-        if (currentLine >= bootLines.length) {
-            clearInterval(interval);
-            setTimeout(onComplete, 1000);
-            return;
+        if (queue.length === 0) {
+            if (assetsShown) {
+                clearInterval(interval);
+                setProgress(100);
+                setTimeout(onComplete, 1000);
+                return;
+            }
+            if (!reportRef.current) return; // Still probing
+            assetsShown = true;
+            queue.push(...assetLines(reportRef.current), ...POST_LINES.map(text => ({ text })));
         }
 
-        setLines(prev => [...prev, bootLines[currentLine]]);
-        setProgress(p => Math.min(p + (100 / bootLines.length), 100));
-        currentLine++;
+        const line = queue.shift()!;
+        setLines(prev => [...prev, line]);
+        setProgress(p => Math.min(p + (100 / expected), 99));
 
     }, 300); 
 
-    return () => clearInterval(interval);
+    return () => {
+        cancelled = true;
+        clearInterval(interval);
+    };
   }, []);
 
   return (
@@ -55,7 +115,7 @@ export const BootSequence: React.FC<BootSequenceProps> = ({ onComplete }) => {
         {lines.map((line, i) => (
             <div key={i} className="flex gap-2">
                 <span className="opacity-50 text-gray-400">[{new Date().toLocaleTimeString('ru-RU')}]</span>
-                <span className="text-white drop-shadow-[0_0_2px_rgba(255,255,255,0.5)]">{line}</span>
+                <span className={`whitespace-pre ${line.warn ? 'text-red-500' : 'text-white drop-shadow-[0_0_2px_rgba(255,255,255,0.5)]'}`}>{line.text}</span>
             </div>
         ))}
       </div>
@@ -69,6 +129,7 @@ export const BootSequence: React.FC<BootSequenceProps> = ({ onComplete }) => {
         </div>
         <div className="flex justify-between mt-2 text-xs font-bold tracking-widest text-[#FF7F00]">
             <span>СТАТУС ПАМЯТИ: OK</span>
+            {missingCount !== null && <span>АКТИВЫ: {ASSETS.length - missingCount}/{ASSETS.length}</span>}
             <span>ЗАГРУЗКА: {Math.floor(progress)}%</span>
         </div>
       </div>
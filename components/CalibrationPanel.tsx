@@ -0,0 +1,179 @@
+import React, { useState } from 'react';
+import { CameraCalibration, SizeProfile, TrackedObject } from '../types';
+import { DEFAULT_SIZE_PROFILES, DEFAULT_FOCAL_LENGTH, fieldOfView, focalFromKnownDistance, getRealWorldHeight } from '../utils/objectGeometry';
+import { X, Crosshair, RotateCcw, Save, Plus } from 'lucide-react';
+
+interface CalibrationPanelProps {
+  cameraLabel: string;
+  calibration?: CameraCalibration;
+  target?: TrackedObject; // Selected local target, the reference for the distance wizard
+  frameHeight?: number; // Video pixels, the unit of target.bbox
+  sizeProfiles: Record<string, SizeProfile>; // Operator overrides
+  onCalibrate: (calibration: CameraCalibration) => void;
+  onResetCalibration: () => void;
+  onSaveProfiles: (profiles: Record<string, SizeProfile>) => void;
+  onClose: () => void;
+}
+
+// Plausible phone / webcam lenses; anything outside is a bad measurement
+const MIN_FOV = 15;
+const MAX_FOV = 130;
+
+const sameProfile = (a: SizeProfile, b?: SizeProfile) => !!b && a.height === b.height && a.aspect === b.aspect;
+
+export const CalibrationPanel: React.FC<CalibrationPanelProps> = ({
+  cameraLabel, calibration, target, frameHeight, sizeProfiles, onCalibrate, onResetCalibration, onSaveProfiles, onClose
+}) => {
+  const [distance, setDistance] = useState('');
+  const [height, setHeight] = useState(target ? String(getRealWorldHeight(target.class)) : '');
+  const [wizardError, setWizardError] = useState('');
+  const [profiles, setProfiles] = useState<Record<string, SizeProfile>>({ ...DEFAULT_SIZE_PROFILES, ...sizeProfiles });
+  const [newClass, setNewClass] = useState('');
+
+  const focalLength = calibration?.focalLength ?? DEFAULT_FOCAL_LENGTH;
+
+  const calibrate = () => {
+    if (!target || !frameHeight) return;
+    const d = parseFloat(distance);
+    const h = parseFloat(height);
+    if (!(d > 0) || !(h > 0)) {
+      setWizardError('ВВЕДИТЕ ДИСТАНЦИЮ И ВЫСОТУ');
+      return;
+    }
+    const focal = focalFromKnownDistance(target.bbox[3], frameHeight, h, d);
+    const fov = fieldOfView(focal);
+    if (!isFinite(fov) || fov < MIN_FOV || fov > MAX_FOV) {
+      setWizardError(`НЕПРАВДОПОДОБНЫЙ РЕЗУЛЬТАТ: ${isFinite(fov) ? fov.toFixed(0) : '--'}°`);
+      return;
+    }
+    setWizardError('');
+    onCalibrate({ focalLength: focal, calibratedAt: Date.now() });
+  };
+
+  const updateProfile = (cls: string, key: keyof SizeProfile, value: string) => {
+    const n = parseFloat(value);
+    if (!(n > 0)) return;
+    setProfiles(prev => ({ ...prev, [cls]: { ...prev[cls], [key]: n } }));
+  };
+
+  const addClass = () => {
+    const cls = newClass.trim().toLowerCase().replace(/\s+/g, '_');
+    if (!cls || profiles[cls]) return;
+    setProfiles(prev => ({ ...prev, [cls]: { height: 0.5, aspect: 1 } }));
+    setNewClass('');
+  };
+
+  const resetClass = (cls: string) => {
+    setProfiles(prev => {
+      const next = { ...prev };
+      if (DEFAULT_SIZE_PROFILES[cls]) next[cls] = DEFAULT_SIZE_PROFILES[cls];
+      else delete next[cls];
+      return next;
+    });
+  };
+
+  const saveProfiles = () => {
+    const overrides: Record<string, SizeProfile> = {};
+    Object.entries<SizeProfile>(profiles).forEach(([cls, profile]) => {
+      if (!sameProfile(profile, DEFAULT_SIZE_PROFILES[cls])) overrides[cls] = profile;
+    });
+    onSaveProfiles(overrides);
+  };
+
+  const stopKeys = (e: React.KeyboardEvent) => {
+    e.stopPropagation(); // Keep arrow keys from driving the zoom
+    if (e.key === 'Escape') onClose();
+  };
+
+  const inputClass = 'bg-black/70 border border-[#00FFFF]/30 focus:border-[#00FFFF] px-2 py-1 text-sm text-white outline-none placeholder:text-white/30';
+
+  return (
+    <div className="absolute inset-0 z-[150] flex items-center justify-center bg-black/60 backdrop-blur-sm pointer-events-auto">
+      <div className="w-full max-w-md mx-4 max-h-[90vh] border border-[#FF7F00]/50 bg-black/90 p-4 flex flex-col gap-3 font-bold tech-panel">
+        <div className="flex items-center justify-between text-[#00FFFF] text-xs tracking-[0.2em]">
+          <span>КАЛИБРОВКА ДАЛЬНОМЕРА</span>
+          <button onClick={onClose} className="p-1 hover:bg-[#00FFFF] hover:text-black transition-all">
+            <X size={14} />
+          </button>
+        </div>
+
+        <div className="text-[10px] text-[#FF7F00] tracking-[0.2em]">КАМЕРА</div>
+        <div className="flex items-center justify-between text-xs text-white">
+          <span className="truncate mr-2">{cameraLabel}</span>
+          <span className={calibration ? 'text-[#00FFFF]' : 'text-gray-500'}>
+            FOV {fieldOfView(focalLength).toFixed(1)}° {calibration ? 'КАЛИБР.' : 'ПО УМОЛЧ.'}
+          </span>
+        </div>
+
+        {target && frameHeight ? (
+          <>
+            <div className="text-xs text-white/70">
+              ЦЕЛЬ: {target.class.toUpperCase()} · СЕЙЧАС {target.distance.toFixed(1)} М
+            </div>
+            <div className="flex gap-2">
+              <label className="flex flex-col gap-1 flex-1">
+                <span className="text-[10px] text-[#FF7F00] tracking-[0.2em]">ДИСТАНЦИЯ, М</span>
+                <input type="number" min="0" step="0.1" value={distance} onChange={(e) => setDistance(e.target.value)} onKeyDown={(e) => { stopKeys(e); if (e.key === 'Enter') calibrate(); }} className={inputClass} />
+              </label>
+              <label className="flex flex-col gap-1 flex-1">
+                <span className="text-[10px] text-[#FF7F00] tracking-[0.2em]">ВЫСОТА ЦЕЛИ, М</span>
+                <input type="number" min="0" step="0.01" value={height} onChange={(e) => setHeight(e.target.value)} onKeyDown={(e) => { stopKeys(e); if (e.key === 'Enter') calibrate(); }} className={inputClass} />
+              </label>
+            </div>
+            {wizardError && <div className="text-[10px] text-red-500 tracking-widest">{wizardError}</div>}
+          </>
+        ) : (
+          <div className="text-[10px] text-white/50 tracking-widest">ВЫБЕРИТЕ ЦЕЛЬ НА ИЗВЕСТНОМ РАССТОЯНИИ</div>
+        )}
+
+        <div className="flex gap-2">
+          <button
+            onClick={calibrate}
+            disabled={!target || !frameHeight}
+            className="flex-1 flex items-center justify-center gap-2 border border-[#FF7F00] text-[#FF7F00] py-2 text-xs tracking-widest hover:bg-[#FF7F00] hover:text-black transition-all disabled:opacity-40 disabled:pointer-events-none"
+          >
+            <Crosshair size={14} /> КАЛИБРОВАТЬ
+          </button>
+          <button
+            onClick={onResetCalibration}
+            disabled={!calibration}
+            className="flex items-center justify-center gap-2 border border-gray-600 text-gray-400 px-3 py-2 text-xs tracking-widest hover:border-white hover:text-white transition-all disabled:opacity-40 disabled:pointer-events-none"
+          >
+            <RotateCcw size={14} />
+          </button>
+        </div>
+
+        <div className="text-[10px] text-[#FF7F00] tracking-[0.2em] mt-2">ПРОФИЛИ РАЗМЕРОВ (ВЫСОТА М · В/Ш)</div>
+        <div className="flex flex-col gap-1 overflow-y-auto min-h-0 pr-1">
+          {Object.entries<SizeProfile>(profiles).sort(([a], [b]) => a.localeCompare(b)).map(([cls, profile]) => {
+            const edited = !sameProfile(profile, DEFAULT_SIZE_PROFILES[cls]);
+            return (
+              // Keyed on the values so a reset re-seeds the uncontrolled inputs
+              <div key={`${cls}-${profile.height}-${profile.aspect}`} className="flex items-center gap-2 text-xs">
+                <span className={`flex-1 truncate ${edited ? 'text-[#00FFFF]' : 'text-white/70'}`}>{cls.toUpperCase()}</span>
+                <input type="number" min="0" step="0.01" defaultValue={profile.height} onBlur={(e) => updateProfile(cls, 'height', e.target.value)} onKeyDown={stopKeys} className={`${inputClass} w-20`} />
+                <input type="number" min="0" step="0.05" defaultValue={profile.aspect} onBlur={(e) => updateProfile(cls, 'aspect', e.target.value)} onKeyDown={stopKeys} className={`${inputClass} w-16`} />
+                <button onClick={() => resetClass(cls)} disabled={!edited} className="p-1 text-gray-500 hover:text-white disabled:opacity-20">
+                  <RotateCcw size={12} />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+        <div className="flex gap-2">
+          <input value={newClass} placeholder="НОВЫЙ КЛАСС" onChange={(e) => setNewClass(e.target.value)} onKeyDown={(e) => { stopKeys(e); if (e.key === 'Enter') addClass(); }} className={`${inputClass} flex-1`} />
+          <button onClick={addClass} className="p-2 border border-[#00FFFF]/30 text-[#00FFFF] hover:bg-[#00FFFF] hover:text-black transition-all">
+            <Plus size={14} />
+          </button>
+        </div>
+
+        <button
+          onClick={saveProfiles}
+          className="flex items-center justify-center gap-2 border border-[#FF7F00] text-[#FF7F00] py-2 text-xs tracking-widest hover:bg-[#FF7F00] hover:text-black transition-all"
+        >
+          <Save size={14} /> СОХРАНИТЬ ПРОФИЛИ
+        </button>
+      </div>
+    </div>
+  );
+};
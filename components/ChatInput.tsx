@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import { ConnectedUser } from '../types';
+import { Send, Radio, Volume2, VolumeX } from 'lucide-react';
+
+interface ChatInputProps {
+  users: ConnectedUser[];
+  onSend: (text: string, to: string | null) => void;
+  voiceRelay: boolean; // Broadcast own voice transcripts to the squad
+  onToggleVoiceRelay: () => void;
+  readAloud: boolean; // Speak incoming squad messages via TTS
+  onToggleReadAloud: () => void;
+}
+
+export const ChatInput: React.FC<ChatInputProps> = ({
+  users,
+  onSend,
+  voiceRelay,
+  onToggleVoiceRelay,
+  readAloud,
+  onToggleReadAloud
+}) => {
+  const [text, setText] = useState('');
+  const [recipient, setRecipient] = useState<string>('');
+
+  const onlineUsers = users.filter(u => u.status === 'online');
+  // Recipient went offline while selected: fall back to broadcast
+  const activeRecipient = onlineUsers.some(u => u.id === recipient) ? recipient : '';
+
+  const submit = () => {
+    const trimmed = text.trim();
+    if (!trimmed) return;
+    onSend(trimmed, activeRecipient || null);
+    setText('');
+  };
+
+  return (
+    <div className="flex items-center gap-1 pointer-events-auto border border-[#00FFFF]/30 bg-black/50 text-[10px] font-bold tracking-widest">
+      <select
+        value={activeRecipient}
+        onChange={(e) => setRecipient(e.target.value)}
+        className="bg-black/70 text-[#00FFFF] px-1 py-1 outline-none border-r border-[#00FFFF]/30 max-w-[90px]"
+      >
+        <option value="">ВСЕМ</option>
+        {onlineUsers.map(u => (
+          <option key={u.id} value={u.id}>{u.name}</option>
+        ))}
+      </select>
+      <input
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        onKeyDown={(e) => {
+          e.stopPropagation(); // Keep arrow keys from driving the zoom
+          if (e.key === 'Enter') submit();
+        }}
+        placeholder="СООБЩЕНИЕ ОТРЯДУ..."
+        className="bg-transparent text-white px-1 py-1 outline-none w-[120px] md:w-[200px] placeholder:text-white/30"
+      />
+      <button onClick={submit} className="p-1 text-[#00FFFF] hover:bg-[#00FFFF] hover:text-black transition-all">
+        <Send size={12} />
+      </button>
+      <button
+        onClick={onToggleVoiceRelay}
+        title="ГОЛОС В ЭФИР ОТРЯДА"
+        className={`p-1 transition-all hover:bg-[#00FFFF] hover:text-black ${voiceRelay ? 'text-[#FF7F00]' : 'text-gray-500'}`}
+      >
+        <Radio size={12} className={voiceRelay ? 'animate-pulse' : ''} />
+      </button>
+      <button
+        onClick={onToggleReadAloud}
+        title="ОЗВУЧИВАТЬ СООБЩЕНИЯ"
+        className={`p-1 transition-all hover:bg-[#00FFFF] hover:text-black ${readAloud ? 'text-[#00FFFF]' : 'text-gray-500'}`}
+      >
+        {readAloud ? <Volume2 size={12} /> : <VolumeX size={12} />}
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { DetectorConfig, DetectorId, DetectorInfo } from '../types';
+import { DETECTORS } from '../utils/detectorSettings';
+import { GalleryConfig } from '../utils/ReIdGallery';
+import { X, Save } from 'lucide-react';
+
+interface DetectorPanelProps {
+  config: DetectorConfig;
+  active: DetectorInfo | null; // Reported by the worker once loaded
+  gallery: GalleryConfig;
+  onSave: (config: DetectorConfig, gallery: GalleryConfig) => void;
+  onClose: () => void;
+}
+
+export const DetectorPanel: React.FC<DetectorPanelProps> = ({ config, active, gallery, onSave, onClose }) => {
+  const [id, setId] = useState<DetectorId>(config.id);
+  const [url, setUrl] = useState(config.url || '');
+  const [classes, setClasses] = useState((config.classes || []).join(', '));
+  const [inputSize, setInputSize] = useState(config.inputSize ? String(config.inputSize) : '');
+  const [gallerySize, setGallerySize] = useState(String(gallery.maxSize));
+  const [galleryMinutes, setGalleryMinutes] = useState(String(gallery.expiryMs / 60000));
+
+  const descriptor = DETECTORS.find(d => d.id === id) || DETECTORS[0];
+  const isValid = !descriptor.needsUrl || url.trim().length > 0;
+
+  const submit = () => {
+    if (!isValid) return;
+    const size = parseInt(gallerySize, 10);
+    const minutes = parseFloat(galleryMinutes);
+    const nextGallery = {
+      ...gallery,
+      maxSize: size >= 0 ? size : gallery.maxSize,
+      expiryMs: minutes > 0 ? minutes * 60000 : gallery.expiryMs
+    };
+    if (!descriptor.needsUrl) {
+      onSave({ id }, nextGallery);
+      return;
+    }
+    const names = classes.split(',').map(c => c.trim()).filter(Boolean);
+    const input = parseInt(inputSize, 10);
+    onSave({
+      id,
+      url: url.trim(),
+      classes: names.length > 0 ? names : undefined,
+      inputSize: input > 0 ? input : undefined
+    }, nextGallery);
+  };
+
+  const stopKeys = (e: React.KeyboardEvent) => {
+    e.stopPropagation(); // Keep arrow keys from driving the zoom
+    if (e.key === 'Enter') submit();
+    if (e.key === 'Escape') onClose();
+  };
+
+  const inputClass = 'bg-black/70 border border-[#00FFFF]/30 focus:border-[#00FFFF] px-2 py-1 text-sm text-white outline-none placeholder:text-white/30';
+
+  return (
+    <div className="absolute inset-0 z-[150] flex items-center justify-center bg-black/60 backdrop-blur-sm pointer-events-auto">
+      <div className="w-full max-w-sm mx-4 border border-[#FF7F00]/50 bg-black/90 p-4 flex flex-col gap-3 font-bold tech-panel">
+        <div className="flex items-center justify-between text-[#00FFFF] text-xs tracking-[0.2em]">
+          <span>ДЕТЕКТОР ОБЪЕКТОВ</span>
+          <button onClick={onClose} className="p-1 hover:bg-[#00FFFF] hover:text-black transition-all">
+            <X size={14} />
+          </button>
+        </div>
+
+        {active && (
+          <div className="text-[10px] text-white/60 tracking-widest">
+            АКТИВЕН: {DETECTORS.find(d => d.id === active.id)?.label || active.stage} · {active.classes.length} КЛАССОВ · ВХОД {active.inputSize ? `${active.inputSize}PX` : 'ЛЮБОЙ'}
+          </div>
+        )}
+
+        <label className="flex flex-col gap-1">
+          <span className="text-[10px] text-[#FF7F00] tracking-[0.2em]">МОДЕЛЬ</span>
+          <select value={id} onChange={(e) => setId(e.target.value as DetectorId)} onKeyDown={stopKeys} className={inputClass}>
+            {DETECTORS.map(d => <option key={d.id} value={d.id}>{d.label}</option>)}
+          </select>
+        </label>
+
+        {descriptor.needsUrl && (
+          <>
+            <label className="flex flex-col gap-1">
+              <span className="text-[10px] text-[#FF7F00] tracking-[0.2em]">URL МОДЕЛИ (MODEL.JSON)</span>
+              <input value={url} placeholder="/models/yolo/model.json" onChange={(e) => setUrl(e.target.value)} onKeyDown={stopKeys} className={`${inputClass} ${isValid ? '' : 'border-red-500'}`} />
+            </label>
+            <label className="flex flex-col gap-1">
+              <span className="text-[10px] text-[#FF7F00] tracking-[0.2em]">КЛАССЫ (ЧЕРЕЗ ЗАПЯТУЮ, ИНАЧЕ METADATA.YAML)</span>
+              <input value={classes} placeholder="person, drone, vehicle" onChange={(e) => setClasses(e.target.value)} onKeyDown={stopKeys} className={inputClass} />
+            </label>
+            <label className="flex flex-col gap-1">
+              <span className="text-[10px] text-[#FF7F00] tracking-[0.2em]">РАЗМЕР ВХОДА, PX (ИНАЧЕ ИЗ МОДЕЛИ)</span>
+              <input type="number" min="32" step="32" value={inputSize} onChange={(e) => setInputSize(e.target.value)} onKeyDown={stopKeys} className={inputClass} />
+            </label>
+          </>
+        )}
+
+        <div className="flex gap-2">
+          <label className="flex-1 flex flex-col gap-1">
+            <span className="text-[10px] text-[#FF7F00] tracking-[0.2em]">ГАЛЕРЕЯ RE-ID, ЦЕЛЕЙ</span>
+            <input type="number" min="0" value={gallerySize} onChange={(e) => setGallerySize(e.target.value)} onKeyDown={stopKeys} className={inputClass} />
+          </label>
+          <label className="flex-1 flex flex-col gap-1">
+            <span className="text-[10px] text-[#FF7F00] tracking-[0.2em]">ХРАНИТЬ, МИН</span>
+            <input type="number" min="1" value={galleryMinutes} onChange={(e) => setGalleryMinutes(e.target.value)} onKeyDown={stopKeys} className={inputClass} />
+          </label>
+        </div>
+
+        <button
+          onClick={submit}
+          disabled={!isValid}
+          className="flex items-center justify-center gap-2 border border-[#FF7F00] text-[#FF7F00] py-2 text-xs tracking-widest hover:bg-[#FF7F00] hover:text-black transition-all disabled:opacity-40 disabled:pointer-events-none"
+        >
+          <Save size={14} /> ЗАГРУЗИТЬ
+        </button>
+      </div>
+    </div>
+  );
+};
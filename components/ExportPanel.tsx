@@ -0,0 +1,89 @@
+import React, { useState, useEffect } from 'react';
+import { DetectionLog, buildExportZip } from '../utils/detectionExport';
+import { X, Download, Image, Trash2 } from 'lucide-react';
+
+interface ExportPanelProps {
+  log: DetectionLog;
+  onExported: (frames: number, images: number) => void;
+  onClose: () => void;
+}
+
+export const ExportPanel: React.FC<ExportPanelProps> = ({ log, onExported, onClose }) => {
+  const [withImages, setWithImages] = useState(true);
+  const [error, setError] = useState('');
+  // The log keeps filling while the panel is open
+  const [, setTick] = useState(0);
+  useEffect(() => {
+    const interval = setInterval(() => setTick(t => t + 1), 1000);
+    return () => clearInterval(interval);
+  }, [log]);
+
+  const download = () => {
+    const frames = log.getFrames();
+    if (frames.length === 0) return;
+    const name = `veraos-${new Date(frames[0].t).toISOString().slice(0, 19).replace(/[-:]/g, '').replace('T', '-')}`;
+    try {
+      const zip = buildExportZip(frames, withImages, name);
+      const url = URL.createObjectURL(new Blob([zip], { type: 'application/zip' }));
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${name}.zip`;
+      a.click();
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+      onExported(frames.length, withImages ? log.capturedCount : 0);
+    } catch (e: any) {
+      setError(`ОШИБКА ЭКСПОРТА: ${e?.message || e}`);
+    }
+  };
+
+  return (
+    <div
+      className="absolute inset-0 z-[150] flex items-center justify-center bg-black/60 backdrop-blur-sm pointer-events-auto"
+      onKeyDown={(e) => {
+        e.stopPropagation(); // Keep arrow keys from driving the zoom
+        if (e.key === 'Escape') onClose();
+      }}
+    >
+      <div className="w-full max-w-sm mx-4 border border-[#FF7F00]/50 bg-black/90 p-4 flex flex-col gap-3 font-bold tech-panel">
+        <div className="flex items-center justify-between text-[#00FFFF] text-xs tracking-[0.2em]">
+          <span>ЭКСПОРТ ДЕТЕКЦИЙ</span>
+          <button onClick={onClose} className="p-1 hover:bg-[#00FFFF] hover:text-black transition-all">
+            <X size={14} />
+          </button>
+        </div>
+
+        <div className="text-[10px] text-white/60 tracking-widest">
+          КАДРОВ: {log.frameCount} · {Math.round(log.span)} С · СНИМКОВ JPEG: {log.capturedCount}
+        </div>
+        <div className="text-[10px] text-white/40 tracking-widest">
+          MOTCHALLENGE (GT.TXT, SEQINFO.INI) + COCO JSON В ОДНОМ ZIP
+        </div>
+
+        <button
+          onClick={() => setWithImages(v => !v)}
+          className={`flex items-center justify-center gap-2 border py-2 text-xs tracking-widest transition-all ${withImages ? 'border-[#00FFFF] text-[#00FFFF]' : 'border-gray-600 text-gray-500'}`}
+        >
+          <Image size={14} /> {withImages ? 'С КАДРАМИ JPEG' : 'БЕЗ КАДРОВ'}
+        </button>
+
+        {error && <div className="text-[10px] text-red-500 tracking-widest">{error}</div>}
+
+        <div className="flex gap-2">
+          <button
+            onClick={download}
+            disabled={log.frameCount === 0}
+            className="flex-1 flex items-center justify-center gap-2 border border-[#FF7F00] text-[#FF7F00] py-2 text-xs tracking-widest hover:bg-[#FF7F00] hover:text-black transition-all disabled:opacity-30 disabled:pointer-events-none"
+          >
+            <Download size={14} /> СКАЧАТЬ ZIP
+          </button>
+          <button
+            onClick={() => { log.clear(); setTick(t => t + 1); }}
+            className="flex items-center justify-center gap-2 border border-red-500 text-red-500 px-3 py-2 text-xs tracking-widest hover:bg-red-500 hover:text-black transition-all"
+          >
+            <Trash2 size={14} />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,71 @@
+import React, { useState } from 'react';
+import { DynamicGesture, GestureAction } from '../types';
+import { DYNAMIC_GESTURES, GESTURE_ACTIONS, DEFAULT_GESTURE_BINDINGS } from '../utils/gestureBindings';
+import { X, RotateCcw, Save } from 'lucide-react';
+
+interface GestureBindingsPanelProps {
+  bindings: Record<DynamicGesture, GestureAction>;
+  onSave: (bindings: Record<DynamicGesture, GestureAction>) => void;
+  onClose: () => void;
+}
+
+const ACTION_LABELS: Record<GestureAction, string> = {
+  NONE: '—',
+  SWITCH_CAMERA: 'СМЕНА КАМЕРЫ',
+  TOGGLE_VIEW: 'СМЕНА РЕЖИМА',
+  RESET_ZOOM: 'СБРОС ЗУМА',
+  TOGGLE_LOGS: 'ЖУРНАЛ',
+  CYCLE_ANALYSIS: 'РЕЖИМ АНАЛИЗА',
+  SELECT_POINTED: 'ЗАХВАТ ПО УКАЗАНИЮ'
+};
+
+export const GestureBindingsPanel: React.FC<GestureBindingsPanelProps> = ({ bindings, onSave, onClose }) => {
+  const [draft, setDraft] = useState<Record<DynamicGesture, GestureAction>>(bindings);
+
+  return (
+    <div className="absolute inset-0 z-[150] flex items-center justify-center bg-black/60 backdrop-blur-sm pointer-events-auto">
+      <div className="w-full max-w-sm mx-4 border border-[#FF7F00]/50 bg-black/90 p-4 flex flex-col gap-3 font-bold tech-panel">
+        <div className="flex items-center justify-between text-[#00FFFF] text-xs tracking-[0.2em]">
+          <span>УПРАВЛЕНИЕ ЖЕСТАМИ</span>
+          <button onClick={onClose} className="p-1 hover:bg-[#00FFFF] hover:text-black transition-all">
+            <X size={14} />
+          </button>
+        </div>
+
+        <div className="flex flex-col gap-1">
+          {DYNAMIC_GESTURES.map(gesture => (
+            <label key={gesture} className="flex items-center gap-2 text-xs">
+              <span className={`flex-1 ${draft[gesture] !== 'NONE' ? 'text-white' : 'text-white/40'}`}>{gesture}</span>
+              <select
+                value={draft[gesture]}
+                onChange={(e) => setDraft(prev => ({ ...prev, [gesture]: e.target.value as GestureAction }))}
+                onKeyDown={(e) => {
+                  e.stopPropagation(); // Keep arrow keys from driving the zoom
+                  if (e.key === 'Escape') onClose();
+                }}
+                className="w-44 bg-black/70 border border-[#00FFFF]/30 focus:border-[#00FFFF] px-2 py-1 text-xs text-white outline-none"
+              >
+                {GESTURE_ACTIONS.map(action => <option key={action} value={action}>{ACTION_LABELS[action]}</option>)}
+              </select>
+            </label>
+          ))}
+        </div>
+
+        <div className="flex gap-2">
+          <button
+            onClick={() => onSave(draft)}
+            className="flex-1 flex items-center justify-center gap-2 border border-[#FF7F00] text-[#FF7F00] py-2 text-xs tracking-widest hover:bg-[#FF7F00] hover:text-black transition-all"
+          >
+            <Save size={14} /> СОХРАНИТЬ
+          </button>
+          <button
+            onClick={() => setDraft({ ...DEFAULT_GESTURE_BINDINGS })}
+            className="flex items-center justify-center gap-2 border border-gray-600 text-gray-400 px-3 py-2 text-xs tracking-widest hover:border-white hover:text-white transition-all"
+          >
+            <RotateCcw size={14} />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
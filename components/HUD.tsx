@@ -1,7 +1,8 @@
 
 import React, { useEffect, useState, useRef } from 'react';
-import { TrackedObject, TranscriptItem, LogEntry, SystemStatus, ConnectedUser } from '../types';
-import { Mic, Eye, Scan, Target, Volume2, Signal, Wifi, Activity } from 'lucide-react';
+import { TrackedObject, TranscriptItem, LogEntry, SystemStatus, ConnectedUser, LinkStats, TargetMark } from '../types';
+import { Mic, Eye, Scan, Target, Volume2, Signal, Wifi, Activity, Crosshair } from 'lucide-react';
+import { ChatInput } from './ChatInput';
 
 interface HUDProps {
   objects: TrackedObject[];
@@ -15,9 +16,18 @@ interface HUDProps {
   audioAnalyser: AnalyserNode | null; // Mic Input
   aiAudioAnalyser: AnalyserNode | null; // AI Output
   networkUsers: ConnectedUser[];
+  marks: TargetMark[]; // Squad target designations
+  linkStats: LinkStats | null; // Relay traffic, null when offline
   userId: string;
+  userName: string; // Operator display name, shown in the header
+  room: string | null; // Squad room, null while the link is switched off
   situationSummary: string;
   showLogs: boolean;
+  onSendChat: (text: string, to: string | null) => void;
+  squadVoiceRelay: boolean;
+  onToggleSquadVoiceRelay: () => void;
+  readChatAloud: boolean;
+  onToggleReadChatAloud: () => void;
 }
 
 export const HUD: React.FC<HUDProps> = ({
@@ -32,9 +42,18 @@ export const HUD: React.FC<HUDProps> = ({
   audioAnalyser,
   aiAudioAnalyser,
   networkUsers,
+  marks,
+  linkStats,
   userId,
+  userName,
+  room,
   situationSummary,
-  showLogs
+  showLogs,
+  onSendChat,
+  squadVoiceRelay,
+  onToggleSquadVoiceRelay,
+  readChatAloud,
+  onToggleReadChatAloud
 }) => {
   const [time, setTime] = useState(new Date());
   const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -138,6 +157,8 @@ export const HUD: React.FC<HUDProps> = ({
   const analyzedTargets = localTargets.filter(o => o.isAnalyzed);
   
   const isLidarActive = localTargets.some(o => o.depthSource === 'LIDAR_FUSION');
+  const isDepthModelActive = localTargets.some(o => o.depthSource === 'DEPTH_MODEL');
+  const sensorLabel = isLidarActive ? "OPT+LIDAR" : isDepthModelActive ? "OPT+DEPTH" : "OPTICAL";
 
   return (
     <div className="absolute inset-0 pointer-events-none z-20 select-none overflow-hidden font-sans">
@@ -145,7 +166,8 @@ export const HUD: React.FC<HUDProps> = ({
       <div className="absolute top-4 left-4 flex flex-col items-start gap-2 max-w-[50%]">
           <div className="flex flex-col gap-0.5">
             <div className="flex items-center gap-2">
-                <span className="font-bold text-lg text-[#FF7F00] truncate tracking-tighter filter drop-shadow-[0_0_2px_#FF7F00]">{userId}</span>
+                <span className="font-bold text-lg text-[#FF7F00] truncate tracking-tighter filter drop-shadow-[0_0_2px_#FF7F00]">{userName}</span>
+                {room && <span className="text-[9px] font-mono text-[#FF7F00]/70 tracking-wider truncate">#{room}</span>}
                 <div className={`w-2 h-2 rounded-full min-w-[8px] ${status === 'ОШИБКА' ? 'bg-red-500 animate-pulse' : 'bg-[#00FFFF] shadow-[0_0_8px_#00FFFF]'}`}></div>
             </div>
             {/* Network Signal Indicator */}
@@ -160,12 +182,19 @@ export const HUD: React.FC<HUDProps> = ({
                      {navigator.connection ? `${navigator.connection.downlink}MBPS` : 'NET'}
                  </span>
             </div>
+            {/* Relay Bandwidth */}
+            {linkStats && (
+                <div className="text-[9px] font-mono text-[#00FFFF]/70 pl-0.5 tracking-wider">
+                    TX {(linkStats.txBytesPerSec / 1024).toFixed(1)}KB/S RX {(linkStats.rxBytesPerSec / 1024).toFixed(1)}KB/S
+                    <span className={linkStats.codec === 'binary' ? 'text-[#FF7F00] ml-1' : 'text-gray-500 ml-1'}>{linkStats.codec === 'binary' ? 'BIN' : 'JSON'}</span>
+                </div>
+            )}
           </div>
 
           <div className="text-[10px] text-white/60 font-bold tracking-[0.2em]">{status}</div>
           <div className="flex items-center gap-2 text-[10px] tracking-widest mt-1">
-               <span className={isLidarActive ? "text-[#00FFFF]" : "text-gray-500"}>SENSOR: {isLidarActive ? "OPT+LIDAR" : "OPTICAL"}</span>
-               {isLidarActive && <Scan size={10} className="text-[#00FFFF] animate-pulse" />}
+               <span className={isLidarActive || isDepthModelActive ? "text-[#00FFFF]" : "text-gray-500"}>SENSOR: {sensorLabel}</span>
+               {(isLidarActive || isDepthModelActive) && <Scan size={10} className="text-[#00FFFF] animate-pulse" />}
           </div>
       </div>
 
@@ -188,13 +217,20 @@ export const HUD: React.FC<HUDProps> = ({
                 <div className="flex items-center gap-2 text-[#FF7F00] text-[10px] font-bold tracking-[0.2em] mb-1 opacity-80">
                     <Wifi size={10} /> NEURAL LINK
                 </div>
-                {networkUsers.map(user => (
+                {networkUsers.map(user => {
+                    const userMark = marks.find(m => m.designatorId === user.id);
+                    return (
                     <div key={user.id} className="group flex items-center gap-3 bg-black/60 backdrop-blur-md border-r-2 pl-4 pr-2 py-2 transition-all hover:bg-black/80 shadow-[0_0_10px_rgba(0,0,0,0.5)]" style={{ borderColor: user.color }}>
                          <div className="flex flex-col items-end">
                              <span className="text-xs font-bold text-white leading-none tracking-wider group-hover:text-[#00FFFF] transition-colors">{user.name}</span>
+                             {userMark && (
+                                 <span className="flex items-center gap-1 text-[9px] font-bold tracking-widest mt-1" style={{ color: user.color }}>
+                                     <Crosshair size={8} /> {userMark.class.toUpperCase()}
+                                 </span>
+                             )}
                              <div className="flex items-center gap-1 mt-1">
                                 <Activity size={8} className="text-gray-500" />
-                                <span className="text-[9px] text-gray-400 leading-none font-mono">{Math.floor(Math.random() * 40 + 15)}ms</span>
+                                <span className="text-[9px] text-gray-400 leading-none font-mono">{user.latency !== undefined ? `${user.latency}ms` : '--'}</span>
                              </div>
                          </div>
                          <div className="relative">
@@ -202,7 +238,22 @@ export const HUD: React.FC<HUDProps> = ({
                             {user.status === 'online' && <div className="absolute inset-0 bg-green-500 rounded-full animate-ping opacity-50"></div>}
                          </div>
                     </div>
-                ))}
+                    );
+                })}
+                {/* Squad Designations */}
+                {marks.length > 0 && (
+                    <div className="flex flex-col gap-1 items-end mt-2">
+                        <div className="text-[10px] text-[#FF7F00] font-bold tracking-[0.2em] flex items-center gap-2 opacity-80">
+                            <Crosshair size={10} /> ЦЕЛЕУКАЗАНИЕ
+                        </div>
+                        {marks.map(mark => (
+                            <div key={mark.key} className="text-[10px] font-bold tracking-wider bg-black/60 px-2 py-1 border-r-2" style={{ borderColor: mark.color, color: mark.color }}>
+                                {mark.designatorName} → {mark.class.toUpperCase()}
+                                <span className="text-gray-400 ml-1">[{mark.ownerId === userId ? 'ЛОКАЛЬНО' : (networkUsers.find(u => u.id === mark.ownerId)?.name || mark.ownerId)}]</span>
+                            </div>
+                        ))}
+                    </div>
+                )}
           </div>
       )}
 
@@ -233,17 +284,29 @@ export const HUD: React.FC<HUDProps> = ({
       {showLogs && (
         <div className="absolute bottom-4 left-4 right-4 md:right-auto md:w-[600px] flex flex-col justify-end pointer-events-none">
             <div className="flex flex-col gap-2 overflow-y-auto max-h-[30vh] md:max-h-[400px] pr-2 scroll-smooth pb-4 mask-fade-top" ref={chatEndRef}>
-                {history.map(item => (
+                {history.map(item => {
+                    const isSquadIncoming = !!item.user;
+                    const isSquadOutgoing = !!item.channel && !item.user;
+                    return (
                     <div 
                         key={item.id} 
                         className={`relative animate-fadeIn max-w-[100%] md:max-w-[90%] font-bold text-base md:text-lg leading-tight tracking-tight break-words
-                        ${item.isAi ? 'self-start text-[#FF7F00] text-left' : 'self-end text-[#00FFFF] text-right'}`}
-                        style={{ textShadow: '2px 2px 0px #000' }}
+                        ${item.isAi || isSquadIncoming ? 'self-start text-[#FF7F00] text-left' : 'self-end text-[#00FFFF] text-right'}`}
+                        style={{ textShadow: '2px 2px 0px #000', color: isSquadIncoming ? item.color : undefined }}
                     >
                          {item.isAi && <span className="text-[10px] text-gray-500 block mb-0.5">AI AGENT</span>}
+                         {isSquadIncoming && (
+                             <span className="text-[10px] block mb-0.5 tracking-widest">
+                                 {item.user}{item.channel === 'direct' && <span className="text-gray-400"> • ЛИЧНО</span>}
+                             </span>
+                         )}
+                         {isSquadOutgoing && (
+                             <span className="text-[10px] text-gray-500 block mb-0.5 tracking-widest">→ {item.recipient || 'ВСЕМ'}</span>
+                         )}
                          {item.text}
                     </div>
-                ))}
+                    );
+                })}
                 
                 {/* Live Transcript - User */}
                 {transcript && (
@@ -272,6 +335,14 @@ export const HUD: React.FC<HUDProps> = ({
                          <canvas ref={canvasRef} width={100} height={24} className="relative z-10 w-full h-full opacity-80 mix-blend-screen" />
                     </div>
                 </div>
+                <ChatInput
+                    users={networkUsers}
+                    onSend={onSendChat}
+                    voiceRelay={squadVoiceRelay}
+                    onToggleVoiceRelay={onToggleSquadVoiceRelay}
+                    readAloud={readChatAloud}
+                    onToggleReadAloud={onToggleReadChatAloud}
+                />
             </div>
         </div>
       )}
@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import { NetworkSettings } from '../types';
+import { X, Power, Save, Lock, KeyRound } from 'lucide-react';
+
+interface NetworkSettingsPanelProps {
+  settings: NetworkSettings;
+  userId: string; // Shown as the placeholder for an empty display name
+  onSave: (settings: NetworkSettings) => void;
+  onClose: () => void;
+}
+
+export const NetworkSettingsPanel: React.FC<NetworkSettingsPanelProps> = ({ settings, userId, onSave, onClose }) => {
+  const [draft, setDraft] = useState<NetworkSettings>(settings);
+
+  const update = <K extends keyof NetworkSettings>(key: K, value: NetworkSettings[K]) =>
+    setDraft(prev => ({ ...prev, [key]: value }));
+
+  const isValidUrl = /^wss?:\/\/\S+$/.test(draft.relayUrl.trim());
+
+  const submit = () => {
+    if (!isValidUrl) return;
+    onSave({
+      ...draft,
+      relayUrl: draft.relayUrl.trim(),
+      displayName: draft.displayName.trim(),
+      room: draft.room.trim() || 'default'
+    });
+  };
+
+  const field = (label: string, key: 'relayUrl' | 'displayName' | 'room' | 'squadKey' | 'token', options: { placeholder?: string; secret?: boolean; invalid?: boolean } = {}) => (
+    <label className="flex flex-col gap-1">
+      <span className="text-[10px] text-[#FF7F00] tracking-[0.2em] flex items-center gap-1">
+        {options.secret && <Lock size={10} />} {label}
+      </span>
+      <input
+        type={options.secret ? 'password' : 'text'}
+        value={draft[key]}
+        placeholder={options.placeholder}
+        onChange={(e) => update(key, e.target.value)}
+        onKeyDown={(e) => {
+          e.stopPropagation(); // Keep arrow keys from driving the zoom
+          if (e.key === 'Enter') submit();
+          if (e.key === 'Escape') onClose();
+        }}
+        className={`bg-black/70 border px-2 py-1 text-sm text-white outline-none placeholder:text-white/30 ${options.invalid ? 'border-red-500' : 'border-[#00FFFF]/30 focus:border-[#00FFFF]'}`}
+      />
+    </label>
+  );
+
+  return (
+    <div className="absolute inset-0 z-[150] flex items-center justify-center bg-black/60 backdrop-blur-sm pointer-events-auto">
+      <div className="w-full max-w-sm mx-4 border border-[#FF7F00]/50 bg-black/90 p-4 flex flex-col gap-3 font-bold tech-panel">
+        <div className="flex items-center justify-between text-[#00FFFF] text-xs tracking-[0.2em]">
+          <span>НАСТРОЙКИ СЕТИ</span>
+          <button onClick={onClose} className="p-1 hover:bg-[#00FFFF] hover:text-black transition-all">
+            <X size={14} />
+          </button>
+        </div>
+
+        {field('РЕТРАНСЛЯТОР', 'relayUrl', { placeholder: 'ws://host:8080', invalid: !isValidUrl })}
+        {field('ПОЗЫВНОЙ', 'displayName', { placeholder: userId })}
+        {field('ОТРЯД / КОМНАТА', 'room', { placeholder: 'default' })}
+        {field('КЛЮЧ ОТРЯДА', 'squadKey', { placeholder: 'БЕЗ ШИФРОВАНИЯ', secret: true })}
+        {field('ТОКЕН ДОСТУПА', 'token', { secret: true })}
+
+        <button
+          onClick={() => update('rememberSecrets', !draft.rememberSecrets)}
+          className={`flex items-center justify-center gap-2 border py-2 text-xs tracking-widest transition-all ${draft.rememberSecrets ? 'border-[#00FFFF] text-[#00FFFF]' : 'border-gray-600 text-gray-500'}`}
+        >
+          <KeyRound size={14} /> {draft.rememberSecrets ? 'КЛЮЧИ ДО ЗАКРЫТИЯ ВКЛАДКИ' : 'КЛЮЧИ НЕ СОХРАНЯЮТСЯ'}
+        </button>
+
+        <button
+          onClick={() => update('enabled', !draft.enabled)}
+          className={`flex items-center justify-center gap-2 border py-2 text-xs tracking-widest transition-all ${draft.enabled ? 'border-[#00FFFF] text-[#00FFFF]' : 'border-gray-600 text-gray-500'}`}
+        >
+          <Power size={14} /> {draft.enabled ? 'СВЯЗЬ ВКЛЮЧЕНА' : 'СВЯЗЬ ОТКЛЮЧЕНА'}
+        </button>
+
+        <button
+          onClick={submit}
+          disabled={!isValidUrl}
+          className="flex items-center justify-center gap-2 border border-[#FF7F00] text-[#FF7F00] py-2 text-xs tracking-widest hover:bg-[#FF7F00] hover:text-black transition-all disabled:opacity-40 disabled:pointer-events-none"
+        >
+          <Save size={14} /> ПРИМЕНИТЬ
+        </button>
+      </div>
+    </div>
+  );
+};
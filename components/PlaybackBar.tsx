@@ -0,0 +1,73 @@
+import React, { useState, useEffect } from 'react';
+import { PlaybackControl } from '../utils/videoSources';
+import { TimelineMarker } from '../utils/sessionReplay';
+import { Play, Pause, X } from 'lucide-react';
+
+interface PlaybackBarProps {
+  playback: PlaybackControl;
+  label: string;
+  markers?: (TimelineMarker & { time: number })[]; // time: seconds into the playback
+  onClose: () => void; // Back to the live camera
+}
+
+const MARKER_COLORS: Record<TimelineMarker['kind'], string> = {
+  tool: 'bg-[#00FFFF]',
+  action: 'bg-[#FF7F00]'
+};
+
+const formatTime = (seconds: number) => {
+  if (!isFinite(seconds)) return '--:--';
+  const s = Math.floor(seconds);
+  return `${String(Math.floor(s / 60)).padStart(2, '0')}:${String(s % 60).padStart(2, '0')}`;
+};
+
+export const PlaybackBar: React.FC<PlaybackBarProps> = ({ playback, label, markers = [], onClose }) => {
+  // The source owns the clock; poll it rather than mirror it
+  const [, setTick] = useState(0);
+  useEffect(() => {
+    const interval = setInterval(() => setTick(t => t + 1), 250);
+    return () => clearInterval(interval);
+  }, [playback]);
+
+  const toggle = () => (playback.paused ? playback.play() : playback.pause());
+
+  return (
+    <div
+      className="absolute bottom-28 left-1/2 -translate-x-1/2 z-[60] w-full max-w-lg px-4 pointer-events-auto"
+      onKeyDown={(e) => e.stopPropagation()} // Keep arrow keys from driving the zoom
+    >
+      <div className="flex items-center gap-3 border border-[#FF7F00]/50 bg-black/80 px-3 py-2 font-bold tech-panel">
+        <button onClick={toggle} className="p-1 text-[#FF7F00] hover:bg-[#FF7F00] hover:text-black transition-all">
+          {playback.paused ? <Play size={14} /> : <Pause size={14} />}
+        </button>
+        <div className="relative flex-1 flex items-center">
+          <input
+            type="range"
+            min={0}
+            max={playback.duration || 0}
+            step={0.04}
+            value={playback.currentTime}
+            onChange={(e) => playback.seek(parseFloat(e.target.value))}
+            className="w-full accent-[#FF7F00]"
+          />
+          {playback.duration > 0 && markers.map((m, i) => (
+            <button
+              key={i}
+              title={m.label}
+              onClick={() => playback.seek(m.time)}
+              className={`absolute -top-2 w-[3px] h-2 ${MARKER_COLORS[m.kind]} hover:h-3 transition-all`}
+              style={{ left: `${Math.min(100, (m.time / playback.duration) * 100)}%` }}
+            />
+          ))}
+        </div>
+        <span className="text-[10px] text-white/70 tracking-widest whitespace-nowrap">
+          {formatTime(playback.currentTime)} / {formatTime(playback.duration)}
+        </span>
+        <span className="text-[10px] text-[#00FFFF] tracking-widest truncate max-w-[8rem]" title={label}>{label}</span>
+        <button onClick={onClose} className="p-1 text-[#00FFFF] hover:bg-[#00FFFF] hover:text-black transition-all">
+          <X size={14} />
+        </button>
+      </div>
+    </div>
+  );
+};
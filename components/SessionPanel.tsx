@@ -0,0 +1,107 @@
+import React, { useState, useEffect } from 'react';
+import { SessionMeta } from '../types';
+import { listSessions, deleteSession } from '../utils/sessionStore';
+import { X, Disc, Square, Play, Trash2 } from 'lucide-react';
+
+interface SessionPanelProps {
+  isRecording: boolean;
+  onStartRecording: () => void;
+  onStopRecording: () => Promise<void>;
+  onReplay: (id: string) => void;
+  onClose: () => void;
+}
+
+const formatDuration = (ms: number) => {
+  const s = Math.round(ms / 1000);
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, '0')}`;
+};
+
+export const SessionPanel: React.FC<SessionPanelProps> = ({ isRecording, onStartRecording, onStopRecording, onReplay, onClose }) => {
+  const [sessions, setSessions] = useState<SessionMeta[] | null>(null);
+  const [error, setError] = useState('');
+  const [confirmDelete, setConfirmDelete] = useState<string | null>(null);
+
+  const refresh = () => {
+    listSessions()
+      .then(setSessions)
+      .catch(e => setError(`ХРАНИЛИЩЕ НЕДОСТУПНО: ${e?.message || e}`));
+  };
+
+  useEffect(refresh, []);
+
+  const toggleRecording = async () => {
+    if (isRecording) {
+      await onStopRecording();
+      refresh();
+    } else {
+      onStartRecording();
+    }
+  };
+
+  const remove = async (id: string) => {
+    if (confirmDelete !== id) {
+      setConfirmDelete(id); // Second press deletes
+      return;
+    }
+    setConfirmDelete(null);
+    await deleteSession(id).catch(e => setError(`ОШИБКА УДАЛЕНИЯ: ${e?.message || e}`));
+    refresh();
+  };
+
+  return (
+    <div
+      className="absolute inset-0 z-[150] flex items-center justify-center bg-black/60 backdrop-blur-sm pointer-events-auto"
+      onKeyDown={(e) => {
+        e.stopPropagation(); // Keep arrow keys from driving the zoom
+        if (e.key === 'Escape') onClose();
+      }}
+    >
+      <div className="w-full max-w-md mx-4 border border-[#FF7F00]/50 bg-black/90 p-4 flex flex-col gap-3 font-bold tech-panel">
+        <div className="flex items-center justify-between text-[#00FFFF] text-xs tracking-[0.2em]">
+          <span>ЗАПИСЬ СЕССИЙ</span>
+          <button onClick={onClose} className="p-1 hover:bg-[#00FFFF] hover:text-black transition-all">
+            <X size={14} />
+          </button>
+        </div>
+
+        <button
+          onClick={toggleRecording}
+          className={`flex items-center justify-center gap-2 border py-2 text-xs tracking-widest transition-all ${isRecording ? 'border-red-500 text-red-500 hover:bg-red-500 hover:text-black' : 'border-[#FF7F00] text-[#FF7F00] hover:bg-[#FF7F00] hover:text-black'}`}
+        >
+          {isRecording ? <><Square size={14} /> ОСТАНОВИТЬ ЗАПИСЬ</> : <><Disc size={14} /> НАЧАТЬ ЗАПИСЬ</>}
+        </button>
+
+        {error && <div className="text-[10px] text-red-500 tracking-widest">{error}</div>}
+
+        <span className="text-[10px] text-[#FF7F00] tracking-[0.2em]">СОХРАНЕННЫЕ СЕССИИ</span>
+        <div className="flex flex-col gap-1 max-h-72 overflow-y-auto">
+          {sessions === null && <div className="text-[10px] text-white/40 tracking-widest">ЗАГРУЗКА...</div>}
+          {sessions?.length === 0 && <div className="text-[10px] text-white/40 tracking-widest">НЕТ ЗАПИСЕЙ</div>}
+          {sessions?.map(s => (
+            <div key={s.id} className="flex items-center gap-2 border border-[#00FFFF]/20 px-2 py-1">
+              <div className="flex-1 min-w-0">
+                <div className="text-xs text-white truncate">{s.name}</div>
+                <div className="text-[10px] text-white/50 tracking-widest">
+                  {formatDuration(s.duration)} · {s.eventCount} СОБЫТИЙ{s.videoOffset === null ? ' · БЕЗ ВИДЕО' : ''}
+                </div>
+              </div>
+              <button
+                onClick={() => onReplay(s.id)}
+                disabled={s.videoOffset === null || isRecording}
+                className="p-1 text-[#00FFFF] hover:bg-[#00FFFF] hover:text-black transition-all disabled:opacity-30 disabled:pointer-events-none"
+              >
+                <Play size={14} />
+              </button>
+              <button
+                onClick={() => remove(s.id)}
+                className={`p-1 transition-all hover:bg-red-500 hover:text-black ${confirmDelete === s.id ? 'bg-red-500 text-black' : 'text-red-500'}`}
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { VideoSourceKind, VideoSourceSpec } from '../types';
+import { orderFrames } from '../utils/videoSources';
+import { X, Play } from 'lucide-react';
+
+interface VideoSourcePanelProps {
+  current: VideoSourceKind;
+  onSelect: (spec: VideoSourceSpec) => void;
+  onClose: () => void;
+}
+
+const SOURCES: { kind: VideoSourceKind; label: string }[] = [
+  { kind: 'camera', label: 'КАМЕРА' },
+  { kind: 'file', label: 'ВИДЕОФАЙЛ' },
+  { kind: 'screen', label: 'ЭКРАН / ВКЛАДКА' },
+  { kind: 'frames', label: 'ПАПКА КАДРОВ' }
+];
+
+export const VideoSourcePanel: React.FC<VideoSourcePanelProps> = ({ current, onSelect, onClose }) => {
+  const [kind, setKind] = useState<VideoSourceKind>(current);
+  const [file, setFile] = useState<File | null>(null);
+  const [frames, setFrames] = useState<File[]>([]);
+  const [fps, setFps] = useState('10');
+
+  const frameRate = parseFloat(fps);
+  const isValid = kind === 'file' ? !!file
+    : kind === 'frames' ? frames.length > 0 && frameRate > 0
+    : true;
+
+  const submit = () => {
+    if (!isValid) return;
+    if (kind === 'file') onSelect({ kind, file: file! });
+    else if (kind === 'frames') onSelect({ kind, files: frames, fps: frameRate });
+    else onSelect({ kind });
+  };
+
+  const stopKeys = (e: React.KeyboardEvent) => {
+    e.stopPropagation(); // Keep arrow keys from driving the zoom
+    if (e.key === 'Enter') submit();
+    if (e.key === 'Escape') onClose();
+  };
+
+  const inputClass = 'bg-black/70 border border-[#00FFFF]/30 focus:border-[#00FFFF] px-2 py-1 text-sm text-white outline-none placeholder:text-white/30';
+
+  return (
+    <div className="absolute inset-0 z-[150] flex items-center justify-center bg-black/60 backdrop-blur-sm pointer-events-auto">
+      <div className="w-full max-w-sm mx-4 border border-[#FF7F00]/50 bg-black/90 p-4 flex flex-col gap-3 font-bold tech-panel">
+        <div className="flex items-center justify-between text-[#00FFFF] text-xs tracking-[0.2em]">
+          <span>ИСТОЧНИК ВИДЕО</span>
+          <button onClick={onClose} className="p-1 hover:bg-[#00FFFF] hover:text-black transition-all">
+            <X size={14} />
+          </button>
+        </div>
+
+        <label className="flex flex-col gap-1">
+          <span className="text-[10px] text-[#FF7F00] tracking-[0.2em]">ИСТОЧНИК</span>
+          <select value={kind} onChange={(e) => setKind(e.target.value as VideoSourceKind)} onKeyDown={stopKeys} className={inputClass}>
+            {SOURCES.map(s => <option key={s.kind} value={s.kind}>{s.label}</option>)}
+          </select>
+        </label>
+
+        {kind === 'file' && (
+          <label className="flex flex-col gap-1">
+            <span className="text-[10px] text-[#FF7F00] tracking-[0.2em]">ФАЙЛ (MP4, WEBM)</span>
+            <input type="file" accept="video/*" onChange={(e) => setFile(e.target.files?.[0] || null)} className={inputClass} />
+          </label>
+        )}
+
+        {kind === 'frames' && (
+          <>
+            <label className="flex flex-col gap-1">
+              <span className="text-[10px] text-[#FF7F00] tracking-[0.2em]">ПАПКА С ИЗОБРАЖЕНИЯМИ</span>
+              <input type="file" multiple webkitdirectory="" onChange={(e) => setFrames(orderFrames(Array.from(e.target.files || [])))} className={inputClass} />
+            </label>
+            {frames.length > 0 && (
+              <div className="text-[10px] text-white/60 tracking-widest">
+                {frames.length} КАДРОВ · {frames[0].name} … {frames[frames.length - 1].name}
+              </div>
+            )}
+            <label className="flex flex-col gap-1">
+              <span className="text-[10px] text-[#FF7F00] tracking-[0.2em]">КАДРОВ В СЕКУНДУ</span>
+              <input type="number" min="1" max="60" value={fps} onChange={(e) => setFps(e.target.value)} onKeyDown={stopKeys} className={`${inputClass} ${frameRate > 0 ? '' : 'border-red-500'}`} />
+            </label>
+          </>
+        )}
+
+        {kind === 'screen' && (
+          <div className="text-[10px] text-white/60 tracking-widest">БРАУЗЕР ЗАПРОСИТ ЭКРАН, ОКНО ИЛИ ВКЛАДКУ</div>
+        )}
+
+        <button
+          onClick={submit}
+          disabled={!isValid}
+          className="flex items-center justify-center gap-2 border border-[#FF7F00] text-[#FF7F00] py-2 text-xs tracking-widest hover:bg-[#FF7F00] hover:text-black transition-all disabled:opacity-40 disabled:pointer-events-none"
+        >
+          <Play size={14} /> ПОДКЛЮЧИТЬ
+        </button>
+      </div>
+    </div>
+  );
+};
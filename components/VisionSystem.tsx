@@ -1,50 +1,92 @@
 
 import React, { useRef, useEffect, useState, useCallback } from 'react';
 import * as THREE from 'three';
-import { TrackedObject, Vector3, ZoomState, AiAnnotation, AnalysisMode } from '../types';
+import { TrackedObject, Vector3, ZoomState, AiAnnotation, AnalysisMode, UnitPose, Keypoint, Posture, DynamicGesture, DetectorConfig, DetectorInfo, VideoSourceKind, VideoSourceSpec, GeoZone } from '../types';
 import { videoWorkerScript } from '../utils/workerScript';
+import { PoseService, toLocalFrame } from '../utils/PoseService';
+import { Box } from '../utils/MultiObjectTracker';
+import { TrackingPipeline, TrackerState } from '../utils/trackingPipeline';
+import { GalleryConfig } from '../utils/ReIdGallery';
+import { Viewport, videoToScreen, videoPointToWorld } from '../utils/projection';
+import { SKELETON_EDGES, DEFAULT_POSTURE_CONFIG } from '../utils/bodyPose';
+import { DwellSelector, Ray, pointingRay, pickTarget } from '../utils/pointing';
+import { AssetId } from '../utils/assets';
+import { VideoSource, createVideoSource } from '../utils/videoSources';
+import { SessionRecorder } from '../utils/sessionRecorder';
+import { SessionReplay, sessionTimeAt, sessionTimeOf } from '../utils/sessionReplay';
+import { zoneSegments } from '../utils/geofence';
 import { Cpu, Activity } from 'lucide-react';
 
 interface VisionSystemProps {
   isActive: boolean;
   zoomState: ZoomState;
   activeDeviceId: string;
+  source: VideoSourceSpec; // Camera (activeDeviceId), video file, screen capture or image sequence
+  recorder?: SessionRecorder | null; // Gets the displayed video and every prediction batch the tracker takes
+  replay?: SessionReplay | null; // Track recorded predictions instead of the worker's, clocked by the recorded video (source)
   localObjects: TrackedObject[];
   remoteObjects: TrackedObject[];
+  remotePoses: Record<string, UnitPose>; // Latest pose per unit, to bring its objects into our frame
+  poseService: PoseService;
+  focalLength: number; // Active camera, fraction of frame height (see objectGeometry)
+  assets: Record<AssetId, string> | null; // Runtime and weight URLs; the worker starts once the boot check resolves them
+  detector: DetectorConfig; // Swapped in the worker when it changes
+  reIdGallery?: Partial<GalleryConfig>; // Size and expiry of the re-identification gallery
+  depthModelUrl?: string; // Run this depth model in the worker; unset = box-height depth only
+  showDepthMap: boolean;
   aiAnnotations: AiAnnotation[];
+  zones?: GeoZone[]; // Active camera's zones and tripwires, drawn over the view
+  activeZoneIds?: string[]; // Occupied or just alerted: drawn red
   sceneDescription: string;
   analysisMode: AnalysisMode;
   onUpdateLocalObjects: (objects: TrackedObject[]) => void;
   onSceneChange: (summary: string) => void;
   onFrameCapture?: (base64: string, quality: number) => void;
   onDeepAnalysis?: (object: TrackedObject) => void;
+  onReacquire?: (id: number, cls: string) => void; // A returning object got its old id back
+  onPersonDown?: (id: string | number) => void; // A tracked person went from upright to lying
+  onDynamicGesture?: (gesture: DynamicGesture, pointedId?: string | number) => void; // pointedId: what the index finger aims at
+  onPointSelect?: (id: string | number) => void; // A pointing hand dwelt on this target
   onCameraReady?: (capabilities: MediaTrackCapabilities) => void;
+  onSourceReady?: (source: VideoSource) => void; // Playing; recorded sources expose playback controls
+  onSourceEnded?: () => void; // The source stopped (sharing ended) or failed to start
+  onFrameSize?: (width: number, height: number) => void;
+  onDetectorReady?: (info: DetectorInfo) => void;
   onError: (error: string) => void;
 }
 
-interface PhysicsState {
-    current: Vector3;
-    target: Vector3;
-    velocity: Vector3;
-    scale: number;
+// Remote reports arrive at telemetry rate: extrapolate briefly between them, then fade stale ones out
+const REMOTE_EXTRAPOLATE_MS = 600;
+const REMOTE_FRESH_MS = 1000;
+const REMOTE_FADE_MS = 2000;
+const REMOTE_COLOR = 0xFF7F00;
+const ZONE_DEPTH = -5; // Any plane works: zones are drawn in video coordinates
+
+interface RemoteTrackerState {
+  key: string;
+  object: TrackedObject; // Latest report, lastSeen already on the local clock
+  velocity: Vector3; // m/s, estimated from consecutive reports
+  lastLabelUpdate?: string;
+}
+
+interface EdgeArrow {
+  dx: number; // Screen-space direction from the center, y down
+  dy: number;
+  color: string;
+  label: string;
+}
+
+interface PointerOverlay {
+  ray: Ray;
+  hit: { id: string | number; distance: number } | null;
+  progress: number; // Dwell, 0..1
+  box?: [number, number, number, number]; // Target box, video pixels
 }
 
-interface TrackerState {
-  id: string | number;
-  class: string;
-  isRemote: boolean;
-  color: number;
-  lastSeenTime: number;
-  consecutiveMisses: number;
-  opacity: number;
-  lockedBox: [number, number, number, number];
-  physics: PhysicsState;
-  scanProgress: number;
-  hasLidarScan: boolean;
-  gesture?: string;
-  rotationOffset: number;
-  lastLabelUpdate?: string; 
-  displayDist: number; // Smoothed distance for display
+interface DepthMap {
+    width: number;
+    height: number;
+    data: Float32Array; // Relative inverse depth, row-major
 }
 
 interface LoadingState {
@@ -53,17 +95,17 @@ interface LoadingState {
     stage: string;
 }
 
-const getRealWorldHeight = (cls: string): number => {
-    const map: Record<string, number> = {
-        person: 1.70, cup: 0.15, bottle: 0.25, wine_glass: 0.20, bowl: 0.15,
-        chair: 1.0, couch: 0.9, potted_plant: 0.5, tv: 0.7, laptop: 0.3,
-        mouse: 0.05, remote: 0.15, keyboard: 0.05, cell_phone: 0.15, book: 0.25,
-        vase: 0.3, hand: 0.20
-    };
-    return map[cls.toLowerCase()] || 0.5;
+// Device capability detection
+// Replay feed period; the video keeps its own pace, this only bounds how late predictions land
+const REPLAY_TICK_MS = 50;
+
+const SOURCE_ERRORS: Record<VideoSourceKind, string> = {
+    camera: 'ОШИБКА КАМЕРЫ',
+    file: 'ОШИБКА ВИДЕОФАЙЛА',
+    screen: 'ОШИБКА ЗАХВАТА ЭКРАНА',
+    frames: 'ОШИБКА ПОСЛЕДОВАТЕЛЬНОСТИ КАДРОВ'
 };
 
-// Device capability detection
 const isMobileDevice = () => {
     return /Android|webOS|iPhone|iPad|iPod|BlackBerry|IEMobile|Opera Mini/i.test(navigator.userAgent);
 };
@@ -72,37 +114,67 @@ export const VisionSystem: React.FC<VisionSystemProps> = ({
   isActive,
   zoomState,
   activeDeviceId,
+  source,
+  recorder,
+  replay,
   localObjects,
   remoteObjects,
+  remotePoses,
+  poseService,
+  focalLength,
+  assets,
+  detector,
+  reIdGallery,
+  depthModelUrl,
+  showDepthMap,
   aiAnnotations,
+  zones,
+  activeZoneIds,
   sceneDescription,
   analysisMode,
   onUpdateLocalObjects,
   onSceneChange,
   onFrameCapture,
   onDeepAnalysis,
+  onReacquire,
+  onPersonDown,
+  onDynamicGesture,
+  onPointSelect,
   onCameraReady,
+  onSourceReady,
+  onSourceEnded,
+  onFrameSize,
+  onDetectorReady,
   onError
 }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
+  const edgeCanvasRef = useRef<HTMLCanvasElement>(null);
+  const depthCanvasRef = useRef<HTMLCanvasElement>(null);
+  const pipelineRef = useRef(new TrackingPipeline(reIdGallery));
+  const dwellRef = useRef(new DwellSelector());
+  const depthModelRef = useRef<{ url: string | null; ready: boolean }>({ url: null, ready: false });
+  const workerLoadedRef = useRef(false);
+  const detectorKeyRef = useRef(JSON.stringify(detector)); // Config the worker has (or is loading)
+  const detectorInputRef = useRef<number | null>(null); // Square input of a fixed-size detector
   const rendererRef = useRef<THREE.WebGLRenderer | null>(null);
   const sceneRef = useRef<THREE.Scene | null>(null);
   const cameraRef = useRef<THREE.PerspectiveCamera | null>(null);
   
   const labelsRef = useRef<Map<string | number, THREE.Group>>(new Map());
   const aiLabelsRef = useRef<Map<string, THREE.Group>>(new Map());
-  const trackersRef = useRef<Map<string | number, TrackerState>>(new Map());
+  const remoteTrackersRef = useRef<Map<string, RemoteTrackerState>>(new Map());
+  const zoneLinesRef = useRef<Map<string, THREE.LineSegments>>(new Map());
   const lidarPointsRef = useRef<THREE.Points | null>(null);
   const workerRef = useRef<Worker | null>(null);
   
-  const nextIdRef = useRef(1);
   const animationFrameRef = useRef<number>();
   const lastCaptureTimeRef = useRef(0);
   const prevSceneDescRef = useRef(sceneDescription);
   const [scanActive, setScanActive] = useState(false);
-  const streamRef = useRef<MediaStream | null>(null);
+  const sourceRef = useRef<VideoSource | null>(null);
   const isLidarAvailableRef = useRef(false);
+  const replayClockRef = useRef({ t: -1, epoch: Date.now() }); // Session time fed so far; tracker time = epoch + t
 
   const lastObjectSetRef = useRef<string>("");
   const lastAnalysisTimeRef = useRef<number>(0);
@@ -113,6 +185,10 @@ export const VisionSystem: React.FC<VisionSystemProps> = ({
   const isMovingFastRef = useRef<boolean>(false);
   const motionTimeoutRef = useRef<any>(null);
 
+  // Loops are started once and would otherwise keep the props of the first render
+  const propsRef = useRef({ localObjects, remoteObjects, remotePoses, poseService, focalLength, depthModelUrl, showDepthMap, analysisMode, onUpdateLocalObjects, onFrameCapture, onReacquire, onPersonDown, onDynamicGesture, onPointSelect, onSourceReady, onSourceEnded, recorder, replay, zones, activeZoneIds });
+  propsRef.current = { localObjects, remoteObjects, remotePoses, poseService, focalLength, depthModelUrl, showDepthMap, analysisMode, onUpdateLocalObjects, onFrameCapture, onReacquire, onPersonDown, onDynamicGesture, onPointSelect, onSourceReady, onSourceEnded, recorder, replay, zones, activeZoneIds };
+
   // Loading State for Modules
   const [loadingState, setLoadingState] = useState<LoadingState>({ active: true, progress: 0, stage: 'INIT' });
 
@@ -121,6 +197,10 @@ export const VisionSystem: React.FC<VisionSystemProps> = ({
         videoRef.current.style.transformOrigin = `${zoomState.x}% ${zoomState.y}%`;
         videoRef.current.style.transform = `scale(${zoomState.level})`;
     }
+    if (depthCanvasRef.current) {
+        depthCanvasRef.current.style.transformOrigin = `${zoomState.x}% ${zoomState.y}%`;
+        depthCanvasRef.current.style.transform = `scale(${zoomState.level})`;
+    }
     if (cameraRef.current) {
         cameraRef.current.fov = 75 / zoomState.level;
         cameraRef.current.updateProjectionMatrix();
@@ -137,10 +217,18 @@ export const VisionSystem: React.FC<VisionSystemProps> = ({
   }, [sceneDescription]);
 
   useEffect(() => {
+    if (!assets) return;
     const blob = new Blob([videoWorkerScript], { type: 'application/javascript' });
     const worker = new Worker(URL.createObjectURL(blob));
     workerRef.current = worker;
-    worker.postMessage({ type: 'load' });
+    detectorKeyRef.current = JSON.stringify(detector);
+    worker.postMessage({ type: 'load', config: resolveDetectorUrl(detector), assets });
+    // A runtime that fails to load kills the script before it can report
+    worker.onerror = (e) => {
+        console.warn("Worker Failed", e.message);
+        setLoadingState({ active: true, progress: 0, stage: 'ERROR' });
+        onError('МОДУЛЬ ЗРЕНИЯ: ' + (e.message || 'НЕ ЗАГРУЖЕН'));
+    };
     worker.onmessage = (e) => {
         const { type, predictions, error, scaleFactor, progress, stage } = e.data;
         
@@ -150,12 +238,26 @@ export const VisionSystem: React.FC<VisionSystemProps> = ({
         if (type === 'loaded') {
             console.log("AI Worker Loaded");
             setLoadingState({ active: false, progress: 100, stage: 'READY' });
+            workerLoadedRef.current = true;
+            detectorInputRef.current = e.data.detector?.inputSize ?? null;
+            if (e.data.detector) onDetectorReady?.(e.data.detector);
+            syncDepthModel();
+        }
+        if (type === 'detectorError') {
+            console.warn("Detector Error", error);
+            onError('ДЕТЕКТОР: ' + error);
+        }
+        if (type === 'depthReady') depthModelRef.current.ready = true;
+        if (type === 'depthError') {
+            console.warn("Depth Model Error", error);
+            onError('МОДЕЛЬ ГЛУБИНЫ: ' + error);
         }
         if (type === 'error') {
             console.warn("Worker Error", error);
             setLoadingState({ active: true, progress: 0, stage: 'ERROR' });
+            onError('МОДУЛЬ ЗРЕНИЯ: ' + error);
         }
-        if (type === 'result') handleWorkerPredictions(predictions, scaleFactor);
+        if (type === 'result') handleWorkerPredictions(predictions, scaleFactor, e.data.depthMap);
     };
 
     const updateNetworkStats = () => {
@@ -190,55 +292,50 @@ export const VisionSystem: React.FC<VisionSystemProps> = ({
         worker.terminate();
         if (navigator.connection) navigator.connection.removeEventListener('change', updateNetworkStats);
     };
-  }, []);
+  }, [assets]);
 
   useEffect(() => {
     let isCancelled = false;
-    const switchCamera = async () => {
+    const switchSource = async () => {
         if (!isActive) return;
+        const next = createVideoSource(source, activeDeviceId, isMobileDevice());
         try {
-            const isMobile = isMobileDevice();
-            
-            // Adaptive Constraints based on device
-            const constraints: MediaStreamConstraints = {
-                video: {
-                    deviceId: activeDeviceId ? { exact: activeDeviceId } : undefined,
-                    width: isMobile ? { ideal: 640 } : { ideal: 1280 }, 
-                    height: isMobile ? { ideal: 480 } : { ideal: 720 },
-                    frameRate: isMobile ? { ideal: 24, max: 30 } : { ideal: 30, max: 60 }
-                }
-            };
-
-            const newStream = await navigator.mediaDevices.getUserMedia(constraints);
-            
-            if (isCancelled) {
-                newStream.getTracks().forEach(t => t.stop());
+            await next.start();
+            if (isCancelled || !videoRef.current) {
+                next.detach();
                 return;
             }
-            const track = newStream.getVideoTracks()[0];
-            const caps = track.getCapabilities();
-            const label = track.label.toLowerCase();
-            isLidarAvailableRef.current = (label.includes('back') && (caps as any).focusMode) || label.includes('lidar') || label.includes('depth');
-            if (onCameraReady) onCameraReady(caps);
-            if (videoRef.current) {
-                videoRef.current.srcObject = newStream;
-                await videoRef.current.play();
+            if (next.kind === 'camera' && next.track) {
+                const caps = next.track.getCapabilities();
+                const label = next.track.label.toLowerCase();
+                isLidarAvailableRef.current = (label.includes('back') && (caps as any).focusMode) || label.includes('lidar') || label.includes('depth');
+                if (onCameraReady) onCameraReady(caps);
+            } else {
+                isLidarAvailableRef.current = false;
             }
-            if (streamRef.current) streamRef.current.getTracks().forEach(t => t.stop());
-            streamRef.current = newStream;
+            next.onEnded = () => propsRef.current.onSourceEnded?.();
+            await next.attach(videoRef.current);
+            if (onFrameSize) onFrameSize(videoRef.current.videoWidth, videoRef.current.videoHeight);
+            if (sourceRef.current) sourceRef.current.detach();
+            sourceRef.current = next;
+            propsRef.current.onSourceReady?.(next);
+            propsRef.current.recorder?.attachVideo(videoRef.current);
             if (!sceneRef.current) { initThreeJS(); startLoops(); }
         } catch (err: any) {
-            if (!isCancelled) onError('ОШИБКА КАМЕРЫ: ' + err.message);
+            next.detach();
+            if (isCancelled) return;
+            onError(`${SOURCE_ERRORS[source.kind]}: ${err.message}`);
+            propsRef.current.onSourceEnded?.();
         }
     };
-    switchCamera();
+    switchSource();
     return () => { isCancelled = true; };
-  }, [activeDeviceId, isActive]);
+  }, [activeDeviceId, isActive, source]);
 
   useEffect(() => {
       return () => {
           if (animationFrameRef.current) cancelAnimationFrame(animationFrameRef.current);
-          if (streamRef.current) streamRef.current.getTracks().forEach(t => t.stop());
+          if (sourceRef.current) sourceRef.current.detach();
           if (rendererRef.current) {
              rendererRef.current.dispose();
              containerRef.current?.removeChild(rendererRef.current.domElement);
@@ -279,27 +376,41 @@ export const VisionSystem: React.FC<VisionSystemProps> = ({
 
   const startLoops = () => {
       const sendFrame = async () => {
-          if (!videoRef.current || !workerRef.current || videoRef.current.readyState < 2) {
+          if (!videoRef.current || videoRef.current.readyState < 2) {
               requestAnimationFrame(sendFrame);
               return;
           }
           const video = videoRef.current;
+          const { replay } = propsRef.current;
+          if (replay) {
+              // No worker and no Gemini frames: the recording is the input
+              feedReplay(replay, video);
+              setTimeout(() => requestAnimationFrame(sendFrame), REPLAY_TICK_MS);
+              return;
+          }
+          if (!workerRef.current) {
+              requestAnimationFrame(sendFrame);
+              return;
+          }
           
           // Adaptive Analysis Resolution: Smaller on mobile for performance
           const isMobile = isMobileDevice();
           const qualityMultiplier = networkQualityRef.current < 0.5 ? 0.7 : 1.0;
-          const ANALYSIS_WIDTH = isMobile ? 240 : (320 * qualityMultiplier);
+          const baseWidth = isMobile ? 240 : (320 * qualityMultiplier);
+          // Fixed-input detectors (YOLO at 640) lose small objects when fed the SSD frame size
+          const ANALYSIS_WIDTH = detectorInputRef.current ? Math.min(detectorInputRef.current, baseWidth * 2) : baseWidth;
 
           try {
              if (motionTimeoutRef.current) clearTimeout(motionTimeoutRef.current);
              const bitmap = await createImageBitmap(video, { resizeWidth: ANALYSIS_WIDTH, resizeQuality: 'low' });
              const scaleFactor = video.videoWidth / ANALYSIS_WIDTH;
              if (!isMovingFastRef.current) {
-                workerRef.current.postMessage({ type: 'detect', imageBitmap: bitmap, scaleFactor }, [bitmap]);
+                workerRef.current.postMessage({ type: 'detect', imageBitmap: bitmap, scaleFactor, withDepth: depthModelRef.current.ready }, [bitmap]);
              } else { bitmap.close(); }
           } catch (e) {}
           
           const now = Date.now();
+          const { onFrameCapture } = propsRef.current;
           if (now - lastCaptureTimeRef.current > 1000 && onFrameCapture) {
              const snapCanvas = document.createElement('canvas');
              const scale = networkQualityRef.current; 
@@ -325,18 +436,25 @@ export const VisionSystem: React.FC<VisionSystemProps> = ({
       renderLoop();
   };
 
-  const checkSceneChange = (currentIds: string[], classes: string[]) => {
+  const countLabels = (labels: string[]) => {
+      const counts: Record<string, number> = {};
+      labels.forEach(c => counts[c] = (counts[c] || 0) + 1);
+      return Object.entries(counts).map(([k,v]) => `${k.toUpperCase()} x${v}`).join(', ');
+  };
+
+  const checkSceneChange = (currentIds: string[], classes: string[], postures: Posture[]) => {
+      if (propsRef.current.replay) return; // Would go to Gemini as a live scene update
       const now = Date.now();
       if (now - lastAnalysisTimeRef.current < 2000) return; 
 
-      const currentSetSig = classes.sort().join(',');
+      const currentSetSig = classes.sort().join(',') + '|' + postures.sort().join(',');
       if (currentSetSig !== lastObjectSetRef.current) {
           // Defer analysis to next tick to allow rendering to proceed
           setTimeout(() => {
-              const counts: Record<string, number> = {};
-              classes.forEach(c => counts[c] = (counts[c] || 0) + 1);
-              const summary = Object.entries(counts).map(([k,v]) => `${k.toUpperCase()} x${v}`).join(', ');
+              let summary = countLabels(classes);
+              if (postures.length > 0) summary += ` · ПОЗЫ: ${countLabels(postures)}`;
               
+              const { analysisMode } = propsRef.current;
               if (analysisMode === 'AUTO' || analysisMode === 'DETAILED') {
                   onSceneChange(summary ? `ДИНАМИКА: ${summary}` : "СКАНИРОВАНИЕ...");
               }
@@ -346,56 +464,118 @@ export const VisionSystem: React.FC<VisionSystemProps> = ({
       lastAnalysisTimeRef.current = now;
   };
 
-  const handleWorkerPredictions = (predictions: any[], scaleFactor: number) => {
-      const now = Date.now();
-      if (isMovingFastRef.current) return;
-
-      const availableTrackers = new Set<string | number>(trackersRef.current.keys());
-      const currentClasses: string[] = [];
-      const activeIds = new Set<string | number>();
-
-      predictions.forEach((pred: any) => {
-          if (pred.score < 0.2) return; 
-          currentClasses.push(pred.class);
-          const scaledBbox = [ pred.bbox[0] * scaleFactor, pred.bbox[1] * scaleFactor, pred.bbox[2] * scaleFactor, pred.bbox[3] * scaleFactor ];
-          let bestId = null;
-          let bestDist = 200; 
-          availableTrackers.forEach(tid => {
-              const t = trackersRef.current.get(tid)!;
-              if (t.class !== pred.class) return;
-              const dist = Math.sqrt(Math.pow(scaledBbox[0]-t.lockedBox[0],2) + Math.pow(scaledBbox[1]-t.lockedBox[1],2));
-              if(dist < bestDist) { bestDist = dist; bestId = tid; }
-          });
+  // The worker only loads the model once it is up; the URL can change at runtime
+  const syncDepthModel = () => {
+      const url = propsRef.current.depthModelUrl || null;
+      if (!workerLoadedRef.current || !workerRef.current || url === depthModelRef.current.url) return;
+      depthModelRef.current = { url, ready: false };
+      pipelineRef.current.depthScale.reset();
+      // The worker runs from a blob: URL, relative paths have to be resolved here
+      if (url) workerRef.current.postMessage({ type: 'loadDepth', url: new URL(url, window.location.href).href });
+  };
 
-          if(bestId) {
-             const t = trackersRef.current.get(bestId)!;
-             const lerpFactor = processingIntervalRef.current > 300 ? 0.5 : 0.4;
-             t.lockedBox[0] += (scaledBbox[0] - t.lockedBox[0]) * lerpFactor;
-             t.lockedBox[1] += (scaledBbox[1] - t.lockedBox[1]) * lerpFactor;
-             t.lockedBox[2] += (scaledBbox[2] - t.lockedBox[2]) * lerpFactor;
-             t.lockedBox[3] += (scaledBbox[3] - t.lockedBox[3]) * lerpFactor;
-             t.lastSeenTime = now;
-             t.consecutiveMisses = 0;
-             t.gesture = pred.gesture;
-             t.opacity = 1.0;
-             
-             availableTrackers.delete(bestId);
-             activeIds.add(bestId);
-          } else {
-             const newId = nextIdRef.current++;
-             const color = pred.class === 'hand' ? 0xFFD700 : 0x00FF00;
-             createLabel(newId, pred.class, color);
-             trackersRef.current.set(newId, {
-                 id: newId, class: pred.class, isRemote: false, color: color, lastSeenTime: now, consecutiveMisses: 0, 
-                 opacity: 1.0, 
-                 lockedBox: scaledBbox as any, physics: { current: {x:0,y:0,z:-10}, target: {x:0,y:0,z:-10}, velocity: {x:0,y:0,z:0}, scale: 0.1 },
-                 scanProgress: 0, hasLidarScan: isLidarAvailableRef.current, gesture: pred.gesture, rotationOffset: Math.random(),
-                 displayDist: 0
-             });
-             activeIds.add(newId);
-          }
+  useEffect(() => {
+      syncDepthModel();
+  }, [depthModelUrl]);
+
+  // Same reason as the depth model: resolve against the page, not the worker's blob: URL
+  const resolveDetectorUrl = (config: DetectorConfig): DetectorConfig =>
+      config.url ? { ...config, url: new URL(config.url, window.location.href).href } : config;
+
+  useEffect(() => {
+      const key = JSON.stringify(detector);
+      if (key === detectorKeyRef.current || !workerRef.current) return;
+      detectorKeyRef.current = key;
+      setLoadingState({ active: true, progress: 0, stage: 'DETECTOR' });
+      workerRef.current.postMessage({ type: 'loadDetector', config: resolveDetectorUrl(detector) });
+  }, [detector]);
+
+  useEffect(() => {
+      if (reIdGallery) pipelineRef.current.configureGallery(reIdGallery);
+  }, [reIdGallery]);
+
+  // Tracker time: the wall clock live, the session clock in replay, so a paused replay holds its overlay
+  const trackerNow = () => propsRef.current.replay ? replayClockRef.current.epoch + replayClockRef.current.t : Date.now();
+
+  // Feeds recorded predictions up to the video's position. Going back (seek, loop) rebuilds the
+  // tracker from the start of the session, so ids come out the same as at any earlier pass.
+  const feedReplay = (replay: SessionReplay, video: HTMLVideoElement) => {
+      const t = sessionTimeAt(replay.meta, video.currentTime);
+      const clock = replayClockRef.current;
+      if (t < clock.t) {
+          resetTracking();
+          replayClockRef.current = { t: -1, epoch: Date.now() - t };
+      }
+      const { epoch } = replayClockRef.current;
+      replay.timeline.predictionsBetween(replayClockRef.current.t, t).forEach(e => {
+          handleWorkerPredictions(e.data.predictions, e.data.scaleFactor, null, epoch + e.t);
+      });
+      replayClockRef.current.t = t;
+  };
+
+  const resetTracking = () => {
+      const ids: (string | number)[] = Array.from(pipelineRef.current.trackers.keys());
+      ids.forEach(id => removeTracker(id));
+      pipelineRef.current.reset();
+      lastObjectSetRef.current = '';
+  };
+
+  useEffect(() => {
+      // Entering or leaving a replay: neither side's tracks belong to the other
+      resetTracking();
+      remoteTrackersRef.current.forEach(remote => removeTracker(remote.key));
+      remoteTrackersRef.current.clear();
+      replayClockRef.current = { t: -1, epoch: Date.now() };
+  }, [replay]);
+
+  useEffect(() => {
+      if (recorder && videoRef.current) recorder.attachVideo(videoRef.current);
+  }, [recorder]);
+
+  const handleWorkerPredictions = (predictions: any[], scaleFactor: number, depthMap?: DepthMap | null, now = Date.now()) => {
+      // Replayed sessions reproduce tracks and ids, but what they triggered is already in the recorded log
+      const live = !propsRef.current.replay;
+      if (depthMap && propsRef.current.showDepthMap) drawDepthMap(depthMap);
+      if (isMovingFastRef.current && live) return;
+      if (live) propsRef.current.recorder?.record({ kind: 'predictions', data: { predictions, scaleFactor } });
+
+      const videoW = videoRef.current?.videoWidth || 1280;
+      const videoH = videoRef.current?.videoHeight || 720;
+      const result = pipelineRef.current.ingest(predictions, scaleFactor, now, videoW, videoH, propsRef.current.focalLength, isLidarAvailableRef.current);
+      result.created.forEach(t => createLabel(t.id, t.class, t.color));
+      if (live) {
+          result.reacquired.forEach(({ id, class: cls }) => propsRef.current.onReacquire?.(id, cls));
+          result.fallen.forEach(id => propsRef.current.onPersonDown?.(id));
+          result.gestures.forEach(({ gesture, keypoints }) => propsRef.current.onDynamicGesture?.(gesture, findPointedTarget(keypoints)));
+      }
+      checkSceneChange(result.activeIds.map(String), result.classes, result.postures);
+  };
+
+  // Boxes a pointing ray can select: visible, not hands
+  const pointableTargets = () => {
+      const trackers: TrackerState[] = Array.from(pipelineRef.current.trackers.values());
+      return trackers.filter(t => t.class !== 'hand' && !t.isOccluded).map(t => ({ id: t.id, box: t.lockedBox as Box }));
+  };
+
+  // The first box along the index finger
+  const findPointedTarget = (keypoints: Keypoint[]): string | number | undefined => {
+      const ray = pointingRay(keypoints);
+      return ray ? pickTarget(ray, pointableTargets())?.id : undefined;
+  };
+
+  // Pointing hands: dwell on the box the finger ray hits to select it
+  const updatePointers = (now: number): PointerOverlay[] => {
+      const overlays: PointerOverlay[] = [];
+      const targets = pointableTargets();
+      pipelineRef.current.trackers.forEach(t => {
+          if (t.class !== 'hand') return;
+          const ray = t.gesture === 'POINTING' && t.handKeypoints ? pointingRay(t.handKeypoints) : null;
+          const hit = ray ? pickTarget(ray, targets) : null;
+          const dwell = dwellRef.current.update(t.id, hit?.id, now);
+          if (dwell.selected && dwell.targetId !== undefined && !propsRef.current.replay) propsRef.current.onPointSelect?.(dwell.targetId);
+          if (ray) overlays.push({ ray, hit, progress: hit ? dwell.progress : 0, box: hit ? pipelineRef.current.trackers.get(hit.id)?.lockedBox : undefined });
       });
-      checkSceneChange(Array.from(activeIds).map(String), currentClasses);
+      return overlays;
   };
 
   const renderLoop = () => {
@@ -406,48 +586,22 @@ export const VisionSystem: React.FC<VisionSystemProps> = ({
   };
 
   const updateVisualsAndPhysics = () => {
-      const now = Date.now();
+      const now = trackerNow();
       const videoW = videoRef.current?.videoWidth || 1280;
       const videoH = videoRef.current?.videoHeight || 720;
       const width = window.innerWidth;
       const height = window.innerHeight;
       
-      const nextLocalObjects: TrackedObject[] = [];
-      const trackers: TrackerState[] = Array.from(trackersRef.current.values());
-
-      trackers.forEach(tracker => {
-           const calc = calculate3DPosition(tracker.lockedBox, tracker.class, videoW, videoH, width, height);
-           tracker.physics.target = { x: calc.x, y: calc.y, z: calc.z };
-           const speed = isMovingFastRef.current ? 0.9 : 0.2; 
-           tracker.physics.current.x += (tracker.physics.target.x - tracker.physics.current.x) * speed;
-           tracker.physics.current.y += (tracker.physics.target.y - tracker.physics.current.y) * speed;
-           tracker.physics.current.z += (tracker.physics.target.z - tracker.physics.current.z) * speed;
-           tracker.rotationOffset += 0.05;
-           const isLost = now - tracker.lastSeenTime > 500;
-           
-           if (isLost) tracker.opacity -= 0.05;
-           if (tracker.opacity < 0.05 && isLost) { removeTracker(tracker.id); return; }
-           
-           if (tracker.scanProgress > 0 && tracker.scanProgress < 1) {
-               tracker.scanProgress += 0.01;
-               if(tracker.scanProgress > 1) tracker.scanProgress = 1;
-           }
-
-           const propObj = localObjects.find(o => o.id === tracker.id);
-           const isSelected = propObj?.isSelected || false;
-           
-           nextLocalObjects.push({
-               id: tracker.id, class: tracker.class, confidence: 1, bbox: tracker.lockedBox, position3D: tracker.physics.current,
-               distance: Math.abs(tracker.physics.current.z), lastSeen: now, isOccluded: false, isSelected: isSelected,
-               depthSource: isLidarAvailableRef.current ? 'LIDAR_FUSION' : 'AI_ESTIMATE', gesture: tracker.gesture,
-               scanProgress: tracker.scanProgress
-           });
+      const { objects, removed } = pipelineRef.current.step(now, viewport(videoW, videoH, width, height), propsRef.current.focalLength, isMovingFastRef.current, isLidarAvailableRef.current);
+      removed.forEach(id => removeTracker(id));
+      // Selection and squad marks live in App; carry them over from the last update
+      const nextLocalObjects: TrackedObject[] = objects.map(obj => {
+          const propObj = propsRef.current.localObjects.find(o => o.id === obj.id);
+          return { ...obj, isSelected: propObj?.isSelected || false, designator: propObj?.designator, designatorColor: propObj?.designatorColor };
       });
-
-      nextLocalObjects.sort((a, b) => b.position3D.z - a.position3D.z);
       
       nextLocalObjects.forEach(obj => {
-          const tracker = trackersRef.current.get(obj.id);
+          const tracker = pipelineRef.current.trackers.get(obj.id);
           const g = labelsRef.current.get(obj.id);
           if (tracker && g) {
               g.position.set(obj.position3D.x, obj.position3D.y, obj.position3D.z);
@@ -460,6 +614,7 @@ export const VisionSystem: React.FC<VisionSystemProps> = ({
               if (bracketGroup && textSprite) {
                   let color = tracker.color;
                   if (obj.isSelected) color = 0xFF0000;
+                  else if (obj.designatorColor) color = parseInt(obj.designatorColor.slice(1), 16);
                   else if (obj.class === 'hand') color = 0xFFD700;
                   else if (isLidarAvailableRef.current) color = 0x00FFFF;
                   
@@ -487,16 +642,22 @@ export const VisionSystem: React.FC<VisionSystemProps> = ({
                   g.scale.setScalar(scale); 
                   
                   // Update label content logic
-                  const contentSig = `${obj.class}-${obj.gesture}-${Math.floor(tracker.displayDist * 10)}`; 
+                  const dynamic = tracker.dynamicGesture && now < tracker.dynamicGesture.until ? tracker.dynamicGesture.gesture : undefined;
+                  const contentSig = `${obj.class}-${dynamic || obj.gesture}-${obj.posture}-${Math.floor(tracker.displayDist * 10)}-${color}-${obj.designator}`; 
                   if (tracker.lastLabelUpdate !== contentSig) {
-                       updateLabelTexture(spriteMesh, obj.class, obj.gesture, tracker.displayDist, color);
+                       updateLabelTexture(spriteMesh, obj.class, dynamic || obj.gesture || obj.posture, tracker.displayDist, color, obj.designator ? `◆ ${obj.designator}` : undefined);
                        tracker.lastLabelUpdate = contentSig;
                   }
+
+                  const skeleton = g.getObjectByName('SKELETON') as THREE.LineSegments | undefined;
+                  if (skeleton) updateSkeleton(skeleton, tracker, obj.posture === 'FALLEN' ? 0xFF0000 : color, videoW, videoH, width, height);
               }
 
               if (reticle) {
-                  if (obj.isSelected) {
+                  // Squad marks get the reticle too, in the designator's color
+                  if (obj.isSelected || obj.designatorColor) {
                       reticle.visible = true;
+                      (reticle as any).material.color.setHex(obj.isSelected ? 0xFF0000 : parseInt(obj.designatorColor!.slice(1), 16));
                       reticle.rotation.z -= 0.1;
                       (reticle as any).material.opacity = tracker.opacity;
                       (reticle as any).scale.setScalar(1.5 + Math.sin(now * 0.01) * 0.2);
@@ -506,7 +667,7 @@ export const VisionSystem: React.FC<VisionSystemProps> = ({
               }
               
               if (progressGroup) {
-                  if (analysisMode === 'DETAILED' && obj.scanProgress && obj.scanProgress > 0 && obj.scanProgress < 1) {
+                  if (propsRef.current.analysisMode === 'DETAILED' && obj.scanProgress && obj.scanProgress > 0 && obj.scanProgress < 1) {
                       progressGroup.visible = true;
                       const fg = progressGroup.getObjectByName('PROGRESS_BAR');
                       if (fg) fg.scale.setX(obj.scanProgress);
@@ -516,39 +677,295 @@ export const VisionSystem: React.FC<VisionSystemProps> = ({
               }
           }
       });
-      onUpdateLocalObjects(nextLocalObjects);
+      updateRemoteVisuals(now);
+      updateZoneVisuals(videoW, videoH, width, height);
+      drawPointers(updatePointers(now), videoW, videoH, width, height);
+      propsRef.current.onUpdateLocalObjects(nextLocalObjects);
+  };
+
+  // Keypoints on the target's depth plane, in the label group's (distance-scaled) frame around the box center
+  const updateSkeleton = (skeleton: THREE.LineSegments, tracker: TrackerState, color: number, videoW: number, videoH: number, screenW: number, screenH: number) => {
+      const keypoints = tracker.skeleton;
+      skeleton.visible = !!keypoints && !tracker.isOccluded;
+      if (!keypoints || !skeleton.visible || !skeleton.parent) return;
+      const { position, scale } = skeleton.parent;
+      const view = viewport(videoW, videoH, screenW, screenH);
+      const [bx, by, bw, bh] = tracker.lockedBox;
+      const center = videoPointToWorld(bx + bw / 2, by + bh / 2, position.z, view);
+      const attr = skeleton.geometry.getAttribute('position') as THREE.BufferAttribute;
+      SKELETON_EDGES.forEach(([a, b], i) => {
+          const visible = keypoints[a][2] >= DEFAULT_POSTURE_CONFIG.minScore && keypoints[b][2] >= DEFAULT_POSTURE_CONFIG.minScore;
+          [keypoints[a], keypoints[b]].forEach((k, j) => {
+              // Bones with an unsure end collapse onto the center
+              const p = visible ? videoPointToWorld(bx + k[0] * bw, by + k[1] * bh, position.z, view) : center;
+              attr.setXYZ(i * 2 + j, (p.x - center.x) / scale.x, (p.y - center.y) / scale.y, 0);
+          });
+      });
+      attr.needsUpdate = true;
+      const mat = skeleton.material as THREE.LineBasicMaterial;
+      mat.color.setHex(color);
+      mat.opacity = 0.8 * tracker.opacity;
+  };
+
+  // Zones lie on a plane in front of the camera, so they line up with the video at any zoom
+  const updateZoneVisuals = (videoW: number, videoH: number, screenW: number, screenH: number) => {
+      const scene = sceneRef.current;
+      if (!scene) return;
+      const zones: GeoZone[] = propsRef.current.zones || [];
+      const active = propsRef.current.activeZoneIds || [];
+      const lines = zoneLinesRef.current;
+      const view = viewport(videoW, videoH, screenW, screenH);
+      const ids: string[] = Array.from(lines.keys());
+      ids.forEach(id => {
+          if (zones.some(z => z.id === id)) return;
+          const line = lines.get(id)!;
+          scene.remove(line);
+          line.geometry.dispose();
+          (line.material as THREE.LineBasicMaterial).dispose();
+          lines.delete(id);
+      });
+      zones.forEach(zone => {
+          let line = lines.get(zone.id);
+          if (!line) {
+              line = new THREE.LineSegments(new THREE.BufferGeometry(), new THREE.LineBasicMaterial({ transparent: true, depthTest: false }));
+              line.renderOrder = 10;
+              scene.add(line);
+              lines.set(zone.id, line);
+          }
+          // Rebuilt only when the shape or the view changes
+          const key = `${JSON.stringify(zone.points)}|${zone.direction}|${videoW}x${videoH}|${screenW}x${screenH}|${view.fov}`;
+          if (line.userData.key !== key) {
+              const positions = zoneSegments(zone, videoW / videoH).flatMap(([x, y]) => {
+                  const p = videoPointToWorld(x * videoW, y * videoH, ZONE_DEPTH, view);
+                  return [p.x, p.y, p.z];
+              });
+              line.geometry.dispose();
+              line.geometry = new THREE.BufferGeometry();
+              line.geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+              line.userData.key = key;
+          }
+          const mat = line.material as THREE.LineBasicMaterial;
+          mat.color.setHex(active.includes(zone.id) ? 0xFF0000 : zone.kind === 'tripwire' ? 0x00FFFF : 0xFF7F00);
+          mat.opacity = active.includes(zone.id) ? 1 : 0.7;
+      });
+  };
+
+  const updateRemoteVisuals = (now: number) => {
+      const remotes = remoteTrackersRef.current;
+      const { remotePoses, poseService } = propsRef.current;
+      const localPose = poseService.getPose();
+      const arrows: EdgeArrow[] = [];
+
+      propsRef.current.remoteObjects.forEach(obj => {
+          const key = `remote:${obj.remoteUser}:${obj.id}`;
+          const prev = remotes.get(key);
+          if (!prev) {
+              createLabel(key, obj.class, REMOTE_COLOR);
+              remotes.set(key, { key, object: obj, velocity: { x: 0, y: 0, z: 0 } });
+              return;
+          }
+          const dt = (obj.lastSeen - prev.object.lastSeen) / 1000;
+          if (dt > 0.02) {
+              const p0 = prev.object.position3D, p1 = obj.position3D;
+              prev.velocity = {
+                  x: prev.velocity.x * 0.5 + ((p1.x - p0.x) / dt) * 0.5,
+                  y: prev.velocity.y * 0.5 + ((p1.y - p0.y) / dt) * 0.5,
+                  z: prev.velocity.z * 0.5 + ((p1.z - p0.z) / dt) * 0.5
+              };
+          }
+          if (dt >= 0) prev.object = obj;
+      });
+
+      // Recorded objects were stamped by the recording's wall clock; age them on the replay clock
+      const { replay } = propsRef.current;
+      const seenAt = (obj: TrackedObject) => replay ? replayClockRef.current.epoch + sessionTimeOf(replay.meta, obj.lastSeen) : obj.lastSeen;
+
+      // Objects dropped from props (unit left, target lost) simply age out
+      remotes.forEach(remote => {
+          const obj = remote.object;
+          const age = Math.max(0, now - seenAt(obj));
+          if (age > REMOTE_FRESH_MS + REMOTE_FADE_MS) {
+              removeTracker(remote.key);
+              remotes.delete(remote.key);
+              return;
+          }
+          const g = labelsRef.current.get(remote.key);
+          if (!g) return;
+
+          const opacity = age <= REMOTE_FRESH_MS ? 1 : 1 - (age - REMOTE_FRESH_MS) / REMOTE_FADE_MS;
+          const t = Math.min(age, REMOTE_EXTRAPOLATE_MS) / 1000;
+          // Extrapolate in the sender's frame, then bring the point into ours
+          const pos = toLocalFrame({
+              x: obj.position3D.x + remote.velocity.x * t,
+              y: obj.position3D.y + remote.velocity.y * t,
+              z: obj.position3D.z + remote.velocity.z * t
+          }, remotePoses[obj.remoteUser || ''], localPose);
+          g.position.set(pos.x, pos.y, pos.z);
+          const dist = Math.sqrt(pos.x * pos.x + pos.y * pos.y + pos.z * pos.z);
+          g.scale.setScalar(Math.max(0.4, Math.abs(pos.z) / 6));
+
+          const color = obj.designatorColor ? parseInt(obj.designatorColor.slice(1), 16) : REMOTE_COLOR;
+
+          // Out of view: hide the bracket and point at it from the screen edge instead
+          const camera = cameraRef.current;
+          const projected = new THREE.Vector3(pos.x, pos.y, pos.z);
+          if (camera) projected.project(camera);
+          const inView = pos.z < 0 && Math.abs(projected.x) <= 1 && Math.abs(projected.y) <= 1;
+          g.visible = inView;
+          if (!inView) {
+              const behind = pos.z >= 0;
+              let dx = behind ? pos.x : projected.x;
+              let dy = behind ? -pos.y : -projected.y;
+              if (Math.abs(dx) < 1e-3 && Math.abs(dy) < 1e-3) dy = 1; // Straight behind: point down
+              arrows.push({
+                  dx, dy,
+                  color: '#' + color.toString(16).padStart(6, '0'),
+                  label: `${obj.class.toUpperCase()} ${dist.toFixed(0)}m`
+              });
+          }
+          const bracketGroup = g.getObjectByName('BRACKET');
+          bracketGroup?.children.forEach((corner: any) => {
+              corner.children?.forEach((bar: any) => {
+                  if (bar.material) {
+                      bar.material.color.setHex(color);
+                      bar.material.opacity = opacity;
+                  }
+              });
+          });
+
+          const textSprite = g.getObjectByName('TEXT') as THREE.Sprite | undefined;
+          if (textSprite?.material) {
+              textSprite.material.opacity = opacity;
+              const ageText = `${(age / 1000).toFixed(1)}s`;
+              const footer = `${obj.designator ? `◆ ${obj.designator} ` : ''}⇄ ${obj.remoteUser} ${ageText}`;
+              const contentSig = `${obj.class}-${obj.gesture}-${Math.floor(dist * 10)}-${color}-${footer}`;
+              if (remote.lastLabelUpdate !== contentSig) {
+                  updateLabelTexture(textSprite, obj.class, obj.gesture, dist, color, footer);
+                  remote.lastLabelUpdate = contentSig;
+              }
+          }
+
+          const reticle = g.getObjectByName('RETICLE');
+          if (reticle) {
+              reticle.visible = !!obj.designatorColor;
+              if (reticle.visible) {
+                  (reticle as any).material.color.setHex(color);
+                  (reticle as any).material.opacity = opacity;
+                  reticle.rotation.z -= 0.1;
+              }
+          }
+      });
+      drawEdgeArrows(arrows);
+  };
+
+  const drawEdgeArrows = (arrows: EdgeArrow[]) => {
+      const canvas = edgeCanvasRef.current;
+      const ctx = canvas?.getContext('2d');
+      if (!canvas || !ctx) return;
+      const w = window.innerWidth;
+      const h = window.innerHeight;
+      if (canvas.width !== w || canvas.height !== h) {
+          canvas.width = w;
+          canvas.height = h;
+      }
+      ctx.clearRect(0, 0, w, h);
+
+      const margin = 48;
+      arrows.forEach(arrow => {
+          const len = Math.hypot(arrow.dx, arrow.dy);
+          const ux = arrow.dx / len;
+          const uy = arrow.dy / len;
+          // Push the direction out to the inset screen border
+          const reach = Math.min(
+              Math.abs(ux) > 1e-6 ? (w / 2 - margin) / Math.abs(ux) : Infinity,
+              Math.abs(uy) > 1e-6 ? (h / 2 - margin) / Math.abs(uy) : Infinity
+          );
+          const x = w / 2 + ux * reach;
+          const y = h / 2 + uy * reach;
+
+          ctx.save();
+          ctx.translate(x, y);
+          ctx.rotate(Math.atan2(uy, ux));
+          ctx.fillStyle = arrow.color;
+          ctx.shadowColor = 'black';
+          ctx.shadowBlur = 4;
+          ctx.beginPath();
+          ctx.moveTo(16, 0);
+          ctx.lineTo(-8, -10);
+          ctx.lineTo(-8, 10);
+          ctx.closePath();
+          ctx.fill();
+          ctx.restore();
+
+          ctx.font = 'bold 12px "Rajdhani", sans-serif';
+          ctx.fillStyle = arrow.color;
+          ctx.textAlign = 'center';
+          ctx.fillText(arrow.label, x - ux * 28, y - uy * 28 + 4);
+      });
+  };
+
+  // Finger rays and dwell rings, over the edge arrows (same canvas, already cleared this frame)
+  const drawPointers = (pointers: PointerOverlay[], videoW: number, videoH: number, screenW: number, screenH: number) => {
+      const ctx = edgeCanvasRef.current?.getContext('2d');
+      if (!ctx) return;
+      const view = viewport(videoW, videoH, screenW, screenH);
+      pointers.forEach(({ ray, hit, progress, box }) => {
+          const reach = hit ? hit.distance : Math.max(videoW, videoH);
+          const start = videoToScreen(ray.x, ray.y, view);
+          const end = videoToScreen(ray.x + ray.dx * reach, ray.y + ray.dy * reach, view);
+          ctx.save();
+          ctx.strokeStyle = hit ? '#FF7F00' : 'rgba(0, 255, 255, 0.5)';
+          ctx.lineWidth = 2;
+          ctx.setLineDash([8, 6]);
+          ctx.shadowColor = 'black';
+          ctx.shadowBlur = 4;
+          ctx.beginPath();
+          ctx.moveTo(start.x, start.y);
+          ctx.lineTo(end.x, end.y);
+          ctx.stroke();
+          ctx.setLineDash([]);
+          if (hit && box) {
+              const c = videoToScreen(box[0] + box[2] / 2, box[1] + box[3] / 2, view);
+              ctx.strokeStyle = 'rgba(255, 255, 255, 0.25)';
+              ctx.lineWidth = 4;
+              ctx.beginPath();
+              ctx.arc(c.x, c.y, 24, 0, Math.PI * 2);
+              ctx.stroke();
+              ctx.strokeStyle = progress >= 1 ? '#FF0000' : '#FF7F00';
+              ctx.beginPath();
+              ctx.arc(c.x, c.y, 24, -Math.PI / 2, -Math.PI / 2 + Math.PI * 2 * progress);
+              ctx.stroke();
+          }
+          ctx.restore();
+      });
   };
 
-  const calculate3DPosition = (bbox: number[], cls: string, videoW: number, videoH: number, screenW: number, screenH: number) => {
-      const [x, y, w, h] = bbox;
-      const videoRatio = videoW / videoH;
-      const screenRatio = screenW / screenH;
-      let renderW, renderH, offsetX, offsetY;
-      if (screenRatio > videoRatio) {
-          renderW = screenW; renderH = screenW / videoRatio;
-          offsetX = 0; offsetY = (screenH - renderH) / 2;
-      } else {
-          renderH = screenH; renderW = screenH * videoRatio;
-          offsetX = (screenW - renderW) / 2; offsetY = 0;
+  // Current view for the projection helpers; the camera's fov narrows with zoom
+  const viewport = (videoW: number, videoH: number, screenW: number, screenH: number): Viewport =>
+      ({ videoW, videoH, screenW, screenH, fov: cameraRef.current?.fov || 75 });
+
+  // False colour over the video: red near, blue far (relative to the current frame)
+  const drawDepthMap = (depthMap: DepthMap) => {
+      const canvas = depthCanvasRef.current;
+      if (!canvas) return;
+      if (canvas.width !== depthMap.width || canvas.height !== depthMap.height) {
+          canvas.width = depthMap.width;
+          canvas.height = depthMap.height;
       }
-      const scaleX = renderW / videoW;
-      const scaleY = renderH / videoH;
-      const screenBoxCenterX = (x * scaleX + offsetX) + (w * scaleX) / 2;
-      const screenBoxCenterY = (y * scaleY + offsetY) + (h * scaleY) / 2;
-      const ndcX = (screenBoxCenterX / screenW) * 2 - 1;
-      const ndcY = -(screenBoxCenterY / screenH) * 2 + 1;
-      const realHeight = getRealWorldHeight(cls);
-      const projectedHeight = h * scaleY;
-      const screenHeightFraction = projectedHeight / screenH;
-      const fovRad = THREE.MathUtils.degToRad(cameraRef.current?.fov || 75);
-      let z = (realHeight / screenHeightFraction) / (2 * Math.tan(fovRad / 2));
-      z = Math.max(1.5, Math.min(50.0, z)); 
-      z = -z;
-      const visibleHeightAtZ = 2 * Math.abs(z) * Math.tan(fovRad / 2);
-      const visibleWidthAtZ = visibleHeightAtZ * (screenW / screenH);
-      const worldX = (ndcX * visibleWidthAtZ) / 2;
-      const worldY = (ndcY * visibleHeightAtZ) / 2;
-      return { x: worldX, y: worldY, z };
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return;
+      let min = Infinity, max = -Infinity;
+      depthMap.data.forEach(v => { if (v < min) min = v; if (v > max) max = v; });
+      const range = max - min || 1;
+      const image = ctx.createImageData(depthMap.width, depthMap.height);
+      depthMap.data.forEach((v, i) => {
+          const near = (v - min) / range;
+          image.data[i * 4] = 255 * near;
+          image.data[i * 4 + 1] = 200 * (1 - Math.abs(2 * near - 1));
+          image.data[i * 4 + 2] = 255 * (1 - near);
+          image.data[i * 4 + 3] = 255;
+      });
+      ctx.putImageData(image, 0, 0);
   };
 
   const removeTracker = (id: string | number) => {
@@ -564,10 +981,11 @@ export const VisionSystem: React.FC<VisionSystemProps> = ({
           });
       }
       labelsRef.current.delete(id);
-      trackersRef.current.delete(id);
+      pipelineRef.current.remove(id);
+      dwellRef.current.forget(id);
   };
 
-  const updateLabelTexture = (sprite: THREE.Sprite, cls: string, gesture: string | undefined, distance: number, colorHex: number) => {
+  const updateLabelTexture = (sprite: THREE.Sprite, cls: string, gesture: string | undefined, distance: number, colorHex: number, footer?: string) => {
       const mat = sprite.material as THREE.SpriteMaterial;
       if (!mat || !mat.map) return;
       const canvas = mat.map.image as HTMLCanvasElement;
@@ -607,6 +1025,12 @@ export const VisionSystem: React.FC<VisionSystemProps> = ({
       ctx.fillStyle = '#AAAAAA';
       ctx.fillText(`DIST: ${distance.toFixed(1)}m`, 20, 115);
 
+      if (footer) {
+          ctx.fillStyle = '#' + colorHex.toString(16).padStart(6, '0');
+          ctx.font = 'bold 30px "Rajdhani", sans-serif';
+          ctx.fillText(footer, 20, 150);
+      }
+
       mat.map.needsUpdate = true;
   };
 
@@ -641,6 +1065,16 @@ export const VisionSystem: React.FC<VisionSystemProps> = ({
      reticle.visible = false;
      g.add(reticle);
 
+     if (cls === 'person') {
+         const skeletonGeo = new THREE.BufferGeometry();
+         skeletonGeo.setAttribute('position', new THREE.BufferAttribute(new Float32Array(SKELETON_EDGES.length * 6), 3));
+         const skeleton = new THREE.LineSegments(skeletonGeo, new THREE.LineBasicMaterial({ color: color, transparent: true, opacity: 0.8 }));
+         skeleton.name = 'SKELETON';
+         skeleton.visible = false;
+         skeleton.frustumCulled = false; // Vertices move every frame, the bounds would go stale
+         g.add(skeleton);
+     }
+
      const canvas = document.createElement('canvas');
      canvas.width = 512; canvas.height = 160; 
      
@@ -719,7 +1153,9 @@ export const VisionSystem: React.FC<VisionSystemProps> = ({
   return (
     <div className="absolute inset-0 z-0 bg-transparent overflow-hidden">
       <video ref={videoRef} playsInline muted autoPlay style={{ transition: 'transform 0.5s cubic-bezier(0.2, 0.8, 0.2, 1)', objectFit: 'cover' }} className="absolute inset-0 w-full h-full z-0" />
+      <canvas ref={depthCanvasRef} style={{ transition: 'transform 0.5s cubic-bezier(0.2, 0.8, 0.2, 1)', objectFit: 'cover' }} className={`absolute inset-0 w-full h-full z-0 opacity-50 pointer-events-none ${showDepthMap && depthModelUrl ? '' : 'hidden'}`} />
       <div ref={containerRef} className="absolute inset-0 z-10 pointer-events-none" />
+      <canvas ref={edgeCanvasRef} className="absolute inset-0 z-10 pointer-events-none" />
       {scanActive && (
           <div className="absolute inset-0 z-20 pointer-events-none bg-gradient-to-b from-[#00FFFF]/0 via-[#00FFFF]/10 to-[#00FFFF]/0 animate-pulse mix-blend-overlay"></div>
       )}
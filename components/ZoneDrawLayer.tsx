@@ -0,0 +1,76 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { GeoZone } from '../types';
+import { screenToVideo, videoToScreen, Viewport } from '../utils/projection';
+
+interface ZoneDrawLayerProps {
+  kind: GeoZone['kind'];
+  frameSize: { width: number; height: number };
+  onFinish: (points: [number, number][]) => void; // Frame fractions
+  onCancel: () => void;
+}
+
+// Click the outline over the unzoomed view: a tripwire takes two points, a zone closes on
+// double-click or Enter
+export const ZoneDrawLayer: React.FC<ZoneDrawLayerProps> = ({ kind, frameSize, onFinish, onCancel }) => {
+  const [points, setPoints] = useState<[number, number][]>([]);
+  const [cursor, setCursor] = useState<[number, number] | null>(null);
+  const layerRef = useRef<HTMLDivElement>(null);
+  const view: Viewport = { videoW: frameSize.width, videoH: frameSize.height, screenW: window.innerWidth, screenH: window.innerHeight, fov: 75 };
+
+  useEffect(() => {
+    layerRef.current?.focus();
+  }, []);
+
+  const toFrame = (e: React.MouseEvent): [number, number] => {
+    const p = screenToVideo(e.clientX, e.clientY, view);
+    return [Math.max(0, Math.min(1, p.x / frameSize.width)), Math.max(0, Math.min(1, p.y / frameSize.height))];
+  };
+  const toScreen = ([x, y]: [number, number]) => videoToScreen(x * frameSize.width, y * frameSize.height, view);
+
+  const finish = (clicked: [number, number][]) => {
+    // A double-click lands its two clicks on the same spot
+    const pts = clicked.filter((p, i) => i === 0 || Math.hypot(p[0] - clicked[i - 1][0], p[1] - clicked[i - 1][1]) > 0.005);
+    if (kind === 'zone' && pts.length < 3) return;
+    if (kind === 'tripwire' && pts.length < 2) return;
+    onFinish(pts.map(([x, y]) => [Number(x.toFixed(4)), Number(y.toFixed(4))]));
+  };
+
+  const handleClick = (e: React.MouseEvent) => {
+    const next = [...points, toFrame(e)];
+    if (kind === 'tripwire' && next.length === 2) finish(next);
+    else setPoints(next);
+  };
+
+  const preview = cursor ? [...points, cursor] : points;
+  const screenPoints = preview.map(toScreen).map(p => `${p.x},${p.y}`).join(' ');
+  const color = kind === 'tripwire' ? '#00FFFF' : '#FF7F00';
+
+  return (
+    <div
+      ref={layerRef}
+      tabIndex={-1}
+      className="absolute inset-0 z-[140] pointer-events-auto cursor-crosshair outline-none"
+      onClick={handleClick}
+      onDoubleClick={() => finish(points)}
+      onMouseMove={(e) => setCursor(toFrame(e))}
+      onKeyDown={(e) => {
+        e.stopPropagation(); // Keep arrow keys from driving the zoom
+        if (e.key === 'Escape') onCancel();
+        if (e.key === 'Enter') finish(points);
+        if (e.key === 'Backspace') setPoints(p => p.slice(0, -1));
+      }}
+    >
+      <svg className="absolute inset-0 w-full h-full pointer-events-none">
+        {kind === 'zone' && points.length >= 2
+          ? <polygon points={screenPoints} fill={`${color}22`} stroke={color} strokeWidth={2} strokeDasharray="6 4" />
+          : <polyline points={screenPoints} fill="none" stroke={color} strokeWidth={2} strokeDasharray="6 4" />}
+        {points.map(toScreen).map((p, i) => <circle key={i} cx={p.x} cy={p.y} r={4} fill={color} />)}
+      </svg>
+      <div className="absolute bottom-24 left-1/2 -translate-x-1/2 px-3 py-1 bg-black/80 border border-[#FF7F00]/50 text-[10px] font-bold tracking-widest text-[#FF7F00] pointer-events-none">
+        {kind === 'tripwire'
+          ? 'УКАЖИТЕ НАЧАЛО И КОНЕЦ ЛИНИИ · ESC — ОТМЕНА'
+          : `ТОЧЕК: ${points.length} · ДВОЙНОЙ КЛИК / ENTER — ГОТОВО · ESC — ОТМЕНА`}
+      </div>
+    </div>
+  );
+};
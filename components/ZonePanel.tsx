@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { GeoZone, TripwireDirection } from '../types';
+import { X, Pentagon, Spline, Trash2 } from 'lucide-react';
+
+interface ZonePanelProps {
+  cameraLabel: string;
+  zones: GeoZone[];
+  activeZoneIds: string[];
+  onDraw: (kind: GeoZone['kind']) => void; // Closes the panel for drawing over the view
+  onUpdate: (zone: GeoZone) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+const DIRECTION_LABELS: Record<TripwireDirection, string> = {
+  both: 'ОБА НАПРАВЛЕНИЯ',
+  forward: 'ПО СТРЕЛКЕ',
+  reverse: 'ПРОТИВ СТРЕЛКИ'
+};
+
+export const ZonePanel: React.FC<ZonePanelProps> = ({ cameraLabel, zones, activeZoneIds, onDraw, onUpdate, onDelete, onClose }) => {
+  const [confirmDelete, setConfirmDelete] = useState<string | null>(null);
+
+  const inputClass = 'bg-black/70 border border-[#00FFFF]/30 focus:border-[#00FFFF] px-2 py-1 text-xs text-white outline-none';
+
+  return (
+    <div
+      className="absolute inset-0 z-[150] flex items-center justify-center bg-black/60 backdrop-blur-sm pointer-events-auto"
+      onKeyDown={(e) => {
+        e.stopPropagation(); // Keep arrow keys from driving the zoom
+        if (e.key === 'Escape') onClose();
+      }}
+    >
+      <div className="w-full max-w-sm mx-4 border border-[#FF7F00]/50 bg-black/90 p-4 flex flex-col gap-3 font-bold tech-panel">
+        <div className="flex items-center justify-between text-[#00FFFF] text-xs tracking-[0.2em]">
+          <span>ЗОНЫ И РУБЕЖИ</span>
+          <button onClick={onClose} className="p-1 hover:bg-[#00FFFF] hover:text-black transition-all">
+            <X size={14} />
+          </button>
+        </div>
+
+        <div className="text-[10px] text-white/60 tracking-widest">КАМЕРА: {cameraLabel}</div>
+
+        <div className="flex gap-2">
+          <button
+            onClick={() => onDraw('zone')}
+            className="flex-1 flex items-center justify-center gap-2 border border-[#FF7F00] text-[#FF7F00] py-2 text-xs tracking-widest hover:bg-[#FF7F00] hover:text-black transition-all"
+          >
+            <Pentagon size={14} /> ЗОНА
+          </button>
+          <button
+            onClick={() => onDraw('tripwire')}
+            className="flex-1 flex items-center justify-center gap-2 border border-[#00FFFF] text-[#00FFFF] py-2 text-xs tracking-widest hover:bg-[#00FFFF] hover:text-black transition-all"
+          >
+            <Spline size={14} /> РУБЕЖ
+          </button>
+        </div>
+
+        <div className="flex flex-col gap-2 max-h-72 overflow-y-auto">
+          {zones.length === 0 && <div className="text-[10px] text-white/40 tracking-widest">НЕТ ЗОН ДЛЯ ЭТОЙ КАМЕРЫ</div>}
+          {zones.map(zone => (
+            <div key={zone.id} className={`flex flex-col gap-2 border p-2 ${activeZoneIds.includes(zone.id) ? 'border-red-500' : 'border-[#FF7F00]/30'}`}>
+              <div className="flex items-center gap-2">
+                <span className={`text-[10px] tracking-[0.2em] ${zone.kind === 'tripwire' ? 'text-[#00FFFF]' : 'text-[#FF7F00]'}`}>
+                  {zone.kind === 'tripwire' ? 'РУБЕЖ' : 'ЗОНА'}
+                </span>
+                <input value={zone.name} onChange={(e) => onUpdate({ ...zone, name: e.target.value })} className={`${inputClass} flex-1 min-w-0`} />
+                <button
+                  onClick={() => confirmDelete === zone.id ? onDelete(zone.id) : setConfirmDelete(zone.id)}
+                  className={`p-1 border transition-all ${confirmDelete === zone.id ? 'border-red-500 bg-red-500 text-black' : 'border-red-500/50 text-red-500 hover:bg-red-500 hover:text-black'}`}
+                >
+                  <Trash2 size={12} />
+                </button>
+              </div>
+              {zone.kind === 'zone' ? (
+                <label className="flex items-center justify-between gap-2">
+                  <span className="text-[10px] text-[#FF7F00] tracking-[0.2em]">ЗАДЕРЖКА, С (0 — ВЫКЛ)</span>
+                  <input
+                    type="number"
+                    min={0}
+                    value={zone.dwellSeconds ?? 0}
+                    onChange={(e) => {
+                      const seconds = parseFloat(e.target.value);
+                      onUpdate({ ...zone, dwellSeconds: seconds > 0 ? seconds : undefined });
+                    }}
+                    className={`${inputClass} w-20`}
+                  />
+                </label>
+              ) : (
+                <select
+                  value={zone.direction || 'both'}
+                  onChange={(e) => onUpdate({ ...zone, direction: e.target.value as TripwireDirection })}
+                  className={inputClass}
+                >
+                  {(Object.keys(DIRECTION_LABELS) as TripwireDirection[]).map(d => <option key={d} value={d}>{DIRECTION_LABELS[d]}</option>)}
+                </select>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
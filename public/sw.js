@@ -0,0 +1,86 @@
+// Offline cache for the HUD. Self-hosted assets (vendor/, models/, avatars/) are precached from
+// the manifest `npm run assets` writes and served cache-first; the app shell is network-first so
+// a redeploy is picked up, with the cached copy used offline. Cross-origin fonts and styles are
+// cached on first use.
+const ASSET_CACHE = 'veraos-assets-v1';
+const SHELL_CACHE = 'veraos-shell-v1';
+const MANIFEST = 'assets-manifest.json';
+const ASSET_DIRS = ['vendor/', 'models/', 'avatars/'];
+const CDN_HOSTS = ['cdn.tailwindcss.com', 'fonts.googleapis.com', 'fonts.gstatic.com'];
+
+const scopeUrl = (path) => new URL(path, self.registration.scope).href;
+
+const isAsset = (url) => ASSET_DIRS.some(dir => url.startsWith(scopeUrl(dir)));
+
+const precacheAssets = async () => {
+  try {
+    const res = await fetch(scopeUrl(MANIFEST), { cache: 'no-cache' });
+    if (!res.ok) return; // Assets not fetched: nothing to precache, the app falls back to the CDN
+    const manifest = await res.json();
+    const cache = await caches.open(ASSET_CACHE);
+    const paths = Object.values(manifest.assets || {}).flat().map(file => scopeUrl(file.path));
+    const cached = await Promise.all(paths.map(url => cache.match(url)));
+    await cache.addAll(paths.filter((_, i) => !cached[i]));
+  } catch (e) {
+    // Offline install or a partial asset set: whatever is cached keeps working
+  }
+};
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(precacheAssets().then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', (event) => {
+  const current = [ASSET_CACHE, SHELL_CACHE];
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(k => !current.includes(k)).map(k => caches.delete(k))))
+      .then(() => self.clients.claim())
+  );
+});
+
+const cacheFirst = async (request, cacheName) => {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const res = await fetch(request);
+  if (res.ok || res.type === 'opaque') (await caches.open(cacheName)).put(request, res.clone());
+  return res;
+};
+
+const networkFirst = async (request) => {
+  try {
+    const res = await fetch(request);
+    if (res.ok) (await caches.open(SHELL_CACHE)).put(request, res.clone());
+    return res;
+  } catch (e) {
+    const cached = await caches.match(request) || (request.mode === 'navigate' && await caches.match(scopeUrl('./')));
+    if (cached) return cached;
+    throw e;
+  }
+};
+
+// The boot integrity check probes assets with HEAD; answer from the cache so it passes offline
+const headFromCache = async (request) => {
+  const cached = await caches.match(request.url);
+  if (cached) return new Response(null, { status: cached.status, headers: cached.headers });
+  return fetch(request);
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+
+  if (request.method === 'HEAD' && isAsset(request.url)) {
+    event.respondWith(headFromCache(request));
+    return;
+  }
+  if (request.method !== 'GET') return;
+
+  if (isAsset(request.url)) {
+    event.respondWith(cacheFirst(request, ASSET_CACHE));
+  } else if (CDN_HOSTS.includes(url.hostname)) {
+    event.respondWith(cacheFirst(request, SHELL_CACHE));
+  } else if (url.origin === self.location.origin) {
+    event.respondWith(networkFirst(request));
+  }
+});
@@ -0,0 +1,81 @@
+import { mkdir, readFile, stat, writeFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import { ASSETS, ASSET_MANIFEST, AssetManifest, AssetSource, ManifestFile } from '../utils/assets';
+
+// Downloads every asset in utils/assets.ts into public/ and writes the manifest the boot check reads.
+// Usage: npm run assets [-- --force]   (existing files are kept unless --force)
+const PUBLIC_DIR = join(process.cwd(), 'public');
+const force = process.argv.includes('--force');
+
+const isTfHub = (url: string) => url.startsWith('https://tfhub.dev/');
+
+// TF Hub serves a model's files under its handle, in TF.js format on request
+const tfHubFile = (handle: string, file: string) => `${handle}/${file}?tfjs-format=file`;
+
+const download = async (url: string, path: string): Promise<ManifestFile> => {
+  const target = join(PUBLIC_DIR, path);
+  if (!force) {
+    const existing = await stat(target).catch(() => null);
+    if (existing && existing.size > 0) return { path, size: existing.size };
+  }
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`${res.status} ${res.statusText}: ${url}`);
+  const data = Buffer.from(await res.arrayBuffer());
+  await mkdir(dirname(target), { recursive: true });
+  await writeFile(target, data);
+  console.log(`[ASSETS] ${path} (${(data.length / 1024).toFixed(0)} KB)`);
+  return { path, size: data.length };
+};
+
+const readJson = async (path: string) => JSON.parse(await readFile(join(PUBLIC_DIR, path), 'utf8'));
+
+const sibling = (path: string, name: string) => join(dirname(path), name).split('\\').join('/');
+
+// model.json plus the weight shards it lists
+const fetchModel = async (asset: AssetSource): Promise<ManifestFile[]> => {
+  const modelUrl = isTfHub(asset.upstream) ? tfHubFile(asset.upstream, 'model.json') : asset.upstream;
+  const files = [await download(modelUrl, asset.path)];
+  const model = await readJson(asset.path);
+  for (const group of model.weightsManifest || []) {
+    for (const shard of group.paths as string[]) {
+      const url = isTfHub(asset.upstream) ? tfHubFile(asset.upstream, shard) : new URL(shard, asset.upstream).href;
+      files.push(await download(url, sibling(asset.path, shard)));
+    }
+  }
+  return files;
+};
+
+// A .gltf references its buffers and textures by relative URI; a .glb is self-contained
+const fetchAvatar = async (asset: AssetSource): Promise<ManifestFile[]> => {
+  const files = [await download(asset.upstream, asset.path)];
+  if (!asset.path.endsWith('.gltf')) return files;
+  const gltf = await readJson(asset.path);
+  const uris = [...(gltf.buffers || []), ...(gltf.images || [])]
+    .map((entry: { uri?: string }) => entry.uri)
+    .filter((uri: string | undefined): uri is string => !!uri && !uri.startsWith('data:'));
+  for (const uri of uris) {
+    files.push(await download(new URL(uri, asset.upstream).href, sibling(asset.path, decodeURIComponent(uri))));
+  }
+  return files;
+};
+
+const main = async () => {
+  const manifest: AssetManifest = { generated: new Date().toISOString(), assets: {} };
+  let failed = 0;
+  for (const asset of ASSETS) {
+    try {
+      manifest.assets[asset.id] = asset.group === 'model' ? await fetchModel(asset)
+        : asset.group === 'avatar' ? await fetchAvatar(asset)
+        : [await download(asset.upstream, asset.path)];
+    } catch (e) {
+      failed++;
+      console.error(`[ASSETS] ${asset.id} FAILED: ${(e as Error).message}`);
+    }
+  }
+  await mkdir(PUBLIC_DIR, { recursive: true });
+  await writeFile(join(PUBLIC_DIR, ASSET_MANIFEST), JSON.stringify(manifest, null, 2));
+  console.log(`[ASSETS] Manifest written, ${ASSETS.length - failed}/${ASSETS.length} assets`);
+  if (failed > 0) process.exit(1);
+};
+
+main();
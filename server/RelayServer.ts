@@ -0,0 +1,313 @@
+import { WebSocketServer, WebSocket, RawData } from 'ws';
+import { timingSafeEqual } from 'crypto';
+import { AddressInfo } from 'net';
+import { NetworkPacket, TargetMark } from '../types';
+import { wrapWithSender } from '../utils/telemetryCodec';
+
+const DEFAULT_ROOM = 'default';
+const CLIENT_TIMEOUT = 15000; // Clients heartbeat every 5s
+const MISSED_HEARTBEAT = 7000; // One heartbeat plus slack: the link is gone, the sweep just hasn't run
+const SWEEP_INTERVAL = 5000;
+const AUTH_REJECTED_CODE = 4001;
+const ID_IN_USE_CODE = 4002;
+
+interface RelayClient {
+  socket: WebSocket;
+  userId: string | null; // Set on HANDSHAKE
+  name: string;
+  handshake: any; // Last HANDSHAKE payload, replayed to newcomers (name, codecs...)
+  room: string;
+  joinedAt: number;
+  lastSeen: number;
+}
+
+type RelayMark = Omit<TargetMark, 'color'>;
+
+export interface RelayOptions {
+  port: number;
+  host?: string;
+  token?: string; // Required in HANDSHAKE when set; payloads stay opaque, see utils/squadCrypto
+}
+
+export class RelayServer {
+  private wss: WebSocketServer | null = null;
+  private clients: Set<RelayClient> = new Set();
+  private marks: Map<string, Map<string, RelayMark>> = new Map(); // room -> key -> mark
+  private sweepInterval: any = null;
+  private options: RelayOptions;
+
+  constructor(options: RelayOptions) {
+    this.options = options;
+  }
+
+  // Resolves with the bound port (port 0 picks a free one)
+  public start(): Promise<number> {
+    const wss = this.wss = new WebSocketServer({ port: this.options.port, host: this.options.host });
+    wss.on('connection', (socket) => this.handleConnection(socket));
+    this.sweepInterval = setInterval(() => this.sweepTimedOut(), SWEEP_INTERVAL);
+    return new Promise(resolve => wss.on('listening', () => {
+      const { port } = wss.address() as AddressInfo;
+      console.log(`[RELAY] Listening on ws://${this.options.host || 'localhost'}:${port}`);
+      resolve(port);
+    }));
+  }
+
+  public stop() {
+    if (this.sweepInterval) clearInterval(this.sweepInterval);
+    this.sweepInterval = null;
+    this.clients.forEach(c => c.socket.close());
+    this.clients.clear();
+    this.wss?.close();
+    this.wss = null;
+  }
+
+  private handleConnection(socket: WebSocket) {
+    const now = Date.now();
+    const client: RelayClient = { socket, userId: null, name: '', handshake: {}, room: DEFAULT_ROOM, joinedAt: now, lastSeen: now };
+    this.clients.add(client);
+
+    socket.on('message', (data, isBinary) => {
+      if (isBinary) this.handleBinary(client, data);
+      else this.handleMessage(client, data);
+    });
+    socket.on('close', () => this.handleDisconnect(client));
+    socket.on('error', () => {
+      // Errors are followed by 'close', cleanup happens there
+    });
+  }
+
+  private handleMessage(client: RelayClient, data: RawData) {
+    client.lastSeen = Date.now();
+    let packet: NetworkPacket;
+    try {
+      packet = JSON.parse(data.toString());
+    } catch (e) {
+      return;
+    }
+    if (!packet || typeof packet.type !== 'string' || typeof packet.userId !== 'string') return;
+
+    if (packet.type === 'HANDSHAKE') {
+      this.handleHandshake(client, packet);
+      return;
+    }
+
+    // Nothing is relayed until the unit has introduced itself
+    if (!client.userId) return;
+
+    // The relay owns identity: never forward a packet under someone else's id
+    packet.userId = client.userId;
+
+    // Reliable packets are acked per hop; receivers drop retransmitted duplicates by seq
+    if (typeof packet.seq === 'number') {
+      this.sendTo(client, { type: 'ACK', userId: client.userId, payload: { seq: packet.seq }, timestamp: Date.now() });
+    }
+
+    if (packet.type === 'LEAVE') {
+      client.socket.close();
+      return;
+    }
+
+    if (packet.type === 'MARK') {
+      this.handleMark(client, packet);
+      return;
+    }
+
+    // Directed packets (DMs, telemetry acks) go to a single room member, everything else fans out
+    if (packet.payload && typeof packet.payload.to === 'string') {
+      const target = this.roomMembers(client.room).find(m => m.userId === packet.payload.to);
+      if (target) this.sendTo(target, packet);
+      return;
+    }
+
+    this.broadcast(client.room, packet, client);
+  }
+
+  // Binary telemetry frames carry no sender, the relay stamps the authenticated id
+  private handleBinary(client: RelayClient, data: RawData) {
+    client.lastSeen = Date.now();
+    if (!client.userId) return;
+    const frame = Array.isArray(data) ? Buffer.concat(data) : new Uint8Array(data as ArrayBuffer);
+    const raw = wrapWithSender(client.userId, frame);
+    this.roomMembers(client.room).forEach(member => {
+      if (member === client) return;
+      if (member.socket.readyState === WebSocket.OPEN) member.socket.send(raw);
+    });
+  }
+
+  // The relay is the single arbiter of who holds which target
+  private handleMark(client: RelayClient, packet: NetworkPacket) {
+    const payload = packet.payload || {};
+    const marks = this.roomMarks(client.room);
+
+    if (payload.action === 'claim') {
+      if (typeof payload.ownerId !== 'string' || payload.objectId === undefined) return;
+      const key = `${payload.ownerId}:${payload.objectId}`;
+      const holder = marks.get(key);
+      if (holder && holder.designatorId !== client.userId) {
+        this.sendTo(client, { type: 'MARK', userId: holder.designatorId, payload: { action: 'denied', key, holder }, timestamp: Date.now() });
+        return;
+      }
+      // One designation per operator: a new claim releases the previous one
+      this.releaseMarksOf(client.room, client.userId!);
+      marks.set(key, {
+        key,
+        ownerId: payload.ownerId,
+        objectId: payload.objectId,
+        class: String(payload.class || 'unknown'),
+        designatorId: client.userId!,
+        designatorName: client.name,
+        timestamp: Date.now()
+      });
+    } else if (payload.action === 'release') {
+      const mark = marks.get(payload.key);
+      // Holder releases; the owner may drop a mark on a target it lost track of
+      if (!mark || (mark.designatorId !== client.userId && mark.ownerId !== client.userId)) return;
+      marks.delete(payload.key);
+    } else {
+      return;
+    }
+    this.broadcastMarks(client.room, client.userId!);
+  }
+
+  private roomMarks(room: string): Map<string, RelayMark> {
+    let marks = this.marks.get(room);
+    if (!marks) {
+      marks = new Map();
+      this.marks.set(room, marks);
+    }
+    return marks;
+  }
+
+  private releaseMarksOf(room: string, userId: string): boolean {
+    const marks = this.roomMarks(room);
+    let changed = false;
+    marks.forEach((mark, key) => {
+      if (mark.designatorId === userId || mark.ownerId === userId) {
+        marks.delete(key);
+        changed = true;
+      }
+    });
+    return changed;
+  }
+
+  private marksPacket(room: string, userId: string): NetworkPacket {
+    return { type: 'MARK', userId, payload: { action: 'state', marks: Array.from(this.roomMarks(room).values()) }, timestamp: Date.now() };
+  }
+
+  // Full state on every change: marks are few and late joiners need it anyway
+  private broadcastMarks(room: string, userId: string) {
+    this.broadcast(room, this.marksPacket(room, userId));
+  }
+
+  private isAuthorized(token: unknown): boolean {
+    if (!this.options.token) return true;
+    if (typeof token !== 'string') return false;
+    const expected = Buffer.from(this.options.token);
+    const given = Buffer.from(token);
+    return given.length === expected.length && timingSafeEqual(given, expected);
+  }
+
+  private handleHandshake(client: RelayClient, packet: NetworkPacket) {
+    const { token, ...payload } = packet.payload || {};
+    if (!this.isAuthorized(token)) {
+      console.log(`[RELAY] Rejected ${packet.userId}: bad join token`);
+      client.socket.close(AUTH_REJECTED_CODE, 'unauthorized');
+      return;
+    }
+    const room = typeof payload.room === 'string' && payload.room.trim() ? payload.room.trim() : DEFAULT_ROOM;
+
+    // A reconnecting unit may take over its own dead link, but never a live one: the token
+    // proves squad membership, not which unit this is
+    const holder = Array.from(this.clients).find(other => other !== client && other.userId === packet.userId);
+    if (holder && this.isAlive(holder)) {
+      console.log(`[RELAY] Rejected ${packet.userId}: id in use`);
+      client.socket.close(ID_IN_USE_CODE, 'id in use');
+      return;
+    }
+
+    // Re-handshake (e.g. room change) counts as leaving the previous room
+    if (client.userId && client.room !== room) {
+      this.broadcast(client.room, this.leavePacket(client.userId), client);
+      if (this.releaseMarksOf(client.room, client.userId)) this.broadcastMarks(client.room, client.userId);
+    }
+
+    const isNewInRoom = client.userId !== packet.userId || client.room !== room;
+    client.userId = packet.userId;
+    client.name = payload.name || packet.userId;
+    client.handshake = payload;
+    client.room = room;
+
+    // Not a departure: the unit is back on this connection
+    if (holder) {
+      holder.userId = null;
+      holder.socket.terminate();
+      this.clients.delete(holder);
+    }
+
+    if (isNewInRoom) {
+      // Introduce current room members to the newcomer
+      this.roomMembers(room).forEach(member => {
+        if (member === client) return;
+        this.sendTo(client, {
+          type: 'HANDSHAKE',
+          userId: member.userId!,
+          payload: { name: member.name, ...member.handshake, status: 'online', room },
+          timestamp: member.joinedAt
+        });
+      });
+      if (this.roomMarks(room).size > 0) this.sendTo(client, this.marksPacket(room, client.userId));
+      console.log(`[RELAY] ${client.userId} joined room "${room}" (${this.roomMembers(room).length} online)`);
+    }
+
+    this.broadcast(room, {
+      type: 'HANDSHAKE',
+      userId: client.userId,
+      payload: { ...payload, room },
+      timestamp: packet.timestamp || Date.now()
+    }, client);
+  }
+
+  private isAlive(client: RelayClient): boolean {
+    return client.socket.readyState === WebSocket.OPEN && Date.now() - client.lastSeen <= MISSED_HEARTBEAT;
+  }
+
+  private handleDisconnect(client: RelayClient) {
+    // May run twice for a swept client (sweep + socket 'close')
+    if (!this.clients.delete(client)) return;
+    if (!client.userId) return;
+    console.log(`[RELAY] ${client.userId} left room "${client.room}"`);
+    this.broadcast(client.room, this.leavePacket(client.userId), client);
+    if (this.releaseMarksOf(client.room, client.userId)) this.broadcastMarks(client.room, client.userId);
+  }
+
+  // Half-open sockets (phone sleeps, network drops) never fire 'close' on their own
+  private sweepTimedOut() {
+    const now = Date.now();
+    this.clients.forEach(client => {
+      if (now - client.lastSeen <= CLIENT_TIMEOUT) return;
+      console.log(`[RELAY] ${client.userId || 'anonymous'} timed out`);
+      client.socket.terminate();
+      this.handleDisconnect(client);
+    });
+  }
+
+  private leavePacket(userId: string): NetworkPacket {
+    return { type: 'LEAVE', userId, payload: {}, timestamp: Date.now() };
+  }
+
+  private roomMembers(room: string): RelayClient[] {
+    return Array.from(this.clients).filter(c => c.userId && c.room === room);
+  }
+
+  private broadcast(room: string, packet: NetworkPacket, except?: RelayClient) {
+    const raw = JSON.stringify(packet);
+    this.roomMembers(room).forEach(member => {
+      if (member === except) return;
+      if (member.socket.readyState === WebSocket.OPEN) member.socket.send(raw);
+    });
+  }
+
+  private sendTo(client: RelayClient, packet: NetworkPacket) {
+    if (client.socket.readyState === WebSocket.OPEN) client.socket.send(JSON.stringify(packet));
+  }
+}
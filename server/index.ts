@@ -0,0 +1,21 @@
+import { RelayServer } from './RelayServer';
+
+// Reference relay for NetworkService. Usage: npm run relay [-- --port 8080 --token secret]
+const arg = (name: string) => {
+  const i = process.argv.indexOf(name);
+  return i > -1 ? process.argv[i + 1] : undefined;
+};
+const port = Number(arg('--port') || process.env.RELAY_PORT) || 8080;
+const token = arg('--token') || process.env.RELAY_TOKEN || undefined;
+
+const relay = new RelayServer({ port, host: process.env.RELAY_HOST || '0.0.0.0', token });
+if (token) console.log('[RELAY] Join token required');
+relay.start();
+
+const shutdown = () => {
+  console.log('[RELAY] Shutting down');
+  relay.stop();
+  process.exit(0);
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
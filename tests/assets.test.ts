@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { ASSETS, AssetManifest, checkAssets } from '../utils/assets';
+
+const BASE = 'http://hud.local/';
+
+// Serves the given files (path -> size) and optionally the manifest; records HEAD probes
+const server = (files: Record<string, number>, manifest: AssetManifest | null) => {
+  const probed: string[] = [];
+  const fetchFn = async (url: string, init?: RequestInit) => {
+    const path = url.slice(BASE.length);
+    if (path === 'assets-manifest.json') {
+      return manifest ? new Response(JSON.stringify(manifest)) : new Response('', { status: 404 });
+    }
+    if (init?.method === 'HEAD') probed.push(path);
+    if (!(path in files)) return new Response(null, { status: 404 });
+    return new Response(null, { headers: { 'content-length': String(files[path]) } });
+  };
+  return { fetchFn, probed };
+};
+
+const complete = (): { files: Record<string, number>; manifest: AssetManifest } => {
+  const files: Record<string, number> = {};
+  const manifest: AssetManifest = { generated: '2026-01-01T00:00:00Z', assets: {} };
+  ASSETS.forEach(asset => {
+    const entries = [{ path: asset.path, size: 100 }];
+    if (asset.group === 'model') entries.push({ path: asset.path.replace('model.json', 'group1-shard1of1.bin'), size: 5000 });
+    entries.forEach(e => { files[e.path] = e.size; });
+    manifest.assets[asset.id] = entries;
+  });
+  return { files, manifest };
+};
+
+describe('checkAssets', () => {
+  it('resolves everything locally when all files are present', async () => {
+    const { files, manifest } = complete();
+    const { fetchFn, probed } = server(files, manifest);
+    const report = await checkAssets(BASE, fetchFn);
+    expect(report.missing).toEqual([]);
+    expect(report.manifest).toBe(true);
+    expect(report.checked).toBe(probed.length);
+    expect(report.urls['tfjs-core']).toBe(BASE + 'vendor/tf-core.min.js');
+    expect(report.urls['movenet-multipose']).toBe(BASE + 'models/movenet-multipose/model.json');
+  });
+
+  it('falls back upstream for an asset with a missing or truncated file', async () => {
+    const { files, manifest } = complete();
+    delete files['models/hand-detector/group1-shard1of1.bin'];
+    files['avatars/RobotExpressive.glb'] = 42;
+    const report = await checkAssets(BASE, server(files, manifest).fetchFn);
+    expect(report.missing.map(a => a.id)).toEqual(['hand-detector', 'avatar-robot']);
+    expect(report.urls['hand-detector']).toBe('https://tfhub.dev/mediapipe/tfjs-model/handpose_3d/detector/lite/1');
+    expect(report.urls['hand-landmark']).toBe(BASE + 'models/hand-landmark/model.json');
+  });
+
+  it('reports every asset missing without a manifest', async () => {
+    const { fetchFn, probed } = server({}, null);
+    const report = await checkAssets(BASE, fetchFn);
+    expect(report.manifest).toBe(false);
+    expect(report.missing.length).toBe(ASSETS.length);
+    expect(probed).toEqual([]);
+    expect(report.urls['coco-ssd-lite']).toContain('storage.googleapis.com');
+  });
+
+  it('treats an unreachable server as missing instead of throwing', async () => {
+    const report = await checkAssets(BASE, async () => { throw new TypeError('Failed to fetch'); });
+    expect(report.missing.length).toBe(ASSETS.length);
+  });
+});
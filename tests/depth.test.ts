@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { DepthScale } from '../utils/depthFusion';
+
+describe('DepthScale', () => {
+  it('stays unfitted until enough pairs are seen', () => {
+    const scale = new DepthScale({ minSamples: 4 });
+    [1, 2, 3].forEach(r => scale.observe(r, 1 / (0.2 * r + 0.1)));
+    expect(scale.toMetric(2)).toBeNull();
+    scale.observe(4, 1 / (0.2 * 4 + 0.1));
+    expect(scale.isFitted()).toBe(true);
+  });
+
+  it('recovers the scale and shift of the inverse depth', () => {
+    const scale = new DepthScale();
+    // Model output r with 1/Z = 0.05 r + 0.02
+    [2, 4, 6, 8, 10, 12, 14].forEach(r => scale.observe(r, 1 / (0.05 * r + 0.02)));
+    expect(scale.toMetric(5)).toBeCloseTo(1 / 0.27, 5);
+    expect(scale.toMetric(20)).toBeCloseTo(1 / 1.02, 5);
+  });
+
+  it('falls back to a pure scale when every pair has the same model value', () => {
+    const scale = new DepthScale();
+    for (let i = 0; i < 6; i++) scale.observe(10, 4);
+    expect(scale.toMetric(10)).toBeCloseTo(4, 5);
+    expect(scale.toMetric(20)).toBeCloseTo(2, 5);
+  });
+
+  it('forgets the fit on reset', () => {
+    const scale = new DepthScale();
+    for (let i = 0; i < 6; i++) scale.observe(10 + i, 4);
+    scale.reset();
+    expect(scale.toMetric(10)).toBeNull();
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import { TrackedObject } from '../types';
+import { crc32, createZip } from '../utils/zip';
+import { DetectionLog, jpegSize, toMotCsv, toMotSeqInfo, toCocoJson, buildExportZip } from '../utils/detectionExport';
+
+const object = (id: string | number, cls: string, bbox: [number, number, number, number], extra: Partial<TrackedObject> = {}): TrackedObject =>
+  ({ id, class: cls, confidence: 0.9, bbox, position3D: { x: 0.5, y: -0.25, z: -3 }, distance: 3, lastSeen: 0, ...extra });
+
+// SOI, then a baseline SOF0 header for a width x height image; enough for jpegSize
+const fakeJpeg = (width: number, height: number) =>
+  new Uint8Array([0xFF, 0xD8, 0xFF, 0xE0, 0x00, 0x04, 0x00, 0x00, 0xFF, 0xC0, 0x00, 0x11, 0x08, height >> 8, height & 0xFF, width >> 8, width & 0xFF, 0x03, 0, 0]);
+const base64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+
+// Reads the central directory back, the way an unzip tool finds entries
+const readZip = (zip: Uint8Array) => {
+  const view = new DataView(zip.buffer);
+  const eocd = zip.length - 22;
+  expect(view.getUint32(eocd, true)).toBe(0x06054B50);
+  const count = view.getUint16(eocd + 10, true);
+  let pos = view.getUint32(eocd + 16, true);
+  const files = new Map<string, Uint8Array>();
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(pos, true)).toBe(0x02014B50);
+    const size = view.getUint32(pos + 20, true);
+    const nameLength = view.getUint16(pos + 28, true);
+    const local = view.getUint32(pos + 42, true);
+    const name = new TextDecoder().decode(zip.subarray(pos + 46, pos + 46 + nameLength));
+    const dataStart = local + 30 + view.getUint16(local + 26, true);
+    const data = zip.subarray(dataStart, dataStart + size);
+    expect(crc32(data)).toBe(view.getUint32(pos + 16, true));
+    files.set(name, data);
+    pos += 46 + nameLength;
+  }
+  return files;
+};
+
+describe('zip', () => {
+  it('computes the standard CRC-32', () => {
+    expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xCBF43926);
+  });
+
+  it('writes entries an unzip tool can find and verify', () => {
+    const files = readZip(createZip([{ name: 'a/b.txt', data: 'привет' }, { name: 'c.bin', data: new Uint8Array([1, 2, 3]) }]));
+    expect(new TextDecoder().decode(files.get('a/b.txt'))).toBe('привет');
+    expect([...files.get('c.bin')!]).toEqual([1, 2, 3]);
+  });
+});
+
+describe('DetectionLog', () => {
+  it('keeps one frame per interval and renumbers from the oldest kept', () => {
+    const log = new DetectionLog({ intervalMs: 100, maxFrames: 3 });
+    [0, 40, 100, 250, 300, 420].forEach(t => log.record([object(1, 'person', [0, 0, 10, 10])], t, 640, 480));
+    const frames = log.getFrames();
+    expect(frames.map(f => f.t)).toEqual([100, 250, 420]); // 40 and 300 came too soon, 0 rolled off
+    expect(frames.map(f => f.index)).toEqual([1, 2, 3]);
+  });
+
+  it('skips remote objects and caps the captured frames', () => {
+    const log = new DetectionLog({ intervalMs: 0, maxJpegs: 2 });
+    [0, 1, 2].forEach(t => {
+      log.record([object(1, 'person', [0, 0, 10, 10]), object('u1:4', 'car', [0, 0, 5, 5], { isRemote: true })], t, 640, 480);
+      log.attachJpeg(base64(fakeJpeg(320, 240)));
+    });
+    const frames = log.getFrames();
+    expect(frames.every(f => f.objects.length === 1)).toBe(true);
+    expect(frames.map(f => !!f.jpeg)).toEqual([false, true, true]);
+    expect(log.capturedCount).toBe(2);
+  });
+});
+
+describe('export formats', () => {
+  const frames = () => {
+    const log = new DetectionLog({ intervalMs: 0 });
+    log.record([object(7, 'person', [100, 50, 40, 120], { gesture: 'POINTING' }), object('tag', 'cup', [10, 20, 8, 10])], 1000, 640, 480);
+    log.attachJpeg(base64(fakeJpeg(320, 240)));
+    log.record([object(7, 'person', [110, 50, 40, 120])], 1100, 640, 480);
+    return log.getFrames();
+  };
+
+  it('reads the image size from the JPEG header', () => {
+    expect(jpegSize(fakeJpeg(320, 240))).toEqual({ width: 320, height: 240 });
+    expect(jpegSize(new Uint8Array([0xFF, 0xD8, 0x00]))).toBeNull();
+  });
+
+  it('writes MOTChallenge rows with integer ids and world coordinates', () => {
+    expect(toMotCsv(frames()).trim().split('\n')).toEqual([
+      '1,7,100,50,40,120,0.9,0.5,-0.25,-3',
+      '1,8,10,20,8,10,0.9,0.5,-0.25,-3', // String id mapped past the largest numeric id
+      '2,7,110,50,40,120,0.9,0.5,-0.25,-3'
+    ]);
+    expect(toMotSeqInfo(frames(), 'seq')).toContain('seqLength=2');
+  });
+
+  it('writes COCO with boxes scaled to the captured image and the HUD attributes', () => {
+    const coco = JSON.parse(toCocoJson(frames(), true));
+    expect(coco.images).toEqual([expect.objectContaining({ id: 1, file_name: 'img1/000001.jpg', width: 320, height: 240 })]);
+    expect(coco.categories.map((c: any) => c.name)).toEqual(['cup', 'person']);
+    const person = coco.annotations.find((a: any) => a.track_id === 7);
+    expect(person.bbox).toEqual([50, 25, 20, 60]);
+    expect(person.attributes).toEqual({ gesture: 'POINTING', posture: null, distance: 3, occluded: false });
+
+    const all = JSON.parse(toCocoJson(frames(), false));
+    expect(all.images).toHaveLength(2);
+    expect(all.annotations[0].bbox).toEqual([100, 50, 40, 120]);
+  });
+
+  it('packages a MOT sequence with the COCO file and the frames', () => {
+    const files = readZip(buildExportZip(frames(), true, 'seq'));
+    expect([...files.keys()]).toEqual(['seq/seqinfo.ini', 'seq/gt/gt.txt', 'seq/annotations.coco.json', 'seq/img1/000001.jpg']);
+    expect(readZip(buildExportZip(frames(), false, 'seq')).has('seq/img1/000001.jpg')).toBe(false);
+  });
+});
@@ -0,0 +1,47 @@
+// Stands in for the video worker: same message protocol, but 'detect' answers with the next
+// recorded frame instead of running a model. Replies are synchronous so a test owns the clock.
+export interface FixtureFrame {
+  t: number;
+  predictions: { class: string; score: number; bbox: [number, number, number, number]; truth?: string }[];
+}
+
+export interface Fixture {
+  description: string;
+  frameInterval: number;
+  frames: FixtureFrame[];
+}
+
+export class FakeWorker {
+  public onmessage: ((e: { data: any }) => void) | null = null;
+  private next = 0;
+
+  constructor(private fixture: Fixture) {}
+
+  // Time of the frame the next 'detect' will return, or null once the fixture is used up
+  public get nextFrameTime(): number | null {
+    return this.fixture.frames[this.next]?.t ?? null;
+  }
+
+  public postMessage(msg: any) {
+    if (msg.type === 'load') {
+      this.emit({ type: 'progress', progress: 100, stage: 'FIXTURE' });
+      this.emit({ type: 'loaded', detector: { id: 'fixture', stage: 'READY', inputSize: null, classes: [] } });
+    }
+    if (msg.type === 'detect') {
+      const frame = this.fixture.frames[this.next++];
+      if (!frame) return;
+      // Fixtures are in video pixels; the worker reports in detector input pixels
+      const scaleFactor = msg.scaleFactor ?? 1;
+      const predictions = frame.predictions.map(p => ({ ...p, bbox: p.bbox.map(v => v / scaleFactor) }));
+      this.emit({ type: 'result', predictions, scaleFactor });
+    }
+  }
+
+  public terminate() {
+    this.onmessage = null;
+  }
+
+  private emit(data: any) {
+    this.onmessage?.({ data });
+  }
+}
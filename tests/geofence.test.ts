@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { GeoZone, TrackedObject } from '../types';
+import { GeofenceMonitor, pointInPolygon, crossing, zoneSegments, presetZone } from '../utils/geofence';
+
+// Feet at (fx, fy) as frame fractions of a 1000x1000 frame
+const person = (id: string | number, fx: number, fy: number, extra: Partial<TrackedObject> = {}): TrackedObject =>
+  ({ id, class: 'person', confidence: 0.9, bbox: [fx * 1000 - 20, fy * 1000 - 100, 40, 100], position3D: { x: 0, y: 0, z: -3 }, distance: 3, lastSeen: 0, ...extra });
+
+const square: GeoZone = { id: 'z', name: 'A', kind: 'zone', points: [[0.4, 0.4], [0.6, 0.4], [0.6, 0.6], [0.4, 0.6]] };
+// Vertical, bottom to top: forward is left to right
+const wire: GeoZone = { id: 'w', name: 'B', kind: 'tripwire', points: [[0.5, 0.9], [0.5, 0.1]] };
+
+describe('geometry', () => {
+  it('tests points against polygons', () => {
+    expect(pointInPolygon([0.5, 0.5], square.points)).toBe(true);
+    expect(pointInPolygon([0.7, 0.5], square.points)).toBe(false);
+  });
+
+  it('tells the crossing direction and ignores paths beside the wire', () => {
+    const w = wire.points as [[number, number], [number, number]];
+    expect(crossing(w, [0.4, 0.5], [0.6, 0.5])).toBe('forward');
+    expect(crossing(w, [0.6, 0.5], [0.4, 0.5])).toBe('reverse');
+    expect(crossing(w, [0.4, 0.95], [0.6, 0.95])).toBeNull(); // Below its end
+    expect(crossing(w, [0.4, 0.5], [0.45, 0.5])).toBeNull();
+  });
+
+  it('draws a one-way wire with an arrow on its forward side', () => {
+    expect(zoneSegments(wire, 1)).toHaveLength(2);
+    const segments = zoneSegments({ ...wire, direction: 'forward' }, 16 / 9);
+    expect(segments).toHaveLength(8);
+    const tip = segments[3];
+    expect(tip[0]).toBeGreaterThan(0.5);
+    expect(tip[1]).toBeCloseTo(0.5);
+    expect(zoneSegments({ ...wire, direction: 'reverse' }, 1)[3][0]).toBeLessThan(0.5);
+    expect(zoneSegments(square, 1)).toHaveLength(8); // Closed outline
+  });
+
+  it('builds spoken presets whose forward matches the named direction', () => {
+    const ltr = presetZone('tripwire', 'view', { direction: 'left-to-right' });
+    expect(crossing(ltr.points as [[number, number], [number, number]], [0.4, 0.5], [0.6, 0.5])).toBe(ltr.direction);
+    const toward = presetZone('tripwire', 'near', { direction: 'toward-camera' });
+    expect(crossing(toward.points as [[number, number], [number, number]], [0.5, 0.6], [0.5, 0.9])).toBe(toward.direction);
+    const away = presetZone('tripwire', 'far', { direction: 'away-from-camera' });
+    expect(away.direction).toBe('reverse');
+
+    const around = presetZone('zone', 'target', { dwellSeconds: 10, target: [0.4, 0.2, 0.1, 0.5] });
+    expect(pointInPolygon([0.45, 0.7], around.points)).toBe(true); // The target's feet
+    expect(around.dwellSeconds).toBe(10);
+  });
+});
+
+describe('GeofenceMonitor', () => {
+  it('alerts on entry once per visit, with hysteresis at the edge', () => {
+    const monitor = new GeofenceMonitor({ rearmMs: 1000 });
+    const at = (x: number, t: number) => monitor.update([square], [person(1, x, 0.5)], 1000, 1000, t).map(e => e.kind);
+    expect(at(0.3, 0)).toEqual([]);
+    expect(at(0.5, 100)).toEqual(['enter']);
+    expect(at(0.65, 200)).toEqual([]);
+    expect(at(0.5, 500)).toEqual([]); // Back within rearmMs: same visit
+    expect(at(0.65, 600)).toEqual([]);
+    expect(at(0.5, 2000)).toEqual(['enter']);
+  });
+
+  it('alerts once when someone stays past the dwell time', () => {
+    const monitor = new GeofenceMonitor();
+    const zone = { ...square, dwellSeconds: 2 };
+    const kinds = [0, 1000, 2000, 3000].map(t => monitor.update([zone], [person(1, 0.5, 0.5)], 1000, 1000, t).map(e => e.kind));
+    expect(kinds).toEqual([['enter'], [], ['dwell'], []]);
+  });
+
+  it('alerts on crossings in the wire direction only', () => {
+    const monitor = new GeofenceMonitor({ rearmMs: 0 });
+    const oneWay = { ...wire, direction: 'forward' as const };
+    const walk = (xs: number[]) => xs.flatMap((x, i) => monitor.update([oneWay], [person(1, x, 0.5)], 1000, 1000, i * 100 + xs.length * 1000));
+    expect(walk([0.4, 0.6]).map(e => e.direction)).toEqual(['forward']);
+    expect(walk([0.4, 0.6, 0.4])).toHaveLength(1); // The way back is ignored
+  });
+
+  it('ignores other classes and remote objects, and lights active zones', () => {
+    const monitor = new GeofenceMonitor({ flashMs: 500 });
+    expect(monitor.update([square], [person(1, 0.5, 0.5, { class: 'dog' }), person('u:1', 0.5, 0.5, { isRemote: true })], 1000, 1000, 0)).toEqual([]);
+    monitor.update([square], [person(2, 0.5, 0.5)], 1000, 1000, 0);
+    expect(monitor.activeZoneIds(100)).toEqual(['z']);
+    monitor.update([square], [person(2, 0.9, 0.5)], 1000, 1000, 1000);
+    expect(monitor.activeZoneIds(1000)).toEqual([]);
+  });
+});
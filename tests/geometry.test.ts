@@ -0,0 +1,37 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  DEFAULT_FOCAL_LENGTH, depthFromHeight, focalFromKnownDistance, fieldOfView,
+  getRealWorldHeight, getAspectRatio, setSizeProfiles
+} from '../utils/objectGeometry';
+
+describe('camera model', () => {
+  it('defaults to the 75° field of view the HUD used before calibration', () => {
+    expect(fieldOfView(DEFAULT_FOCAL_LENGTH)).toBeCloseTo(75, 5);
+  });
+
+  it('recovers the focal length from a target at a known distance', () => {
+    // 1.70 m person 300 px tall in a 720 px frame, measured 4 m away
+    const focal = focalFromKnownDistance(300, 720, 1.7, 4);
+    expect(depthFromHeight(1.7, 300, 720, focal)).toBeCloseTo(4, 5);
+    // Same lens, half the box height: twice as far
+    expect(depthFromHeight(1.7, 150, 720, focal)).toBeCloseTo(8, 5);
+  });
+});
+
+describe('size profiles', () => {
+  afterEach(() => setSizeProfiles({}));
+
+  it('maps detector class names onto the table', () => {
+    expect(getRealWorldHeight('cell phone')).toBe(0.15);
+    expect(getRealWorldHeight('Person')).toBe(1.7);
+    expect(getRealWorldHeight('zebra')).toBe(0.5);
+    expect(getAspectRatio('zebra')).toBeUndefined();
+  });
+
+  it('prefers operator overrides over the defaults', () => {
+    setSizeProfiles({ person: { height: 1.85, aspect: 2.5 }, 'traffic light': { height: 0.9, aspect: 2.8 } });
+    expect(getRealWorldHeight('person')).toBe(1.85);
+    expect(getRealWorldHeight('traffic light')).toBe(0.9);
+    expect(getAspectRatio('traffic light')).toBe(2.8);
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { Keypoint } from '../types';
+import { GestureRecognizer, HAND } from '../utils/gestureRecognizer';
+
+const FRAME_WIDTH = 1280;
+
+// 21 landmarks of a hand with its palm centered at (x, y), about 100 px across
+const hand = (x: number, y: number, pinchGap = 60): Keypoint[] => {
+  const keypoints: Keypoint[] = Array.from({ length: 21 }, () => [x, y - 40, 1]);
+  keypoints[HAND.wrist] = [x, y + 40, 1];
+  keypoints[HAND.indexMcp] = [x - 20, y - 20, 1];
+  keypoints[HAND.middleMcp] = [x, y - 40, 1];
+  keypoints[HAND.pinkyMcp] = [x + 20, y - 20, 1];
+  keypoints[HAND.indexTip] = [x - 20, y - 90, 1];
+  keypoints[HAND.thumbTip] = [x - 20 + pinchGap, y - 90, 1];
+  return keypoints;
+};
+
+describe('GestureRecognizer', () => {
+  it('recognises a fast horizontal sweep as a swipe', () => {
+    const rec = new GestureRecognizer();
+    const events = [0, 1, 2, 3, 4].map(i => rec.update(1, hand(900 - i * 100, 400), 'OPEN PALM', FRAME_WIDTH, i * 100));
+    expect(events.filter(Boolean)).toEqual(['SWIPE LEFT']);
+  });
+
+  it('does not count a slow drift or a diagonal as a swipe', () => {
+    const slow = new GestureRecognizer();
+    const drift = Array.from({ length: 20 }, (_, i) => slow.update(1, hand(400 + i * 20, 400), 'OPEN PALM', FRAME_WIDTH, i * 200));
+    expect(drift.filter(e => e && e.startsWith('SWIPE'))).toEqual([]);
+
+    const diagonal = new GestureRecognizer();
+    const events = [0, 1, 2, 3].map(i => diagonal.update(1, hand(400 + i * 100, 200 + i * 100), undefined, FRAME_WIDTH, i * 100));
+    expect(events.filter(Boolean)).toEqual([]);
+  });
+
+  it('fires a pinch once when thumb and index close', () => {
+    const rec = new GestureRecognizer();
+    const gaps = [60, 60, 10, 8, 10, 60, 60];
+    const events = gaps.map((gap, i) => rec.update(1, hand(600, 400, gap), undefined, FRAME_WIDTH, i * 100));
+    expect(events.filter(Boolean)).toEqual(['PINCH']);
+  });
+
+  it('confirms a shape held still', () => {
+    const rec = new GestureRecognizer();
+    const events = Array.from({ length: 20 }, (_, i) => rec.update(1, hand(600 + (i % 2) * 5, 400), 'THUMBS UP', FRAME_WIDTH, i * 100));
+    expect(events.filter(Boolean)).toEqual(['HOLD THUMBS UP']);
+    expect(events.indexOf('HOLD THUMBS UP')).toBe(12);
+  });
+
+  it('restarts the hold when the shape changes', () => {
+    const rec = new GestureRecognizer();
+    const shapes = ['FIST', 'FIST', 'FIST', 'FIST', 'FIST', 'FIST', 'FIST', 'FIST', 'OPEN PALM', 'FIST', 'FIST', 'FIST'];
+    const events = shapes.map((shape, i) => rec.update(1, hand(600, 400), shape, FRAME_WIDTH, i * 100));
+    expect(events.filter(Boolean)).toEqual([]);
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { TrackedObject } from '../types';
+import { TrackingPipeline } from '../utils/trackingPipeline';
+import { Viewport, videoToScreen, boxToWorld, MIN_DEPTH, MAX_DEPTH } from '../utils/projection';
+import { DEFAULT_FOCAL_LENGTH, depthFromHeight } from '../utils/objectGeometry';
+import { DetectionLog, toMotCsv } from '../utils/detectionExport';
+import { FakeWorker, Fixture } from './fakeWorker';
+
+const VIEW: Viewport = { videoW: 1280, videoH: 720, screenW: 1280, screenH: 720, fov: 75 };
+const RENDER_MS = 20; // 50 fps render loop against the fixtures' 10 fps detector
+const SCALE_FACTOR = 2; // Detector input at half the video size, as on a phone
+
+const loadFixture = (name: string): Fixture =>
+  JSON.parse(readFileSync(new URL(`./fixtures/${name}.json`, import.meta.url), 'utf8'));
+
+// Drives the pipeline the way VisionSystem does: worker results on detector frames, a step every
+// render frame. Snapshots what the HUD would get at each detector frame, then runs on until
+// everything has faded out.
+const run = (name: string) => {
+  const fixture = loadFixture(name);
+  const worker = new FakeWorker(fixture);
+  const pipeline = new TrackingPipeline();
+  const snapshots: { t: number; objects: TrackedObject[] }[] = [];
+  const removed: (string | number)[] = [];
+  let now = 0;
+  worker.onmessage = ({ data }) => {
+    if (data.type === 'result') pipeline.ingest(data.predictions, data.scaleFactor, now, VIEW.videoW, VIEW.videoH, DEFAULT_FOCAL_LENGTH);
+  };
+  worker.postMessage({ type: 'load' });
+
+  const end = fixture.frames[fixture.frames.length - 1].t + 3000;
+  for (now = 0; now <= end; now += RENDER_MS) {
+    while (worker.nextFrameTime !== null && worker.nextFrameTime <= now) worker.postMessage({ type: 'detect', scaleFactor: SCALE_FACTOR });
+    const step = pipeline.step(now, VIEW, DEFAULT_FOCAL_LENGTH);
+    removed.push(...step.removed);
+    if (now % fixture.frameInterval === 0) snapshots.push({ t: now, objects: step.objects });
+  }
+  return { fixture, snapshots, removed, pipeline };
+};
+
+// One line per detector frame: [id, class, distance, x, y, z, occluded] in mm precision
+const golden = (snapshots: { t: number; objects: TrackedObject[] }[]) => {
+  const mm = (v: number) => Math.round(v * 1000) / 1000;
+  const rows = snapshots.map(({ t, objects }) => ({
+    t, objects: objects.map(o => [o.id, o.class, mm(o.distance), mm(o.position3D.x), mm(o.position3D.y), mm(o.position3D.z), o.isOccluded ? 1 : 0])
+  }));
+  return `[\n${rows.map(r => JSON.stringify(r)).join(',\n')}\n]\n`;
+};
+
+const idsOf = (snapshots: { objects: TrackedObject[] }[], cls: string) =>
+  new Set(snapshots.flatMap(s => s.objects.filter(o => o.class === cls).map(o => o.id)));
+
+describe('projection', () => {
+  it('maps video pixels through the object-fit: cover crop', () => {
+    // 16:9 video on a 4:3 screen: full height, sides cropped
+    const view: Viewport = { ...VIEW, screenW: 960, screenH: 720 };
+    expect(videoToScreen(640, 360, view)).toEqual({ x: 480, y: 360 });
+    expect(videoToScreen(160, 0, view)).toEqual({ x: 0, y: 0 });
+  });
+
+  it('places boxes at their box-height depth, clamped to the trusted range', () => {
+    const person = boxToWorld([590, 200, 100, 300], 'person', VIEW, DEFAULT_FOCAL_LENGTH);
+    expect(person.z).toBeCloseTo(-depthFromHeight(1.7, 300, 720, DEFAULT_FOCAL_LENGTH), 6);
+    expect(person.x).toBeCloseTo(0, 6); // Centered box, centered screen
+    expect(person.y).toBeGreaterThan(0); // Above the middle of the frame
+
+    expect(boxToWorld([0, 0, 10, 700], 'cup', VIEW, DEFAULT_FOCAL_LENGTH).z).toBe(-MIN_DEPTH);
+    expect(boxToWorld([0, 0, 1, 1], 'person', VIEW, DEFAULT_FOCAL_LENGTH).z).toBe(-MAX_DEPTH);
+    expect(boxToWorld([0, 0, 100, 300], 'person', VIEW, DEFAULT_FOCAL_LENGTH, 7).z).toBe(-7); // Measured depth wins
+  });
+});
+
+describe('TrackingPipeline on recorded fixtures', () => {
+  it('keeps one id per person through a crossing', () => {
+    const { snapshots } = run('crossing');
+    expect(idsOf(snapshots, 'person').size).toBe(2);
+  });
+
+  it('holds ids through occlusion, ignores a one-frame ghost and fades everything out after the end', () => {
+    const { snapshots, removed, pipeline } = run('occlusion');
+    expect(idsOf(snapshots, 'person').size).toBe(1);
+    expect(idsOf(snapshots, 'cup').size).toBe(1);
+    expect(removed).toHaveLength(2);
+    expect(pipeline.trackers.size).toBe(0);
+  });
+
+  it('settles distance and position3D on the box geometry', () => {
+    const { fixture, snapshots } = run('occlusion');
+    const lastFrame = fixture.frames[fixture.frames.length - 1];
+    const person = lastFrame.predictions.find(p => p.truth === 'A')!;
+    const atEnd = snapshots.find(s => s.t === lastFrame.t)!.objects;
+    const seen = atEnd.find(o => o.class === 'person')!;
+    const expected = depthFromHeight(1.7, person.bbox[3], VIEW.videoH, DEFAULT_FOCAL_LENGTH);
+    expect(seen.distance).toBeGreaterThan(expected * 0.9);
+    expect(seen.distance).toBeLessThan(expected * 1.1);
+    expect(seen.position3D.z).toBeCloseTo(-seen.distance, 6);
+
+    // The static cup is nearer than box-height depth trusts: pinned to the clamp
+    const cup = atEnd.find(o => o.class === 'cup');
+    expect(cup?.distance).toBeCloseTo(MIN_DEPTH, 2);
+  });
+
+  it('reports the score of the latest matched detection, through to the export', () => {
+    const { fixture, snapshots } = run('fast-motion');
+    const log = new DetectionLog({ intervalMs: 0 });
+    const scored = snapshots.filter(s => s.objects.length === 1 && fixture.frames.some(f => f.t === s.t));
+    expect(scored.length).toBeGreaterThan(5);
+    scored.forEach(({ t, objects }) => {
+      expect(objects[0].confidence).toBe(fixture.frames.find(f => f.t === t)!.predictions[0].score);
+      log.record(objects, t, VIEW.videoW, VIEW.videoH);
+    });
+    const confidences = toMotCsv(log.getFrames()).trim().split('\n').map(row => Number(row.split(',')[6]));
+    expect(confidences).toEqual(scored.map(({ t }) => fixture.frames.find(f => f.t === t)!.predictions[0].score));
+  });
+
+  it.each(['crossing', 'fast-motion', 'occlusion', 'walk-behind'])('matches the golden run for %s', async name => {
+    await expect(golden(run(name).snapshots)).toMatchFileSnapshot(`./fixtures/golden/${name}.json`);
+  });
+});
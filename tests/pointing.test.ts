@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { Keypoint } from '../types';
+import { HAND } from '../utils/gestureRecognizer';
+import { pointingRay, rayBoxDistance, pickTarget, DwellSelector } from '../utils/pointing';
+
+const finger = (base: [number, number], tip: [number, number]): Keypoint[] => {
+  const keypoints: Keypoint[] = Array.from({ length: 21 }, () => [base[0], base[1], 1]);
+  keypoints[HAND.indexMcp] = [base[0], base[1], 1];
+  keypoints[HAND.indexTip] = [tip[0], tip[1], 1];
+  return keypoints;
+};
+
+describe('pointing ray', () => {
+  it('runs from the fingertip along the finger', () => {
+    const ray = pointingRay(finger([100, 100], [130, 140]))!;
+    expect(ray.x).toBe(130);
+    expect(ray.y).toBe(140);
+    expect(ray.dx).toBeCloseTo(0.6, 5);
+    expect(ray.dy).toBeCloseTo(0.8, 5);
+  });
+
+  it('enters boxes ahead of it and ignores boxes behind or around the origin', () => {
+    const ray = { x: 0, y: 50, dx: 1, dy: 0 };
+    expect(rayBoxDistance(ray, [100, 0, 50, 100])).toBe(100);
+    expect(rayBoxDistance(ray, [-200, 0, 50, 100])).toBeNull();
+    expect(rayBoxDistance(ray, [100, 60, 50, 100])).toBeNull();
+    expect(rayBoxDistance(ray, [-10, 0, 50, 100])).toBeNull(); // The pointing person's own box
+  });
+
+  it('picks the nearest box the ray hits', () => {
+    const ray = { x: 0, y: 0, dx: Math.SQRT1_2, dy: Math.SQRT1_2 };
+    const hit = pickTarget(ray, [
+      { id: 'far', box: [300, 300, 50, 50] },
+      { id: 'near', box: [100, 80, 60, 60] },
+      { id: 'aside', box: [300, 0, 50, 50] }
+    ]);
+    expect(hit?.id).toBe('near');
+  });
+});
+
+describe('DwellSelector', () => {
+  it('selects once after the dwell time on one target', () => {
+    const dwell = new DwellSelector({ dwellMs: 1000 });
+    const states = Array.from({ length: 15 }, (_, i) => dwell.update('hand', 7, i * 100));
+    expect(states[5].progress).toBeCloseTo(0.5, 5);
+    expect(states.filter(s => s.selected).length).toBe(1);
+    expect(states[10].selected).toBe(true);
+  });
+
+  it('restarts when the aim moves to another target', () => {
+    const dwell = new DwellSelector({ dwellMs: 1000 });
+    for (let i = 0; i < 8; i++) dwell.update('hand', 7, i * 100);
+    const state = dwell.update('hand', 8, 800);
+    expect(state.targetId).toBe(8);
+    expect(state.progress).toBe(0);
+  });
+
+  it('rides out a short dropout but not a long one', () => {
+    const dwell = new DwellSelector({ dwellMs: 1000, graceMs: 300 });
+    dwell.update('hand', 7, 0);
+    expect(dwell.update('hand', undefined, 200).targetId).toBe(7);
+    expect(dwell.update('hand', 7, 400).progress).toBeCloseTo(0.4, 5);
+    expect(dwell.update('hand', undefined, 800).progress).toBe(0);
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { UnitPose, Vector3 } from '../types';
+import { toLocalFrame } from '../utils/PoseService';
+
+const S = Math.SQRT1_2;
+const IDENTITY: UnitPose['orientation'] = [0, 0, 0, 1];
+const YAW_LEFT_90: UnitPose['orientation'] = [0, S, 0, S]; // Facing west (-X) when north is -Z
+const TILT_DOWN_90: UnitPose['orientation'] = [-S, 0, 0, S]; // Looking at the ground
+
+const pose = (orientation: UnitPose['orientation'], headingSource: UnitPose['headingSource'] = 'compass', landmark?: Vector3): UnitPose =>
+  ({ orientation, headingSource, landmark, timestamp: 0 });
+
+const expectPoint = (actual: Vector3, expected: Vector3) => {
+  expect(actual.x).toBeCloseTo(expected.x, 6);
+  expect(actual.y).toBeCloseTo(expected.y, 6);
+  expect(actual.z).toBeCloseTo(expected.z, 6);
+};
+
+const ahead = { x: 0, y: 0, z: -5 };
+
+describe('toLocalFrame', () => {
+  it('leaves the point alone for the same pose, or when the sender has none yet', () => {
+    expectPoint(toLocalFrame({ x: 1, y: 2, z: -3 }, pose(IDENTITY), pose(IDENTITY)), { x: 1, y: 2, z: -3 });
+    expectPoint(toLocalFrame({ x: 1, y: 2, z: -3 }, undefined, pose(YAW_LEFT_90)), { x: 1, y: 2, z: -3 });
+    expectPoint(toLocalFrame(ahead, pose(YAW_LEFT_90), pose(YAW_LEFT_90)), ahead);
+  });
+
+  it('turns a point by the yaw between two compass-referenced units', () => {
+    // Ahead of a unit facing west is to the left of one facing north, and the other way round
+    expectPoint(toLocalFrame(ahead, pose(YAW_LEFT_90), pose(IDENTITY)), { x: -5, y: 0, z: 0 });
+    expectPoint(toLocalFrame(ahead, pose(IDENTITY), pose(YAW_LEFT_90)), { x: 5, y: 0, z: 0 });
+  });
+
+  it('ignores yaw without a compass on both ends, but still compensates tilt', () => {
+    expectPoint(toLocalFrame(ahead, pose(YAW_LEFT_90, 'relative'), pose(IDENTITY)), ahead);
+    expectPoint(toLocalFrame(ahead, pose(YAW_LEFT_90), pose(IDENTITY, 'none')), ahead);
+    expectPoint(toLocalFrame(ahead, pose(TILT_DOWN_90, 'relative'), pose(IDENTITY, 'relative')), { x: 0, y: -5, z: 0 });
+  });
+
+  it('shifts by where the sender stands, from a landmark both units calibrated on', () => {
+    // The landmark is 10 m ahead of the sender and 10 m ahead-right of us: the sender stands 10 m to our right
+    const remote = pose(IDENTITY, 'compass', { x: 0, y: 0, z: -10 });
+    const local = pose(IDENTITY, 'compass', { x: 10, y: 0, z: -10 });
+    expectPoint(toLocalFrame(ahead, remote, local), { x: 10, y: 0, z: -5 });
+    expectPoint(toLocalFrame(ahead, { ...remote, landmark: undefined }, local), ahead);
+    expectPoint(toLocalFrame(ahead, { ...remote, headingSource: 'relative' }, { ...local, headingSource: 'relative' }), ahead);
+  });
+
+  it('applies the sender\'s rotation before its offset', () => {
+    // Landmarks are stored in world axes, so the offset is added after turning the point
+    const remote = pose(YAW_LEFT_90, 'compass', { x: -10, y: 0, z: 0 });
+    const local = pose(IDENTITY, 'compass', { x: 0, y: 0, z: -10 });
+    expectPoint(toLocalFrame(ahead, remote, local), { x: 5, y: 0, z: -10 });
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { Keypoint, Posture } from '../types';
+import { classifyPosture, PostureMonitor, KEYPOINT } from '../utils/bodyPose';
+
+type Joints = Partial<Record<keyof typeof KEYPOINT, [number, number]>>;
+
+const pose = (joints: Joints): Keypoint[] => {
+  const keypoints: Keypoint[] = Array.from({ length: 17 }, () => [0, 0, 0]);
+  Object.entries(joints).forEach(([name, [x, y]]) => {
+    keypoints[KEYPOINT[name as keyof typeof KEYPOINT]] = [x, y, 0.9];
+  });
+  return keypoints;
+};
+
+// Facing the camera, 1.7 m figure about 340 px tall
+const standing = pose({
+  nose: [200, 60], leftShoulder: [230, 110], rightShoulder: [170, 110],
+  leftWrist: [240, 230], rightWrist: [160, 230],
+  leftHip: [220, 230], rightHip: [180, 230], leftKnee: [222, 320], rightKnee: [178, 320]
+});
+
+const armsRaised = pose({
+  nose: [200, 60], leftShoulder: [230, 110], rightShoulder: [170, 110],
+  leftWrist: [250, 20], rightWrist: [150, 20],
+  leftHip: [220, 230], rightHip: [180, 230], leftKnee: [222, 320], rightKnee: [178, 320]
+});
+
+// Side on, thighs horizontal
+const sitting = pose({
+  nose: [200, 60], leftShoulder: [205, 110], rightShoulder: [195, 110],
+  leftHip: [200, 230], rightHip: [200, 230], leftKnee: [290, 240], rightKnee: [285, 235]
+});
+
+const lying = pose({
+  nose: [60, 300], leftShoulder: [110, 290], rightShoulder: [110, 320],
+  leftHip: [230, 295], rightHip: [230, 318], leftKnee: [320, 300], rightKnee: [320, 315]
+});
+
+describe('classifyPosture', () => {
+  it('reads standing, sitting, lying and raised arms from joint angles', () => {
+    expect(classifyPosture(standing)).toBe('STANDING');
+    expect(classifyPosture(armsRaised)).toBe('ARMS_RAISED');
+    expect(classifyPosture(sitting)).toBe('SITTING');
+    expect(classifyPosture(lying)).toBe('LYING');
+  });
+
+  it('treats thighs pointing at the camera as sitting', () => {
+    const facing = pose({
+      leftShoulder: [230, 110], rightShoulder: [170, 110],
+      leftHip: [220, 230], rightHip: [180, 230], leftKnee: [224, 260], rightKnee: [176, 260]
+    });
+    expect(classifyPosture(facing)).toBe('SITTING');
+  });
+
+  it('gives no answer for an upper body alone', () => {
+    const bust = pose({ nose: [200, 60], leftShoulder: [230, 110], rightShoulder: [170, 110] });
+    expect(classifyPosture(bust)).toBeUndefined();
+  });
+});
+
+describe('PostureMonitor', () => {
+  const feed = (monitor: PostureMonitor, postures: Posture[], start: number, step: number) =>
+    postures.map((p, i) => monitor.update(1, p, start + i * step));
+
+  it('ignores single-frame flickers', () => {
+    const monitor = new PostureMonitor();
+    const out = feed(monitor, ['STANDING', 'STANDING', 'STANDING', 'SITTING', 'STANDING', 'STANDING'], 0, 100);
+    expect(out[out.length - 1]).toBe('STANDING');
+    expect(out).not.toContain('SITTING');
+  });
+
+  it('flags a quick drop from upright to lying as a fall', () => {
+    const monitor = new PostureMonitor();
+    feed(monitor, ['STANDING', 'STANDING', 'STANDING', 'STANDING'], 0, 100);
+    const out = feed(monitor, ['LYING', 'LYING', 'LYING', 'LYING', 'LYING', 'LYING'], 400, 100);
+    expect(out[out.length - 1]).toBe('FALLEN');
+    // Still down later: the alarm state holds
+    expect(monitor.update(1, 'LYING', 5000)).toBe('FALLEN');
+  });
+
+  it('does not flag lying down slowly through sitting', () => {
+    const monitor = new PostureMonitor();
+    feed(monitor, ['STANDING', 'STANDING', 'STANDING'], 0, 100);
+    feed(monitor, Array(30).fill('SITTING'), 300, 100);
+    const out = feed(monitor, Array(5).fill('LYING'), 3300, 100);
+    expect(out[out.length - 1]).toBe('LYING');
+  });
+
+  it('keeps the last posture through frames without a pose', () => {
+    const monitor = new PostureMonitor();
+    feed(monitor, ['SITTING', 'SITTING', 'SITTING'], 0, 100);
+    expect(monitor.update(1, undefined, 400)).toBe('SITTING');
+    monitor.forget(1);
+    expect(monitor.get(1)).toBeUndefined();
+  });
+});
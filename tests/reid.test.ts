@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { ReIdGallery, similarity } from '../utils/ReIdGallery';
+
+// Two-region signatures as the worker produces them: each half sums to 0.5
+const signature = (upperBin: number, lowerBin: number, bins = 15) => {
+  const v = new Array(bins * 2).fill(0.01 / bins);
+  v[upperBin] += 0.49;
+  v[bins + lowerBin] += 0.49;
+  return v;
+};
+
+const redShirt = signature(0, 13);
+const blueShirt = signature(8, 13);
+
+describe('similarity', () => {
+  it('is 1 for identical signatures and low for different clothing', () => {
+    expect(similarity(redShirt, redShirt)).toBeCloseTo(1, 5);
+    expect(similarity(redShirt, blueShirt)).toBeLessThan(0.7);
+    expect(similarity(redShirt, [1, 2])).toBe(0);
+  });
+});
+
+describe('ReIdGallery', () => {
+  it('hands a retired identity back to a returning object of the same class', () => {
+    const gallery = new ReIdGallery();
+    gallery.observe(4, 'person', redShirt, 0);
+    gallery.observe(5, 'person', blueShirt, 0);
+    gallery.retire(4, 1000);
+    gallery.retire(5, 1000);
+
+    expect(gallery.match('person', redShirt, 5000)?.id).toBe(4);
+    expect(gallery.match('person', blueShirt, 5000)?.id).toBe(5);
+    expect(gallery.get(4)?.sightings).toBe(2);
+  });
+
+  it('does not match live identities, other classes or unlike appearances', () => {
+    const gallery = new ReIdGallery();
+    gallery.observe(1, 'person', redShirt, 0);
+    expect(gallery.match('person', redShirt, 100)).toBeUndefined();
+
+    gallery.retire(1, 200);
+    expect(gallery.match('dog', redShirt, 300)).toBeUndefined();
+    expect(gallery.match('person', blueShirt, 300)).toBeUndefined();
+    expect(gallery.match('person', undefined, 300)).toBeUndefined();
+
+    // Claiming an identity makes it live again
+    expect(gallery.match('person', redShirt, 300)?.id).toBe(1);
+    expect(gallery.match('person', redShirt, 400)).toBeUndefined();
+  });
+
+  it('expires old identities and caps the gallery size', () => {
+    const gallery = new ReIdGallery({ maxSize: 2, expiryMs: 10000 });
+    [1, 2, 3].forEach(id => {
+      gallery.observe(id, 'person', signature(id, 13), id * 100);
+      gallery.retire(id, id * 100);
+    });
+    expect(gallery.size()).toBe(2);
+    expect(gallery.get(1)).toBeUndefined(); // Stalest one evicted
+
+    expect(gallery.match('person', signature(3, 13), 20000)).toBeUndefined();
+    expect(gallery.size()).toBe(0);
+  });
+
+  it('applies new limits from the next retirement', () => {
+    const gallery = new ReIdGallery({ expiryMs: 10000 });
+    [1, 2, 3].forEach(id => {
+      gallery.observe(id, 'person', signature(id, 13), 0);
+      gallery.retire(id, id * 100);
+    });
+    gallery.configure({ maxSize: 1, expiryMs: 60000 });
+    gallery.observe(4, 'person', signature(4, 13), 400);
+    gallery.retire(4, 30000);
+    expect(gallery.size()).toBe(1);
+    expect(gallery.get(4)).toBeDefined();
+  });
+});
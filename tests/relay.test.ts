@@ -0,0 +1,457 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { AddressInfo } from 'net';
+import { WebSocket, WebSocketServer } from 'ws';
+import { NetworkPacket, NetworkPacketType } from '../types';
+import { RelayServer } from '../server/RelayServer';
+import { NetworkService } from '../utils/NetworkService';
+
+// Resolves once check() passes; relay traffic is real, so poll instead of counting ticks
+const until = async (check: () => boolean, timeout = 2000) => {
+  const deadline = Date.now() + timeout;
+  while (!check()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for the relay');
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+};
+
+// A bare socket speaking the relay protocol, keeping everything it receives
+class Unit {
+  public received: NetworkPacket[] = [];
+  public closeCode: number | null = null;
+  private socket: WebSocket;
+  private opened: Promise<void>;
+
+  constructor(url: string, public userId: string) {
+    this.socket = new WebSocket(url);
+    this.opened = new Promise(resolve => this.socket.on('open', () => resolve()));
+    this.socket.on('message', (data, isBinary) => !isBinary && this.received.push(JSON.parse(data.toString())));
+    this.socket.on('close', code => this.closeCode = code);
+  }
+
+  public async send(type: NetworkPacketType, payload: any = {}, extra: Partial<NetworkPacket> = {}) {
+    await this.opened;
+    this.socket.send(JSON.stringify({ type, userId: this.userId, payload, timestamp: Date.now(), ...extra }));
+  }
+
+  public async join(room = 'alpha', extra: any = {}) {
+    await this.send('HANDSHAKE', { name: this.userId, room, ...extra });
+  }
+
+  public async next(match: (p: NetworkPacket) => boolean): Promise<NetworkPacket> {
+    await until(() => this.received.some(match));
+    return this.received.find(match)!;
+  }
+
+  public has(match: (p: NetworkPacket) => boolean) {
+    return this.received.some(match);
+  }
+
+  public close() {
+    this.socket.close();
+  }
+}
+
+const from = (type: NetworkPacketType, userId: string) => (p: NetworkPacket) => p.type === type && p.userId === userId;
+const markState = (p: NetworkPacket) => p.type === 'MARK' && p.payload.action === 'state';
+const latestMarks = (unit: Unit) => unit.received.filter(markState).pop()?.payload.marks.map((m: any) => m.key);
+
+let relay: RelayServer;
+let url: string;
+let opened: Unit[];
+
+const startRelay = async (token?: string) => {
+  relay = new RelayServer({ port: 0, host: '127.0.0.1', token });
+  url = `ws://127.0.0.1:${await relay.start()}`;
+};
+
+const unit = (userId: string) => {
+  const u = new Unit(url, userId);
+  opened.push(u);
+  return u;
+};
+
+beforeEach(() => {
+  opened = [];
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  opened.forEach(u => u.close());
+  relay?.stop();
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('RelayServer', () => {
+  beforeEach(() => startRelay());
+
+  it('introduces room members to each other and keeps rooms apart', async () => {
+    const a = unit('A'), b = unit('B'), c = unit('C');
+    await a.join();
+    await c.join('bravo');
+    await b.join();
+
+    // Whoever joined first, each side hears of the other, either live or replayed
+    expect((await b.next(from('HANDSHAKE', 'A'))).payload).toMatchObject({ name: 'A', room: 'alpha' });
+    expect((await a.next(from('HANDSHAKE', 'B'))).payload.room).toBe('alpha');
+
+    await c.send('CHAT', { text: 'bravo', to: null });
+    await b.send('CHAT', { text: 'alpha', to: null });
+    await a.next(from('CHAT', 'B'));
+    expect(a.has(from('HANDSHAKE', 'C')) || a.has(from('CHAT', 'C'))).toBe(false);
+    expect(c.received.filter(p => p.type !== 'ACK')).toEqual([]);
+  });
+
+  it('stamps the sender id and delivers directed packets to their recipient only', async () => {
+    const a = unit('A'), b = unit('B'), c = unit('C');
+    await a.join();
+    await b.join();
+    await c.join();
+    await a.next(from('HANDSHAKE', 'B'));
+    await a.next(from('HANDSHAKE', 'C'));
+
+    await a.send('CHAT', { text: 'dm', to: 'B' }, { userId: 'C' });
+    await a.send('CHAT', { text: 'all', to: null });
+    expect((await b.next(p => p.type === 'CHAT' && p.payload.text === 'dm')).userId).toBe('A');
+    await c.next(p => p.type === 'CHAT' && p.payload.text === 'all'); // Sent after the DM, on the same socket
+    expect(c.has(p => p.type === 'CHAT' && p.payload.text === 'dm')).toBe(false);
+  });
+
+  it('relays nothing before the handshake', async () => {
+    const a = unit('A'), b = unit('B');
+    await a.join();
+    await b.send('CHAT', { text: 'early', to: null });
+    await b.join();
+    await a.next(from('HANDSHAKE', 'B'));
+    expect(a.has(p => p.type === 'CHAT')).toBe(false);
+  });
+
+  it('announces departures on LEAVE and on a dropped socket', async () => {
+    const a = unit('A'), b = unit('B'), c = unit('C');
+    await a.join();
+    await b.join();
+    await c.join();
+    await a.next(from('HANDSHAKE', 'C'));
+
+    await b.send('LEAVE', { reason: 'disconnect' });
+    await a.next(from('LEAVE', 'B'));
+    c.close();
+    await a.next(from('LEAVE', 'C'));
+  });
+
+  it('acks reliable packets with their sequence number', async () => {
+    const a = unit('A');
+    await a.join();
+    await a.send('CHAT', { text: 'hi', to: null }, { seq: 7 });
+    expect((await a.next(p => p.type === 'ACK')).payload).toEqual({ seq: 7 });
+  });
+
+  it('arbitrates target marks: one holder per target, one target per designator', async () => {
+    const a = unit('A'), b = unit('B');
+    await a.join();
+    await b.join();
+    await a.next(from('HANDSHAKE', 'B'));
+
+    await a.send('MARK', { action: 'claim', ownerId: 'B', objectId: 1, class: 'person' });
+    await until(() => latestMarks(b)?.length === 1);
+    expect(b.received.filter(markState).pop()!.payload.marks[0]).toMatchObject({ key: 'B:1', designatorId: 'A', designatorName: 'A', class: 'person' });
+
+    await b.send('MARK', { action: 'claim', ownerId: 'B', objectId: 1, class: 'person' });
+    expect((await b.next(p => p.type === 'MARK' && p.payload.action === 'denied')).payload.key).toBe('B:1');
+
+    await a.send('MARK', { action: 'claim', ownerId: 'B', objectId: 2, class: 'car' });
+    await until(() => latestMarks(b)?.[0] === 'B:2');
+    expect(latestMarks(b)).toEqual(['B:2']);
+
+    // A late joiner gets the current marks; a departing designator's marks are released
+    const c = unit('C');
+    await c.join();
+    await until(() => latestMarks(c)?.[0] === 'B:2');
+    a.close();
+    await until(() => latestMarks(b)?.length === 0);
+  });
+
+  it('lets a target owner release a mark held by someone else', async () => {
+    const a = unit('A'), b = unit('B');
+    await a.join();
+    await b.join();
+    await a.next(from('HANDSHAKE', 'B'));
+    await a.send('MARK', { action: 'claim', ownerId: 'B', objectId: 1, class: 'person' });
+    await until(() => latestMarks(a)?.length === 1);
+    await b.send('MARK', { action: 'release', key: 'B:1' });
+    await until(() => latestMarks(a)?.length === 0);
+  });
+});
+
+describe('RelayServer unit ids', () => {
+  it('keeps a live unit\'s id from another connection', async () => {
+    await startRelay();
+    const a = unit('A'), b = unit('B');
+    await a.join();
+    await b.join();
+    await b.next(from('HANDSHAKE', 'A'));
+
+    const impostor = unit('A');
+    await impostor.join();
+    await until(() => impostor.closeCode !== null);
+    expect(impostor.closeCode).toBe(4002);
+    await b.send('CHAT', { text: 'still there?', to: null });
+    await a.next(from('CHAT', 'B'));
+    expect(a.closeCode).toBeNull();
+    expect(b.has(from('LEAVE', 'A'))).toBe(false);
+  });
+
+  it('hands the id to a reconnect once the old link missed a heartbeat', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    await startRelay();
+    const a = unit('A'), b = unit('B');
+    await a.join();
+    await b.join();
+    await b.next(from('HANDSHAKE', 'A'));
+
+    vi.advanceTimersByTime(8000);
+    b.received = [];
+    const back = unit('A');
+    await back.join();
+    await b.next(from('HANDSHAKE', 'A'));
+    await until(() => a.closeCode !== null);
+    expect(back.closeCode).toBeNull();
+    expect(b.has(from('LEAVE', 'A'))).toBe(false);
+  });
+});
+
+describe('RelayServer join token', () => {
+  it('closes with 4001 on a wrong token and keeps the token from peers', async () => {
+    await startRelay('secret');
+    const a = unit('A'), b = unit('B');
+    await a.join('alpha', { token: 'secret' });
+    await b.join('alpha', { token: 'guess' });
+    await until(() => b.closeCode !== null);
+    expect(b.closeCode).toBe(4001);
+
+    const c = unit('C');
+    await c.join('alpha', { token: 'secret' });
+    const seen = await a.next(from('HANDSHAKE', 'C'));
+    expect(seen.payload.token).toBeUndefined();
+    expect(a.has(from('HANDSHAKE', 'B'))).toBe(false);
+  });
+});
+
+describe('RelayServer sweep', () => {
+  it('drops units that stop talking and tells the room', async () => {
+    vi.useFakeTimers({ toFake: ['setInterval', 'Date'] });
+    await startRelay();
+    const a = unit('A'), b = unit('B');
+    await a.join();
+    await b.join();
+    await a.next(from('HANDSHAKE', 'B'));
+
+    vi.advanceTimersByTime(10000);
+    await a.send('HEARTBEAT', { status: 'online' });
+    await new Promise(resolve => setTimeout(resolve, 50)); // The heartbeat reaches the relay
+    vi.advanceTimersByTime(10000);
+
+    await a.next(from('LEAVE', 'B'));
+    await until(() => b.closeCode !== null);
+    expect(a.closeCode).toBeNull();
+  });
+});
+
+// Two services on the live relay: what NetworkService builds on top of it
+describe('NetworkService over the relay', () => {
+  let services: NetworkService[];
+
+  beforeEach(async () => {
+    vi.stubGlobal('WebSocket', WebSocket);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    services = [];
+    await startRelay();
+  });
+
+  afterEach(() => {
+    services.forEach(s => s.disconnect());
+    vi.unstubAllGlobals();
+  });
+
+  const service = (name: string, relayUrl = url) => {
+    let net = new NetworkService(relayUrl, { maxRetries: 0 });
+    // Ids are random, keep them apart within one test
+    while (services.some(s => s.getUserId() === net.getUserId())) net = new NetworkService(relayUrl, { maxRetries: 0 });
+    net.setName(name);
+    net.setRoom('alpha');
+    services.push(net);
+    return net;
+  };
+
+  const events = (net: NetworkService, type: string) => {
+    const seen: any[] = [];
+    net.on((t, data) => t === type && seen.push(data));
+    return seen;
+  };
+
+  const online = async (...nets: NetworkService[]) => {
+    nets.forEach(n => n.connect());
+    await until(() => nets.every(n => n.connectedUsers.filter(u => u.status === 'online').length === nets.length - 1));
+  };
+
+  it('keeps a roster from handshakes and drops a unit that disconnects', async () => {
+    const a = service('ALPHA'), b = service('BRAVO');
+    await online(a, b);
+    expect(a.connectedUsers[0]).toMatchObject({ id: b.getUserId(), name: 'BRAVO', status: 'online' });
+
+    b.disconnect();
+    await until(() => a.connectedUsers.length === 0);
+  });
+
+  it('delivers chat to the room and direct messages to their recipient', async () => {
+    const a = service('ALPHA'), b = service('BRAVO'), c = service('CHARLIE');
+    const toB = events(b, 'CHAT'), toC = events(c, 'CHAT');
+    await online(a, b, c);
+
+    a.sendChat('all units');
+    a.sendChat('bravo only', b.getUserId());
+    await until(() => toB.length === 2 && toC.length === 1);
+    expect(toB.map(m => m.message.text)).toEqual(['all units', 'bravo only']);
+    expect(toB[0]).toMatchObject({ userId: a.getUserId(), name: 'ALPHA' });
+    expect(toC.map(m => m.message.text)).toEqual(['all units']);
+  });
+
+  it('queues reliable packets while offline and sends them once the link is up', async () => {
+    const a = service('ALPHA'), b = service('BRAVO');
+    const toB = events(b, 'CHAT');
+    b.connect();
+    a.sendChat('queued');
+    expect(a.getPendingCount()).toBe(1);
+
+    await online(a, b);
+    await until(() => toB.length === 1 && a.getPendingCount() === 0);
+    expect(toB[0].message.text).toBe('queued');
+  });
+
+  it('drops retransmitted duplicates by sequence number', async () => {
+    const b = service('BRAVO');
+    const toB = events(b, 'CHAT');
+    b.connect();
+    const a = unit('A');
+    await a.join();
+    await until(() => b.connectedUsers.length === 1);
+    await a.send('CHAT', { text: 'once', to: null }, { seq: 1 });
+    await a.send('CHAT', { text: 'once', to: null }, { seq: 1 });
+    await a.send('CHAT', { text: 'twice', to: null }, { seq: 2 });
+    await until(() => toB.some(m => m.message.text === 'twice'));
+    expect(toB.map(m => m.message.text)).toEqual(['once', 'twice']);
+  });
+
+  it('shares marks and reports a denied claim', async () => {
+    const a = service('ALPHA'), b = service('BRAVO');
+    const denied = events(b, 'MARK_DENIED');
+    await online(a, b);
+
+    a.claimMark(b.getUserId(), 4, 'person');
+    await until(() => b.marks.length === 1);
+    expect(b.marks[0]).toMatchObject({ designatorId: a.getUserId(), designatorName: 'ALPHA', objectId: 4 });
+    expect(a.getOwnMark()?.key).toBe(`${b.getUserId()}:4`);
+
+    b.claimMark(b.getUserId(), 4, 'person');
+    await until(() => denied.length === 1);
+    expect(denied[0].holder).toBe('ALPHA');
+  });
+
+  it('answers clock pings with its receive and send times', async () => {
+    const b = service('BRAVO');
+    b.connect();
+    const a = unit('A');
+    await a.join();
+    await until(() => b.connectedUsers.length === 1);
+    const t0 = Date.now();
+    await a.send('PING', { to: b.getUserId(), t0 });
+    const pong = await a.next(from('PONG', b.getUserId()));
+    expect(pong.payload).toMatchObject({ to: 'A', t0 });
+    expect(pong.payload.t2).toBeGreaterThanOrEqual(pong.payload.t1);
+  });
+
+  it('sends nothing recorded to the squad while replaying', async () => {
+    const a = service('ALPHA');
+    a.connect();
+    const b = unit('B');
+    await b.join();
+    await until(() => a.connectedUsers.length === 1);
+    const person = { id: 1, class: 'person', confidence: 0.9, bbox: [0, 0, 10, 20] as [number, number, number, number], position3D: { x: 0, y: 0, z: -3 }, distance: 3, lastSeen: 0 };
+
+    a.setReplaying(true);
+    a.sendTelemetry([person]);
+    a.sendPose({ orientation: [0, 0, 0, 1], headingSource: 'compass', timestamp: 0 });
+    a.claimMark('B', 1, 'person');
+    a.releaseMark('B:1');
+    a.setReplaying(false);
+    a.sendTelemetry([{ ...person, id: 2 }]);
+
+    // Same socket, so anything sent while replaying would have arrived first
+    await b.next(p => p.type === 'TELEMETRY');
+    expect(b.received.filter(p => p.type === 'TELEMETRY').map(p => p.payload[0].id)).toEqual([2]);
+    expect(b.has(p => p.type === 'POSE' || p.type === 'MARK')).toBe(false);
+    expect(a.getPendingCount()).toBe(0);
+  });
+
+  it('re-pins the room after a squad key change without anyone rejoining', async () => {
+    const a = service('ALPHA'), b = service('BRAVO');
+    [a, b].forEach(n => n.configureSecurity({ squadKey: 'red fox' }));
+    await online(a, b);
+
+    a.configureSecurity({ squadKey: 'blue fox' });
+    b.configureSecurity({ squadKey: 'blue fox' });
+    const toA = events(a, 'CHAT'), toB = events(b, 'CHAT');
+    await until(() => a.connectedUsers.some(u => u.status === 'online') && b.connectedUsers.some(u => u.status === 'online'));
+    a.sendChat('alpha on blue');
+    b.sendChat('bravo on blue');
+    await until(() => toA.length === 1 && toB.length === 1);
+  });
+
+  describe('with a squad key', () => {
+    let hostile: WebSocketServer;
+    let history: string[];
+
+    // Forwards everything and, like the real relay, hands a newcomer what came before once it has
+    // introduced itself; keeps copies to replay
+    beforeEach(async () => {
+      history = [];
+      hostile = new WebSocketServer({ port: 0, host: '127.0.0.1' });
+      hostile.on('connection', socket => {
+        let introduced = false;
+        socket.on('message', (data, isBinary) => {
+          if (isBinary) return;
+          if (!introduced) history.forEach(raw => socket.send(raw));
+          introduced = true;
+          history.push(data.toString());
+          hostile.clients.forEach(other => other !== socket && other.send(data.toString()));
+        });
+      });
+      await new Promise(resolve => hostile.on('listening', resolve));
+    });
+
+    afterEach(() => {
+      hostile.clients.forEach(socket => socket.terminate());
+      hostile.close();
+    });
+
+    it('rejects a sealed packet the relay replays, even under a new sequence number', async () => {
+      const hostileUrl = `ws://127.0.0.1:${(hostile.address() as AddressInfo).port}`;
+      const a = service('ALPHA', hostileUrl), b = service('BRAVO', hostileUrl);
+      [a, b].forEach(n => n.configureSecurity({ squadKey: 'red fox' }));
+      const toB = events(b, 'CHAT'), rejected = events(b, 'SECURITY');
+      a.connect();
+      await until(() => history.length === 1); // A's handshake, sealed
+      await online(b, a);
+
+      a.sendChat('move north');
+      await until(() => toB.length === 1);
+      const packet: NetworkPacket = JSON.parse(history.find(raw => JSON.parse(raw).type === 'CHAT')!);
+      expect(JSON.stringify(packet)).not.toContain('move north');
+      hostile.clients.forEach(socket => socket.send(JSON.stringify({ ...packet, seq: packet.seq! + 1000 })));
+
+      await until(() => rejected.length === 1);
+      expect(rejected[0]).toContain('ПОВТОРНЫЙ ПАКЕТ');
+      expect(toB).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { LogEntry, SessionEvent } from '../types';
+import { SessionTimeline, sessionTimeAt, sessionTimeOf } from '../utils/sessionReplay';
+
+const log = (t: number, message: string, type: LogEntry['type'] = 'sys'): SessionEvent =>
+  ({ t, kind: 'log', data: { id: t, time: '', type, message } });
+
+const predictions = (t: number): SessionEvent =>
+  ({ t, kind: 'predictions', data: { predictions: [{ class: 'person', score: 0.9, bbox: [t, 0, 10, 20] }], scaleFactor: 2 } });
+
+describe('SessionTimeline', () => {
+  it('hands out each prediction batch exactly once when stepped forward', () => {
+    const timeline = new SessionTimeline([predictions(300), predictions(100), predictions(200), predictions(200)]);
+    const steps = [[-1, 150], [150, 200], [200, 250], [250, 1000]].map(([from, to]) => timeline.predictionsBetween(from, to).map(e => e.t));
+    expect(steps).toEqual([[100], [200, 200], [], [300]]);
+  });
+
+  it('rebuilds the HUD state at any time, independent of how it got there', () => {
+    const events = Array.from({ length: 30 }, (_, i) => log(i * 100, `L${i}`));
+    events.push({ t: 50, kind: 'transcript', data: { id: 1, text: 'early', timestamp: 0 } });
+    events.push({ t: 40000, kind: 'transcript', data: { id: 2, text: 'late', timestamp: 0 } });
+    const timeline = new SessionTimeline(events);
+
+    const logs = timeline.logsAt(2500);
+    expect(logs.length).toBe(20);
+    expect(logs[0].message).toBe('L6');
+    expect(logs[19].message).toBe('L25');
+    expect(timeline.logsAt(-1)).toEqual([]);
+
+    expect(timeline.transcriptsAt(1000).map(t => t.text)).toEqual(['early']);
+    expect(timeline.transcriptsAt(40000).map(t => t.text)).toEqual(['late']); // 'early' expired like it did live
+  });
+
+  it('returns the latest object snapshot and marks tool calls and actions', () => {
+    const person = { id: 1, class: 'person', confidence: 1, bbox: [0, 0, 1, 1] as [number, number, number, number], position3D: { x: 0, y: 0, z: -3 }, distance: 3, lastSeen: 0 };
+    const timeline = new SessionTimeline([
+      { t: 100, kind: 'objects', data: { local: [], remote: [] } },
+      { t: 200, kind: 'objects', data: { local: [person], remote: [] } },
+      { t: 150, kind: 'tool', data: { name: 'selectTarget', args: { targetType: 'person' } } },
+      log(180, 'ЗАХВАТ ЦЕЛИ: PERSON', 'action'),
+      log(190, 'СЦЕНА ОБНОВЛЕНА', 'deduction')
+    ], 5000);
+    expect(timeline.objectsAt(50)).toBeNull();
+    expect(timeline.objectsAt(199)?.local).toEqual([]);
+    expect(timeline.objectsAt(250)?.local[0].id).toBe(1);
+    expect(timeline.markers().map(m => [m.t, m.kind])).toEqual([[150, 'tool'], [180, 'action']]);
+    expect(timeline.duration).toBe(5000);
+  });
+
+  it('maps video time and recorded wall-clock stamps onto the session clock', () => {
+    expect(sessionTimeAt({ id: 'a', name: '', startedAt: 0, duration: 0, eventCount: 0, videoOffset: 120 }, 2.5)).toBe(2620);
+    expect(sessionTimeOf({ id: 'a', name: '', startedAt: 1700000000000, duration: 0, eventCount: 0, videoOffset: 120 }, 1700000004200)).toBe(4200);
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import {
+  SealedPayload, deriveSquadKey, generateSigningKeys, exportPublicKey, importPublicKey,
+  sealPayload, openPayload, verifyPayload, sealFrame, openFrame, isSealedFrame
+} from '../utils/squadCrypto';
+
+// Flips one bit of a base64 field
+const flip = (value: string, index = 0) => {
+  const bytes = Uint8Array.from(atob(value), c => c.charCodeAt(0));
+  bytes[index] ^= 1;
+  return btoa(String.fromCharCode(...bytes));
+};
+
+const bufferOf = (bytes: Uint8Array) => bytes.slice().buffer;
+
+let squadKey: CryptoKey;
+let otherSquadKey: CryptoKey;
+let signer: CryptoKeyPair;
+let publicKey: CryptoKey; // As a peer pins it, from the exported form
+let otherSigner: CryptoKeyPair;
+
+beforeAll(async () => {
+  [squadKey, otherSquadKey, signer, otherSigner] = await Promise.all([
+    deriveSquadKey('red fox'), deriveSquadKey('blue fox'), generateSigningKeys(), generateSigningKeys()
+  ]);
+  publicKey = await importPublicKey(await exportPublicKey(signer.publicKey));
+});
+
+describe('sealed payloads', () => {
+  const body = { payload: { text: 'contact north', to: null }, timestamp: 1234 };
+  let sealed: SealedPayload;
+
+  beforeAll(async () => {
+    sealed = await sealPayload(squadKey, signer.privateKey, 'CHAT', 'UNIT-101', 7, body);
+  });
+
+  it('round-trips body and counter under the squad key and verifies against the sender key', async () => {
+    expect(JSON.stringify(sealed)).not.toContain('contact north');
+    expect(await openPayload(squadKey, 'CHAT', 'UNIT-101', sealed)).toEqual({ counter: 7, body });
+    expect(await verifyPayload(publicKey, 'CHAT', 'UNIT-101', sealed)).toBe(true);
+  });
+
+  it('opens to null under another squad key', async () => {
+    expect(await openPayload(otherSquadKey, 'CHAT', 'UNIT-101', sealed)).toBeNull();
+  });
+
+  it('rejects tampered ciphertext and signatures', async () => {
+    const tampered = { ...sealed, data: flip(sealed.data, 3) };
+    expect(await openPayload(squadKey, 'CHAT', 'UNIT-101', tampered)).toBeNull();
+    expect(await verifyPayload(publicKey, 'CHAT', 'UNIT-101', tampered)).toBe(false);
+    expect(await verifyPayload(publicKey, 'CHAT', 'UNIT-101', { ...sealed, sig: flip(sealed.sig, 10) })).toBe(false);
+    expect(await verifyPayload(otherSigner.publicKey, 'CHAT', 'UNIT-101', sealed)).toBe(false);
+  });
+
+  it('is bound to the packet type and sender the relay reports', async () => {
+    expect(await openPayload(squadKey, 'MARK', 'UNIT-101', sealed)).toBeNull();
+    expect(await openPayload(squadKey, 'CHAT', 'UNIT-102', sealed)).toBeNull();
+    expect(await verifyPayload(publicKey, 'MARK', 'UNIT-101', sealed)).toBe(false);
+    expect(await verifyPayload(publicKey, 'CHAT', 'UNIT-102', sealed)).toBe(false);
+  });
+});
+
+describe('sealed frames', () => {
+  const frame = new Uint8Array([0xB1, 2, 3, 4, 5, 6, 7, 8]);
+  let sealed: Uint8Array;
+
+  beforeAll(async () => {
+    sealed = await sealFrame(squadKey, signer.privateKey, 'UNIT-101', 0x01020304, frame);
+  });
+
+  it('round-trips a binary frame and its counter', async () => {
+    expect(isSealedFrame(bufferOf(sealed))).toBe(true);
+    expect(isSealedFrame(bufferOf(frame))).toBe(false);
+    const opened = await openFrame(squadKey, publicKey, 'UNIT-101', bufferOf(sealed));
+    expect(opened!.counter).toBe(0x01020304);
+    expect(new Uint8Array(opened!.body)).toEqual(frame);
+  });
+
+  it('opens to null under another squad key or signer', async () => {
+    expect(await openFrame(otherSquadKey, publicKey, 'UNIT-101', bufferOf(sealed))).toBeNull();
+    expect(await openFrame(squadKey, otherSigner.publicKey, 'UNIT-101', bufferOf(sealed))).toBeNull();
+  });
+
+  it('rejects a flipped bit anywhere after the magic byte', async () => {
+    for (const index of [1, 20, sealed.length - 1]) { // iv, signature, ciphertext
+      const tampered = sealed.slice();
+      tampered[index] ^= 1;
+      expect(await openFrame(squadKey, publicKey, 'UNIT-101', bufferOf(tampered))).toBeNull();
+    }
+    expect(await openFrame(squadKey, publicKey, 'UNIT-101', bufferOf(sealed.slice(0, 40)))).toBeNull();
+  });
+
+  it('is bound to the sender the relay stamped', async () => {
+    expect(await openFrame(squadKey, publicKey, 'UNIT-102', bufferOf(sealed))).toBeNull();
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { TrackedObject } from '../types';
+import { encodeTelemetry, decodeTelemetry, canEncodeBinary, wrapWithSender, unwrapSender } from '../utils/telemetryCodec';
+
+const object = (id: number, cls: string, bbox: [number, number, number, number], extra: Partial<TrackedObject> = {}): TrackedObject =>
+  ({ id, class: cls, confidence: 0.8, bbox, position3D: { x: 1.25, y: -0.5, z: -4 }, distance: 4.2, lastSeen: 0, ...extra });
+
+const meta = (keyframeId: number, seq = 1) => ({ keyframeId, seq, timestamp: 1000 + seq });
+const noBase = () => undefined;
+
+describe('telemetry codec', () => {
+  it('round-trips a keyframe in fixed point', () => {
+    const objects = [
+      object(1, 'person', [10, 20, 30, 40], { gesture: 'POINTING', codeName: 'BRAVO', isSelected: true, depthSource: 'DEPTH_MODEL', scanProgress: 0.5 }),
+      object(2, 'cup', [1, 2, 3, 4])
+    ];
+    const frame = encodeTelemetry(objects, meta(7));
+    expect(frame.kind).toBe('keyframe');
+    const decoded = decodeTelemetry(frame.data, noBase)!;
+    expect(decoded).toMatchObject({ kind: 'keyframe', keyframeId: 7, seq: 1, timestamp: 1001 });
+    expect(decoded.objects[0]).toMatchObject({
+      id: 1, class: 'person', bbox: [10, 20, 30, 40], position3D: { x: 1.25, y: -0.5, z: -4 }, distance: 4.2,
+      gesture: 'POINTING', codeName: 'BRAVO', isSelected: true, depthSource: 'DEPTH_MODEL', lastSeen: 1001
+    });
+    expect(decoded.objects[0].confidence).toBeCloseTo(0.8, 2);
+    expect(decoded.objects[0].scanProgress).toBeCloseTo(0.5, 2);
+    expect(decoded.objects[1]).toMatchObject({ id: 2, class: 'cup', isSelected: false, depthSource: 'AI_ESTIMATE' });
+  });
+
+  it('applies a delta to the acked base: patches, additions and removals', () => {
+    const base = decodeTelemetry(encodeTelemetry([object(1, 'person', [10, 20, 30, 40]), object(2, 'cup', [1, 2, 3, 4])], meta(7)).data, noBase)!.objects;
+    const next = [object(1, 'person', [15, 20, 30, 400], { gesture: 'FIST' }), object(3, 'dog', [5, 5, 5, 5])];
+    const frame = encodeTelemetry(next, meta(7, 2), base);
+    expect(frame.kind).toBe('delta');
+
+    const decoded = decodeTelemetry(frame.data, id => (id === 7 ? base : undefined))!;
+    expect(decoded.kind).toBe('delta');
+    expect(decoded.objects.map(o => o.id)).toEqual([1, 3]);
+    expect(decoded.objects[0]).toMatchObject({ bbox: [15, 20, 30, 400], gesture: 'FIST' });
+    expect(decoded.objects[1]).toMatchObject({ class: 'dog', bbox: [5, 5, 5, 5] });
+  });
+
+  it('carries posture in keyframes and deltas', () => {
+    const standing = decodeTelemetry(encodeTelemetry([object(1, 'person', [0, 0, 10, 30], { posture: 'STANDING' }), object(2, 'cup', [0, 0, 1, 1])], meta(7)).data, noBase)!.objects;
+    expect(standing.map(o => o.posture)).toEqual(['STANDING', undefined]);
+
+    const fallen = encodeTelemetry([object(1, 'person', [0, 20, 30, 10], { posture: 'FALLEN' }), object(2, 'cup', [0, 0, 1, 1], { posture: 'SITTING' })], meta(7, 2), standing);
+    expect(decodeTelemetry(fallen.data, () => standing)!.objects.map(o => o.posture)).toEqual(['FALLEN', 'SITTING']);
+    const cleared = encodeTelemetry([object(1, 'person', [0, 0, 10, 30])], meta(7, 3), standing);
+    expect(decodeTelemetry(cleared.data, () => standing)!.objects[0].posture).toBeUndefined();
+  });
+
+  it('sends small movements as single-byte steps', () => {
+    const base = [object(1, 'person', [100, 200, 30, 40]), object(2, 'cup', [1, 2, 3, 4])];
+    const moved = [object(1, 'person', [103, 198, 30, 41]), object(2, 'cup', [1, 2, 3, 4])];
+    const delta = encodeTelemetry(moved, meta(7, 2), base);
+    expect(delta.data.byteLength).toBeLessThan(encodeTelemetry(moved, meta(8, 2)).data.byteLength / 2);
+    expect(decodeTelemetry(delta.data, () => base)!.objects[0].bbox).toEqual([103, 198, 30, 41]);
+  });
+
+  it('drops deltas whose base is missing or evicted', () => {
+    const base = [object(1, 'person', [10, 20, 30, 40])];
+    const frame = encodeTelemetry([object(1, 'person', [12, 20, 30, 40])], meta(7, 2), base);
+    expect(decodeTelemetry(frame.data, noBase)).toBeNull();
+    // A base with another keyframe's objects under the same id cannot take the patch
+    expect(decodeTelemetry(frame.data, () => [object(9, 'car', [0, 0, 1, 1])])).toBeNull();
+  });
+
+  it('inlines classes and gestures outside the dictionaries', () => {
+    const objects = [object(1, 'drone', [0, 0, 10, 10], { gesture: 'SALUTE' }), object(2, 'x'.repeat(300), [0, 0, 1, 1])];
+    const decoded = decodeTelemetry(encodeTelemetry(objects, meta(1)).data, noBase)!;
+    expect(decoded.objects[0]).toMatchObject({ class: 'drone', gesture: 'SALUTE' });
+    expect(decoded.objects[1].class).toBe('x'.repeat(255)); // Strings are length-prefixed with a u8
+
+    const patched = encodeTelemetry([object(1, 'quadcopter', [0, 0, 10, 10], { gesture: 'SALUTE' })], meta(1, 2), decoded.objects);
+    expect(decodeTelemetry(patched.data, () => decoded.objects)!.objects[0].class).toBe('quadcopter');
+  });
+
+  it('falls back to a keyframe when the delta needs more than 255 records', () => {
+    const base = Array.from({ length: 200 }, (_, i) => object(i, 'person', [0, 0, 1, 1]));
+    const replaced = Array.from({ length: 200 }, (_, i) => object(1000 + i, 'person', [0, 0, 1, 1]));
+    const frame = encodeTelemetry(replaced, meta(7, 2), base);
+    expect(frame.kind).toBe('keyframe');
+    expect(decodeTelemetry(frame.data, noBase)!.objects).toHaveLength(200);
+  });
+
+  it('clamps boxes to the u16 range', () => {
+    const decoded = decodeTelemetry(encodeTelemetry([object(1, 'person', [-20, 70000, 12.6, 0xFFFF + 1])], meta(1)).data, noBase)!;
+    expect(decoded.objects[0].bbox).toEqual([0, 0xFFFF, 13, 0xFFFF]);
+  });
+
+  it('leaves string ids and oversized frames to JSON', () => {
+    expect(canEncodeBinary([object(1, 'person', [0, 0, 1, 1])])).toBe(true);
+    expect(canEncodeBinary([{ ...object(1, 'person', [0, 0, 1, 1]), id: 'tag' }])).toBe(false);
+    expect(canEncodeBinary(Array.from({ length: 256 }, (_, i) => object(i, 'person', [0, 0, 1, 1])))).toBe(false);
+  });
+
+  it('rejects corrupt frames and unwraps the relay envelope', () => {
+    const frame = new Uint8Array(encodeTelemetry([object(1, 'person', [0, 0, 1, 1])], meta(1)).data);
+    expect(decodeTelemetry(frame.slice(0, 20).buffer, noBase)).toBeNull();
+    const wrapped = unwrapSender(wrapWithSender('UNIT-123', frame).slice().buffer)!;
+    expect(wrapped.senderId).toBe('UNIT-123');
+    expect(decodeTelemetry(wrapped.frame, noBase)!.objects[0].id).toBe(1);
+  });
+});
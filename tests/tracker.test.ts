@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { MultiObjectTracker, Detection, Track, Box, iou } from '../utils/MultiObjectTracker';
+import { solveAssignment } from '../utils/hungarian';
+
+// Recorded worker output; `truth` labels which physical object each detection belongs to
+interface Fixture {
+  description: string;
+  frameInterval: number;
+  frames: { t: number; predictions: (Detection & { truth: string })[] }[];
+}
+
+const loadFixture = (name: string): Fixture =>
+  JSON.parse(readFileSync(new URL(`./fixtures/${name}.json`, import.meta.url), 'utf8'));
+
+const center = (b: Box) => [b[0] + b[2] / 2, b[1] + b[3] / 2];
+
+// Replays a fixture and records which track ids each truth label was reported under
+const replay = (fixture: Fixture, tracker = new MultiObjectTracker()) => {
+  const idsByTruth = new Map<string, Set<number>>();
+  fixture.frames.forEach(({ t, predictions }) => {
+    const { tracks } = tracker.update(predictions, t);
+    predictions.forEach(p => {
+      const [px, py] = center(p.bbox);
+      let best: Track | undefined;
+      let bestDist = Infinity;
+      tracks.filter(tr => tr.lastSeen === t && tr.class === p.class).forEach(tr => {
+        const [tx, ty] = center(tr.box);
+        const dist = Math.hypot(tx - px, ty - py);
+        if (dist < bestDist) { bestDist = dist; best = tr; }
+      });
+      if (!best || best.status !== 'confirmed') return;
+      if (!idsByTruth.has(p.truth)) idsByTruth.set(p.truth, new Set());
+      idsByTruth.get(p.truth)!.add(best.id);
+    });
+  });
+  return idsByTruth;
+};
+
+describe('solveAssignment', () => {
+  it('finds the minimum-cost matching rather than the greedy one', () => {
+    // Greedy would take (0,0)=1 and then be forced into (1,1)=10
+    expect(solveAssignment([[1, 2], [2, 10]])).toEqual([1, 0]);
+  });
+
+  it('handles rectangular matrices in both orientations', () => {
+    expect(solveAssignment([[5, 1, 9]])).toEqual([1]);
+    expect(solveAssignment([[5], [1], [9]])).toEqual([-1, 0, -1]);
+    expect(solveAssignment([])).toEqual([]);
+    expect(solveAssignment([[], []])).toEqual([-1, -1]);
+  });
+});
+
+describe('MultiObjectTracker', () => {
+  it('keeps identities through a crossing without swapping them', () => {
+    const ids = replay(loadFixture('crossing'));
+    expect(ids.get('A')?.size).toBe(1);
+    expect(ids.get('B')?.size).toBe(1);
+    expect([...ids.get('A')!][0]).not.toBe([...ids.get('B')!][0]);
+  });
+
+  it('follows an object that moves more than its own width per frame', () => {
+    const fixture = loadFixture('fast-motion');
+    const ids = replay(fixture);
+    expect(ids.get('A')?.size).toBe(1);
+
+    // The velocity estimate should have converged on ~1100 px/s
+    const tracker = new MultiObjectTracker();
+    fixture.frames.forEach(f => tracker.update(f.predictions, f.t));
+    const [track] = tracker.getTracks();
+    expect(track.velocity[0]).toBeGreaterThan(900);
+    expect(track.velocity[0]).toBeLessThan(1300);
+  });
+
+  it('re-acquires an occluded object under its old id and ignores one-frame ghosts', () => {
+    const ids = replay(loadFixture('occlusion'));
+    expect(ids.get('A')?.size).toBe(1);
+    expect(ids.get('C')?.size).toBe(1);
+    expect(ids.has('ghost')).toBe(false);
+  });
+
+  it('coasts a track hidden behind a nearer object for longer than maxLostMs', () => {
+    const fixture = loadFixture('walk-behind');
+    const ids = replay(fixture);
+    expect(ids.get('A')?.size).toBe(1);
+    expect(ids.get('B')?.size).toBe(1);
+
+    // Mid-gap, the far person is reported occluded rather than lost
+    const replayTo = new MultiObjectTracker();
+    fixture.frames.slice(0, 36).forEach(f => replayTo.update(f.predictions, f.t));
+    const hidden = replayTo.getTracks().find(t => t.box[3] < 320);
+    expect(hidden?.status).toBe('occluded');
+    expect(hidden!.box[0]).toBeGreaterThan(400); // Still walking behind the near person
+  });
+
+  it('keeps the full box height when only the top of an object is visible', () => {
+    const tracker = new MultiObjectTracker();
+    const person = (h: number): Detection => ({ class: 'person', score: 0.9, bbox: [300, 100, 100, h] });
+    const couch: Detection = { class: 'couch', score: 0.9, bbox: [200, 225, 400, 200] };
+    tracker.update([person(240)], 0);
+    tracker.update([person(240)], 100);
+    // The couch in front hides the legs: the box gets flatter than any standing person
+    const { tracks } = tracker.update([person(130), couch], 200);
+    const track = tracks.find(t => t.class === 'person')!;
+    expect(track.partial).toBe(true);
+    expect(track.box[3]).toBeGreaterThan(230);
+  });
+
+  it('reports lost tracks while coasting and drops them after maxLostMs', () => {
+    const tracker = new MultiObjectTracker({ maxLostMs: 300 });
+    const person: Detection = { class: 'person', score: 0.9, bbox: [100, 100, 80, 200] };
+    tracker.update([person], 0);
+    const [confirmed] = tracker.update([person], 100).tracks;
+    expect(confirmed.status).toBe('confirmed');
+
+    let update = tracker.update([], 200);
+    expect(update.tracks[0].status).toBe('lost');
+    update = tracker.update([], 500);
+    expect(update.removed).toEqual([confirmed.id]);
+    expect(update.tracks).toHaveLength(0);
+  });
+
+  it('never matches across classes', () => {
+    const tracker = new MultiObjectTracker({ confirmHits: 1 });
+    const [cup] = tracker.update([{ class: 'cup', score: 0.9, bbox: [100, 100, 50, 50] }], 0).tracks;
+    const { tracks } = tracker.update([{ class: 'bottle', score: 0.9, bbox: [100, 100, 50, 50] }], 100);
+    expect(tracks.find(t => t.class === 'bottle')?.id).not.toBe(cup.id);
+  });
+
+  it('extrapolates boxes between detector frames', () => {
+    const tracker = new MultiObjectTracker();
+    for (let i = 0; i < 10; i++) tracker.update([{ class: 'person', score: 0.9, bbox: [100 + i * 20, 100, 80, 200] }], i * 100);
+    const [track] = tracker.getTracks();
+    const ahead = tracker.boxAt(track.id, 950)!;
+    expect(ahead[0]).toBeGreaterThan(track.box[0] + 5);
+    expect(iou(ahead, track.box)).toBeGreaterThan(0.7);
+  });
+});
@@ -0,0 +1,23 @@
+import { describe, it, expect } from 'vitest';
+import { orderFrames, frameAt } from '../utils/videoSources';
+
+const file = (name: string, type = 'image/jpeg') => new File([''], name, { type });
+
+describe('image sequences', () => {
+  it('plays frames in natural file name order and skips non-images', () => {
+    const frames = orderFrames([file('frame_10.jpg'), file('notes.txt', 'text/plain'), file('frame_2.jpg'), file('frame_1.jpg'), file('thumbs.db', '')]);
+    expect(frames.map(f => f.name)).toEqual(['frame_1.jpg', 'frame_2.jpg', 'frame_10.jpg']);
+  });
+
+  it('recognises images by extension when the browser gives no type', () => {
+    expect(orderFrames([file('0002.PNG', ''), file('0001.webp', '')]).map(f => f.name)).toEqual(['0001.webp', '0002.PNG']);
+  });
+
+  it('maps a seek time to a frame within the sequence', () => {
+    expect(frameAt(0, 10, 50)).toBe(0);
+    expect(frameAt(1.25, 10, 50)).toBe(12);
+    expect(frameAt(0.3, 10, 50)).toBe(3); // 0.3 * 10 is 2.9999… in floating point
+    expect(frameAt(99, 10, 50)).toBe(49);
+    expect(frameAt(-1, 10, 50)).toBe(0);
+  });
+});
@@ -23,6 +23,11 @@ export interface Vector3 {
   z: number;
 }
 
+// Body (COCO, 17) or hand (MediaPipe, 21) keypoint in video pixels: [x, y, score]
+export type Keypoint = [number, number, number];
+
+export type Posture = 'STANDING' | 'SITTING' | 'LYING' | 'ARMS_RAISED' | 'FALLEN';
+
 export interface TrackedObject {
   id: string | number; 
   class: string; 
@@ -42,11 +47,23 @@ export interface TrackedObject {
   isOccluded?: boolean;
   isSelected?: boolean; // New field for active selection
   // Sensor Data
-  depthSource?: 'AI_ESTIMATE' | 'LIDAR_FUSION';
+  depthSource?: 'AI_ESTIMATE' | 'LIDAR_FUSION' | 'DEPTH_MODEL';
   // Gesture Data
   gesture?: string;
+  // Body Pose (people only)
+  posture?: Posture;
+  // Squad Designation
+  designator?: string; // Name of the unit that marked this target
+  designatorColor?: string;
 }
 
+// Hand motions recognised over time, on top of the static hand shapes in TrackedObject.gesture
+export type DynamicGesture = 'SWIPE LEFT' | 'SWIPE RIGHT' | 'PINCH'
+  | 'HOLD OPEN PALM' | 'HOLD FIST' | 'HOLD POINTING' | 'HOLD VICTORY' | 'HOLD THUMBS UP';
+
+// The systemControl commands, plus selecting the target a hand points at
+export type GestureAction = 'NONE' | 'SWITCH_CAMERA' | 'TOGGLE_VIEW' | 'RESET_ZOOM' | 'TOGGLE_LOGS' | 'CYCLE_ANALYSIS' | 'SELECT_POINTED';
+
 export interface AiAnnotation {
   id: string;
   x: number; // 0-1 center relative
@@ -74,6 +91,10 @@ export interface TranscriptItem {
   isAi?: boolean;
   timestamp: number;
   user?: string;
+  // Squad Chat Fields
+  color?: string; // Sender ConnectedUser.color
+  channel?: ChatChannel;
+  recipient?: string; // Outgoing direct message target name
 }
 
 export type SystemStatus = 'ЗАГРУЗКА' | 'ГОТОВ' | 'СЛЕЖЕНИЕ' | 'АНАЛИЗ' | 'ОШИБКА' | 'СЕТЬ' | 'СТАБИЛИЗАЦИЯ';
@@ -84,11 +105,35 @@ export type AnalysisMode = 'AUTO' | 'DETAILED' | 'SILENT';
 export type AvatarAction = 'IDLE' | 'TALKING' | 'LISTENING' | 'WAVE' | 'REACT_POS' | 'REACT_NEG';
 
 // Network Types
+export type NetworkPacketType = 'HANDSHAKE' | 'TELEMETRY' | 'TELEMETRY_ACK' | 'CHAT' | 'MARK' | 'LEAVE' | 'HEARTBEAT' | 'PING' | 'PONG' | 'ACK' | 'POSE';
+
 export interface NetworkPacket {
-  type: 'HANDSHAKE' | 'TELEMETRY' | 'CHAT';
+  type: NetworkPacketType;
   userId: string;
   payload: any;
   timestamp: number;
+  seq?: number; // Reliable packets only, acked by the relay with ACK
+}
+
+export type ChatChannel = 'broadcast' | 'direct';
+
+export interface ChatMessage {
+  text: string;
+  to: string | null; // Recipient userId, null = whole room
+  source: 'text' | 'voice';
+}
+
+// Relay-arbitrated target designation. A target is identified by the unit that sees it
+// (ownerId) and that unit's local tracker id.
+export interface TargetMark {
+  key: string;
+  ownerId: string;
+  objectId: string | number;
+  class: string;
+  designatorId: string;
+  designatorName: string;
+  color: string; // Designator ConnectedUser.color
+  timestamp: number;
 }
 
 export interface ConnectedUser {
@@ -97,6 +142,78 @@ export interface ConnectedUser {
   status: 'online' | 'offline';
   lastPing: number;
   color: string;
+  codecs?: string[]; // Telemetry encodings announced in HANDSHAKE
+  latency?: number; // Round-trip time in ms, from PING/PONG
+  clockOffset?: number; // Peer clock minus local clock, ms
+}
+
+export interface LinkStats {
+  txBytesPerSec: number;
+  rxBytesPerSec: number;
+  codec: 'binary' | 'json';
+}
+
+// Shared world frame: +Y up, -Z north, +X east (three.js camera conventions)
+export interface UnitPose {
+  orientation: [number, number, number, number]; // Camera-to-world quaternion (x, y, z, w)
+  headingSource: 'compass' | 'relative' | 'none'; // Only compass yaw is comparable between units
+  landmark?: Vector3; // World-axis vector from the unit to the shared calibration landmark, meters
+  timestamp: number;
+}
+
+export interface NetworkSettings {
+  relayUrl: string;
+  displayName: string; // Empty = use the unit id
+  room: string;
+  enabled: boolean; // Operator toggle for the squad link
+  squadKey: string; // End-to-end passphrase, empty = unencrypted
+  token: string; // Relay join token
+  rememberSecrets: boolean; // Keep squadKey and token for this tab (sessionStorage), never on disk
+}
+
+export type DetectorId = 'coco-ssd-lite' | 'coco-ssd-v2' | 'coco-ssd-v1' | 'yolo' | 'custom';
+
+// Object detector the video worker runs (see DETECTOR_PLUGINS in the worker script)
+export interface DetectorConfig {
+  id: DetectorId;
+  url?: string; // Graph model.json, for the YOLO-format plugins
+  classes?: string[]; // Overrides the model's metadata.yaml
+  inputSize?: number; // Overrides the model's input shape
+}
+
+// What the worker actually loaded; it falls back to the default on failure
+export interface DetectorInfo {
+  id: DetectorId;
+  stage: string;
+  inputSize: number | null; // Square input the model expects, null = any size
+  classes: string[];
+}
+
+export type VideoSourceKind = 'camera' | 'file' | 'screen' | 'frames';
+
+// Where VisionSystem takes its frames from (see utils/videoSources)
+export type VideoSourceSpec =
+  | { kind: 'camera' } // The active camera device
+  | { kind: 'file'; file: File }
+  | { kind: 'screen' } // Screen or tab capture
+  | { kind: 'frames'; files: File[]; fps: number }; // Image sequence, played in file name order
+
+// Recorded session (see utils/sessionStore). t: ms since the recording started
+export type SessionEvent =
+  | { t: number; kind: 'predictions'; data: { predictions: any[]; scaleFactor: number } } // Worker output as the tracker took it
+  | { t: number; kind: 'objects'; data: { local: TrackedObject[]; remote: TrackedObject[] } }
+  | { t: number; kind: 'tool'; data: { name: string; args: Record<string, unknown> } }
+  | { t: number; kind: 'transcript'; data: TranscriptItem }
+  | { t: number; kind: 'log'; data: LogEntry };
+
+export interface SessionMeta {
+  id: string;
+  name: string;
+  startedAt: number; // Wall clock
+  duration: number; // ms
+  eventCount: number;
+  videoOffset: number | null; // Session time the video starts at, null = no video
+  videoType?: string;
 }
 
 export interface CameraDevice {
@@ -104,6 +221,29 @@ export interface CameraDevice {
     label: string;
 }
 
+// Forward: crossing to the right-hand side of the wire, walking it from its first point to its second
+export type TripwireDirection = 'both' | 'forward' | 'reverse';
+
+// Drawn over one camera's view; alerts on tracked people by where they stand (box bottom center)
+export interface GeoZone {
+  id: string;
+  name: string;
+  kind: 'zone' | 'tripwire';
+  points: [number, number][]; // Fractions of the video frame, 0..1
+  dwellSeconds?: number; // Zones: also alert when someone stays this long
+  direction?: TripwireDirection; // Tripwires, default both
+}
+
+export interface CameraCalibration {
+    focalLength: number; // Vertical focal length as a fraction of frame height
+    calibratedAt: number;
+}
+
+export interface SizeProfile {
+    height: number; // Metres
+    aspect: number; // Box height / width as the detector draws it
+}
+
 export interface TooltipState {
   visible: boolean;
   text: string;
@@ -0,0 +1,324 @@
+import { solveAssignment } from './hungarian';
+import { getAspectRatio, getRealWorldHeight } from './objectGeometry';
+import { Keypoint } from '../types';
+
+// Detection-to-track association for the vision worker output.
+// Each track runs a constant-velocity Kalman filter over its box (center, size); detections
+// are assigned globally (Hungarian) on IoU plus normalised center distance, gated by class.
+// Tracks hidden behind a nearer box coast on their motion model instead of being dropped.
+export type Box = [number, number, number, number]; // [x, y, width, height] px
+
+export type TrackStatus = 'tentative' | 'confirmed' | 'occluded' | 'lost';
+
+export interface Detection {
+  class: string;
+  score: number;
+  bbox: Box;
+  gesture?: string;
+  embedding?: number[]; // Appearance signature from the worker, for re-identification
+  depth?: number; // Relative inverse depth from the depth model, when it runs
+  keypoints?: Keypoint[]; // Body pose, people only
+}
+
+export interface Track {
+  id: number;
+  class: string;
+  status: TrackStatus;
+  box: Box; // Filtered box at the last update
+  velocity: [number, number]; // Box center, px/s
+  score: number;
+  gesture?: string;
+  embedding?: number[]; // From the latest matched detection
+  depth?: number;
+  keypoints?: Keypoint[];
+  partial: boolean; // Matched, but the box is cut short by something in front
+  hits: number;
+  misses: number; // Consecutive updates without a matching detection
+  firstSeen: number;
+  lastSeen: number; // Time of the last matched detection, ms
+}
+
+export interface TrackerConfig {
+  confirmHits: number; // Matches before a track is shown
+  maxLostMs: number; // Coast a lost track this long before dropping it
+  maxOccludedMs: number; // ...or this long if it is hidden behind a nearer box
+  occluderCoverage: number; // Share of a box a nearer one must cover to count as occluding it
+  partialAspect: number; // A box next to a nearer one, off the class aspect by this factor, is partial
+  minIoU: number; // Gate: pairs need this overlap...
+  maxCenterDistance: number; // ...or a center distance within this many box diagonals
+  distanceWeight: number; // Weight of the distance term next to (1 - IoU)
+  accelerationNoise: number; // Process noise, px/s^2
+  measurementNoise: number; // Detector jitter, px
+  maxLookahead: number; // Cap for boxAt() extrapolation, ms
+}
+
+export interface TrackerUpdate {
+  tracks: Track[];
+  removed: number[];
+}
+
+export const DEFAULT_TRACKER_CONFIG: TrackerConfig = {
+  confirmHits: 2,
+  maxLostMs: 1000,
+  maxOccludedMs: 3000,
+  occluderCoverage: 0.3,
+  partialAspect: 0.75,
+  minIoU: 0.1,
+  maxCenterDistance: 1.0,
+  distanceWeight: 0.5,
+  accelerationNoise: 1500,
+  measurementNoise: 8,
+  maxLookahead: 250
+};
+
+const INFEASIBLE = 1e6;
+const INITIAL_VELOCITY_STD = 400; // px/s, a new track may already be moving
+
+// Constant-velocity filter for one coordinate; the 4 box axes are independent
+class KalmanAxis {
+  x: number;
+  v = 0;
+  private p00: number;
+  private p01 = 0;
+  private p11 = INITIAL_VELOCITY_STD * INITIAL_VELOCITY_STD;
+
+  constructor(z: number, r: number) {
+    this.x = z;
+    this.p00 = r;
+  }
+
+  predict(dt: number, q: number) {
+    if (dt <= 0) return;
+    this.x += this.v * dt;
+    // P = F P F' + Q, white-noise acceleration model
+    const dt2 = dt * dt;
+    this.p00 += 2 * dt * this.p01 + dt2 * this.p11 + q * dt2 * dt2 / 4;
+    this.p01 += dt * this.p11 + q * dt2 * dt / 2;
+    this.p11 += q * dt2;
+  }
+
+  update(z: number, r: number) {
+    const s = this.p00 + r;
+    const k0 = this.p00 / s;
+    const k1 = this.p01 / s;
+    const y = z - this.x;
+    this.x += k0 * y;
+    this.v += k1 * y;
+    this.p11 -= k1 * this.p01;
+    this.p01 *= 1 - k0;
+    this.p00 *= 1 - k0;
+  }
+
+  // Stop drifting: used for size while the object is hidden or cut off
+  hold() {
+    this.v = 0;
+  }
+
+  // Extrapolated position dt seconds past the filter state, without advancing it
+  at(dt: number) {
+    return this.x + this.v * dt;
+  }
+}
+
+interface TrackFilter {
+  track: Track;
+  axes: [KalmanAxis, KalmanAxis, KalmanAxis, KalmanAxis]; // cx, cy, w, h
+  time: number; // Filter state time, ms
+}
+
+const intersection = (a: Box, b: Box): number => {
+  const x1 = Math.max(a[0], b[0]);
+  const y1 = Math.max(a[1], b[1]);
+  const x2 = Math.min(a[0] + a[2], b[0] + b[2]);
+  const y2 = Math.min(a[1] + a[3], b[1] + b[3]);
+  return Math.max(0, x2 - x1) * Math.max(0, y2 - y1);
+};
+
+export const iou = (a: Box, b: Box): number => {
+  const inter = intersection(a, b);
+  const union = a[2] * a[3] + b[2] * b[3] - inter;
+  return union > 0 ? inter / union : 0;
+};
+
+// Only good for ordering boxes front to back: farther objects have shorter boxes
+const relativeDepth = (cls: string, box: Box) => getRealWorldHeight(cls) / Math.max(1, box[3]);
+
+const boxFromAxes = (cx: number, cy: number, w: number, h: number): Box => {
+  const width = Math.max(1, w);
+  const height = Math.max(1, h);
+  return [cx - width / 2, cy - height / 2, width, height];
+};
+
+export class MultiObjectTracker {
+  private config: TrackerConfig;
+  private filters: Map<number, TrackFilter> = new Map();
+  private nextId = 1;
+
+  constructor(config: Partial<TrackerConfig> = {}) {
+    this.config = { ...DEFAULT_TRACKER_CONFIG, ...config };
+  }
+
+  public update(detections: Detection[], time: number): TrackerUpdate {
+    const { accelerationNoise, measurementNoise } = this.config;
+    const q = accelerationNoise * accelerationNoise;
+    const r = measurementNoise * measurementNoise;
+
+    const filters = Array.from(this.filters.values());
+    filters.forEach(f => {
+      const dt = (time - f.time) / 1000;
+      f.axes.forEach(axis => axis.predict(dt, q));
+      f.time = time;
+      f.track.box = this.currentBox(f);
+    });
+
+    const cost = filters.map(f => detections.map(d => this.matchCost(f.track, d)));
+    const assignment = solveAssignment(cost);
+    const matchedDetections = new Set<number>();
+    const removed: number[] = [];
+
+    filters.forEach((f, row) => {
+      const col = assignment[row];
+      const track = f.track;
+      if (col >= 0 && cost[row][col] < INFEASIBLE) {
+        const d = detections[col];
+        matchedDetections.add(col);
+        const { z, held } = this.measure(f, d.bbox, detections, col);
+        z.forEach((value, i) => {
+          if (i === held) f.axes[i].hold();
+          else f.axes[i].update(value, r);
+        });
+        track.partial = held !== null;
+        track.box = this.currentBox(f);
+        track.velocity = [f.axes[0].v, f.axes[1].v];
+        track.score = d.score;
+        track.gesture = d.gesture;
+        track.embedding = d.embedding || track.embedding;
+        track.depth = d.depth;
+        track.keypoints = d.keypoints;
+        track.hits++;
+        track.misses = 0;
+        track.lastSeen = time;
+        track.status = track.hits >= this.config.confirmHits ? 'confirmed' : 'tentative';
+        return;
+      }
+      track.misses++;
+      track.partial = false;
+      f.axes[2].hold();
+      f.axes[3].hold();
+      const covered = this.isCovered(track, detections);
+      const maxAge = covered ? this.config.maxOccludedMs : this.config.maxLostMs;
+      // A tentative track that misses was most likely a false positive
+      if (track.status === 'tentative' || time - track.lastSeen > maxAge) {
+        this.filters.delete(track.id);
+        removed.push(track.id);
+        return;
+      }
+      track.status = covered ? 'occluded' : 'lost';
+    });
+
+    detections.forEach((d, i) => {
+      if (!matchedDetections.has(i)) this.spawn(d, time, r);
+    });
+
+    return { tracks: this.getTracks(), removed };
+  }
+
+  public getTracks(): Track[] {
+    return Array.from(this.filters.values()).map(f => f.track);
+  }
+
+  // Box extrapolated to `time`, for rendering between detector frames
+  public boxAt(id: number, time: number): Box | undefined {
+    const f = this.filters.get(id);
+    if (!f) return undefined;
+    const dt = Math.min(Math.max(0, time - f.time), this.config.maxLookahead) / 1000;
+    const [cx, cy, w, h] = f.axes.map(axis => axis.at(dt)) as [number, number, number, number];
+    return boxFromAxes(cx, cy, w, h);
+  }
+
+  public reset() {
+    this.filters.clear();
+  }
+
+  private spawn(d: Detection, time: number, r: number) {
+    const [x, y, w, h] = d.bbox;
+    const id = this.nextId++;
+    const axes = [x + w / 2, y + h / 2, w, h].map(z => new KalmanAxis(z, r)) as TrackFilter['axes'];
+    const track: Track = {
+      id,
+      class: d.class,
+      status: this.config.confirmHits <= 1 ? 'confirmed' : 'tentative',
+      box: [x, y, w, h],
+      velocity: [0, 0],
+      score: d.score,
+      gesture: d.gesture,
+      embedding: d.embedding,
+      depth: d.depth,
+      keypoints: d.keypoints,
+      partial: false,
+      hits: 1,
+      misses: 0,
+      firstSeen: time,
+      lastSeen: time
+    };
+    this.filters.set(id, { track, axes, time });
+  }
+
+  // Is the track's predicted box largely behind a nearer detection?
+  private isCovered(track: Track, detections: Detection[]): boolean {
+    const area = track.box[2] * track.box[3];
+    const depth = relativeDepth(track.class, track.box);
+    return detections.some(d => intersection(track.box, d.bbox) >= area * this.config.occluderCoverage
+      && relativeDepth(d.class, d.bbox) < depth);
+  }
+
+  // Measurement (cx, cy, w, h) from a matched box. When it touches a nearer box, one much
+  // flatter than the class norm lost its top or bottom, a much narrower one a side: keep the
+  // filtered size on that axis and place the center from the edge that is still visible.
+  private measure(f: TrackFilter, box: Box, detections: Detection[], ownIndex: number): { z: number[]; held: number | null } {
+    const [x, y, w, h] = box;
+    const full = { z: [x + w / 2, y + h / 2, w, h], held: null };
+    const track = f.track;
+    const expected = getAspectRatio(track.class);
+    if (!expected) return full;
+    const ratio = h / Math.max(1, w);
+    const vertical = ratio < expected * this.config.partialAspect;
+    if (!vertical && ratio <= expected / this.config.partialAspect) return full;
+
+    // The cut edge runs along the occluder, so look slightly beyond the box
+    const margin = 0.1;
+    const grown: Box = [x - w * margin, y - h * margin, w * (1 + 2 * margin), h * (1 + 2 * margin)];
+    const depth = relativeDepth(track.class, track.box);
+    const occluder = detections.find((d, i) => i !== ownIndex
+      && intersection(grown, d.bbox) > 0
+      && relativeDepth(d.class, d.bbox) < depth);
+    if (!occluder) return full; // Nothing in front: the object really changed shape
+
+    const [ox, oy, ow, oh] = occluder.bbox;
+    if (vertical) {
+      const height = f.axes[3].x;
+      const cy = oy + oh / 2 > y + h / 2 ? y + height / 2 : y + h - height / 2;
+      return { z: [x + w / 2, cy, w, height], held: 3 };
+    }
+    const width = f.axes[2].x;
+    const cx = ox + ow / 2 > x + w / 2 ? x + width / 2 : x + w - width / 2;
+    return { z: [cx, y + h / 2, width, h], held: 2 };
+  }
+
+  private currentBox(f: TrackFilter): Box {
+    return boxFromAxes(f.axes[0].x, f.axes[1].x, f.axes[2].x, f.axes[3].x);
+  }
+
+  private matchCost(track: Track, d: Detection): number {
+    if (track.class !== d.class) return INFEASIBLE;
+    const a = track.box;
+    const b = d.bbox;
+    const overlap = iou(a, b);
+    const dx = (a[0] + a[2] / 2) - (b[0] + b[2] / 2);
+    const dy = (a[1] + a[3] / 2) - (b[1] + b[3] / 2);
+    const diagonal = Math.max(Math.hypot(a[2], a[3]), Math.hypot(b[2], b[3]), 1);
+    const distance = Math.hypot(dx, dy) / diagonal;
+    if (overlap < this.config.minIoU && distance > this.config.maxCenterDistance) return INFEASIBLE;
+    return (1 - overlap) + this.config.distanceWeight * distance;
+  }
+}
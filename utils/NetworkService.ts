@@ -1,46 +1,158 @@
 
-import { NetworkPacket, ConnectedUser } from '../types';
+import { NetworkPacket, NetworkPacketType, ConnectedUser, ChatMessage, TrackedObject, LinkStats, TargetMark, UnitPose } from '../types';
+import { BINARY_CODEC, SUPPORTED_CODECS, canEncodeBinary, encodeTelemetry, decodeTelemetry, unwrapSender } from './telemetryCodec';
+import {
+  SealedPayload, isCryptoAvailable, deriveSquadKey, generateSigningKeys, exportPublicKey, importPublicKey,
+  sealPayload, openPayload, verifyPayload, sealFrame, openFrame, isSealedFrame
+} from './squadCrypto';
 
 type NetworkCallback = (type: string, data: any) => void;
 
+const HEARTBEAT_INTERVAL = 5000;
+const OFFLINE_AFTER = 12000; // Peer missed ~2 heartbeats
+const PURGE_AFTER = 30000; // Peer is considered gone, drop from roster
+const KEYFRAME_INTERVAL = 2000; // Refresh the delta base so patches stay small
+const KEYFRAME_ACK_WAIT = 3000; // Give peers time to ack before sending another keyframe
+const KEYFRAME_MAX_AGE = 10000; // Sent keyframes an ack can still arrive for, on slow links
+const KEPT_KEYFRAMES = 8; // Per sender on the receiving side; keyframes come at most every couple of seconds
+const STATS_INTERVAL = 1000;
+const CLOCK_SYNC_INTERVAL = 2000;
+const CLOCK_SAMPLES = 8;
+const AUTH_REJECTED_CODE = 4001; // Close code the relay uses for a wrong join token
+const ID_IN_USE_CODE = 4002; // Another live link holds our unit id, e.g. our previous one not yet timed out
+const REJECT_LOG_INTERVAL = 5000; // Per peer and reason, rejected telemetry would flood the log
+const MAX_PENDING_TELEMETRY = 2; // Frames waiting on WebCrypto before new ones are dropped
+// Consumed by the relay itself, so never sealed: MARK is arbitrated there, LEAVE/HEARTBEAT drive presence
+const RELAY_TYPES: NetworkPacketType[] = ['LEAVE', 'HEARTBEAT', 'MARK', 'ACK'];
+// Queued while offline and retransmitted until the relay acks; telemetry stays best-effort
+const RELIABLE_TYPES: NetworkPacketType[] = ['CHAT', 'MARK'];
+const MAX_OUTBOUND_QUEUE = 100;
+const ACK_TIMEOUT = 2000;
+const RETRANSMIT_INTERVAL = 1000;
+const SEEN_SEQS = 256; // Per sender, enough to catch retransmitted duplicates
+
+export interface RetryPolicy {
+  maxRetries: number; // Reconnect attempts before going standalone, Infinity to keep trying
+  baseDelay: number; // ms, doubled per attempt
+  maxDelay: number;
+}
+
+const DEFAULT_RETRY_POLICY: RetryPolicy = { maxRetries: Infinity, baseDelay: 2000, maxDelay: 30000 };
+
+export interface SecurityOptions {
+  squadKey?: string; // Pre-shared passphrase, enables end-to-end encryption and signing
+  token?: string; // Relay join token (RELAY_TOKEN on the relay)
+}
+
+interface PendingPacket {
+  packet: NetworkPacket;
+  sentAt: number; // 0 = never sent (queued while offline)
+}
+
+interface PeerKey {
+  raw: string;
+  key: CryptoKey;
+}
+
+interface ClockSample {
+  offset: number;
+  rtt: number;
+}
+
+interface SentKeyframe {
+  id: number;
+  time: number;
+  objects: TrackedObject[]; // As decoded by peers, not the live tracker objects
+  ackedBy: Set<string>;
+}
+
 export class NetworkService {
   private ws: WebSocket | null = null;
   private listeners: NetworkCallback[] = [];
   private userId: string;
+  private name: string = ''; // Display name, falls back to the unit id
   private serverUrl: string = 'ws://localhost:8080';
+  private room: string = 'default';
   private reconnectTimeout: any = null;
   private isExplicitlyClosed: boolean = false;
+  private replaying: boolean = false;
   private retryCount: number = 0;
-  private maxRetries: number = 3;
+  private retryPolicy: RetryPolicy = DEFAULT_RETRY_POLICY;
+  private heartbeatInterval: any = null;
+  private presenceInterval: any = null;
+  private statsInterval: any = null;
+  private clockInterval: any = null;
+  private clockSamples: Map<string, ClockSample[]> = new Map();
+  private retransmitInterval: any = null;
+
+  // Reliable Delivery State
+  private outboundSeq: number = 0;
+  private pendingReliable: Map<number, PendingPacket> = new Map(); // Insertion order = seq order
+  private seenSeqs: Map<string, Set<number>> = new Map();
+
+  // Squad Security State
+  private authToken: string | null = null;
+  private passphrase: string | null = null;
+  private secure: boolean = false;
+  private squadKey: CryptoKey | null = null;
+  private signingKeys: CryptoKeyPair | null = null;
+  private publicKey: string | null = null;
+  private peerKeys: Map<string, PeerKey> = new Map(); // Pinned on the first verified HANDSHAKE
+  private sealCounter: number = 0; // Sealed into everything we send, see squadCrypto
+  private peerCounters: Map<string, number> = new Map(); // Latest accepted counter per signing key
+  private outbound: Promise<void> = Promise.resolve(); // WebCrypto is async, queues keep packet order
+  private inbound: Promise<void> = Promise.resolve();
+  private pendingTelemetry: number = 0;
+  private lastRejectLog: Map<string, number> = new Map();
+
+  // Telemetry Codec State
+  private telemetrySeq: number = 0;
+  private keyframeCounter: number = 0;
+  private sentKeyframes: SentKeyframe[] = [];
+  private remoteKeyframes: Map<string, Map<number, TrackedObject[]>> = new Map();
+  private activeCodec: LinkStats['codec'] = 'json';
+  private bytesSent: number = 0;
+  private bytesReceived: number = 0;
   
   public connectedUsers: ConnectedUser[] = [];
+  public marks: TargetMark[] = [];
 
-  constructor(serverUrl?: string) {
+  constructor(serverUrl?: string, retryPolicy?: Partial<RetryPolicy>) {
     this.userId = `UNIT-${Math.floor(Math.random() * 900) + 100}`;
     if (serverUrl) this.serverUrl = serverUrl;
+    if (retryPolicy) this.setRetryPolicy(retryPolicy);
+  }
+
+  public setRetryPolicy(policy: Partial<RetryPolicy>) {
+    this.retryPolicy = { ...this.retryPolicy, ...policy };
   }
 
   public connect() {
     this.isExplicitlyClosed = false;
-    
-    if (this.ws && (this.ws.readyState === WebSocket.OPEN || this.ws.readyState === WebSocket.CONNECTING)) {
-        return;
-    }
+    this.retryCount = 0; // Explicit connect starts a fresh retry budget
+    this.openSocket();
+  }
 
-    // Stop retrying if localhost and max retries reached to avoid console spam
-    if (this.serverUrl.includes('localhost') && this.retryCount >= this.maxRetries) {
-        this.notify('STATUS', 'АВТОНОМНЫЙ РЕЖИМ');
+  private openSocket() {
+    if (this.ws && (this.ws.readyState === WebSocket.OPEN || this.ws.readyState === WebSocket.CONNECTING)) {
         return;
     }
 
     try {
-      this.ws = new WebSocket(this.serverUrl);
+      // Handlers check they still own the link: a replaced socket closes after its successor opened
+      const socket = new WebSocket(this.serverUrl);
+      this.ws = socket;
+      socket.binaryType = 'arraybuffer';
       
-      this.ws.onopen = () => {
+      socket.onopen = () => {
+        if (this.ws !== socket) return;
         console.log('[NET] Connected');
         this.retryCount = 0; // Reset retries on success
         this.notify('STATUS', 'ПОДКЛЮЧЕНО');
-        this.send('HANDSHAKE', { name: this.userId, status: 'online' });
+        this.sentKeyframes = []; // Peers may have lost our keyframes while we were away
+        this.sendHandshake();
+        this.startLinkTimers();
+        this.retransmitPending(true); // Whatever queued up while offline
         
         if (this.reconnectTimeout) {
             clearTimeout(this.reconnectTimeout);
@@ -48,21 +160,38 @@ export class NetworkService {
         }
       };
 
-      this.ws.onmessage = (event) => {
+      socket.onmessage = (event) => {
+        if (this.ws !== socket) return;
+        if (event.data instanceof ArrayBuffer) {
+          const data: ArrayBuffer = event.data;
+          this.bytesReceived += data.byteLength;
+          this.inbound = this.inbound.then(() => this.receiveBinary(data)).catch(() => {});
+          return;
+        }
+        this.bytesReceived += event.data.length;
         try {
           const packet: NetworkPacket = JSON.parse(event.data);
-          this.handlePacket(packet);
+          this.inbound = this.inbound.then(() => this.receivePacket(packet)).catch(() => {});
         } catch (e) {
           // Silently ignore parse errors
         }
       };
 
-      this.ws.onerror = (e) => {
+      socket.onerror = (e) => {
         // Prevent console error spam by not logging connection refused for localhost
         // The browser will still log net::ERR_CONNECTION_REFUSED, but we avoid adding extra noise
       };
 
-      this.ws.onclose = (e) => {
+      socket.onclose = (e) => {
+        if (this.ws !== socket) return;
+        this.linkLost();
+        if (e.code === AUTH_REJECTED_CODE) {
+            // Retrying with the same token is pointless until it is reconfigured
+            this.notify('SECURITY', 'РЕЛЕ ОТКЛОНИЛО ТОКЕН ДОСТУПА');
+            this.notify('STATUS', 'АВТОНОМНЫЙ РЕЖИМ');
+            return;
+        }
+        if (e.code === ID_IN_USE_CODE) this.notify('SECURITY', `РЕЛЕ: ID ${this.userId} ЗАНЯТ, ПОВТОР`);
         if (!this.isExplicitlyClosed) {
             this.notify('STATUS', 'АВТОНОМНЫЙ РЕЖИМ');
             this.scheduleReconnect();
@@ -75,48 +204,504 @@ export class NetworkService {
     }
   }
 
+  private linkLost() {
+      this.stopLinkTimers();
+      this.markAllOffline();
+      if (this.marks.length > 0) this.setMarks([]); // Relay replays current marks on rejoin
+  }
+
   private scheduleReconnect() {
       if (this.reconnectTimeout) return;
-      
+      if (this.retryCount >= this.retryPolicy.maxRetries) return; // Standalone until connect() is called again
+
+      const delay = Math.min(this.retryPolicy.baseDelay * 2 ** this.retryCount, this.retryPolicy.maxDelay);
       this.retryCount++;
-      const delay = Math.min(5000 * this.retryCount, 30000); // Exponential backoff
 
       this.reconnectTimeout = setTimeout(() => {
           this.reconnectTimeout = null;
-          this.connect();
+          this.openSocket();
       }, delay);
   }
 
+  private startLinkTimers() {
+      this.stopLinkTimers();
+      this.heartbeatInterval = setInterval(() => this.send('HEARTBEAT', { status: 'online' }), HEARTBEAT_INTERVAL);
+      this.presenceInterval = setInterval(() => this.checkPresence(), HEARTBEAT_INTERVAL / 2);
+      this.statsInterval = setInterval(() => this.publishStats(), STATS_INTERVAL);
+      this.clockInterval = setInterval(() => this.pingPeers(), CLOCK_SYNC_INTERVAL);
+      this.retransmitInterval = setInterval(() => this.retransmitPending(false), RETRANSMIT_INTERVAL);
+  }
+
+  private stopLinkTimers() {
+      if (this.heartbeatInterval) clearInterval(this.heartbeatInterval);
+      if (this.presenceInterval) clearInterval(this.presenceInterval);
+      if (this.statsInterval) clearInterval(this.statsInterval);
+      if (this.clockInterval) clearInterval(this.clockInterval);
+      if (this.retransmitInterval) clearInterval(this.retransmitInterval);
+      this.heartbeatInterval = null;
+      this.presenceInterval = null;
+      this.statsInterval = null;
+      this.clockInterval = null;
+      this.retransmitInterval = null;
+      this.notify('LINK_STATS', null);
+  }
+
+  // NTP-style exchange: PING carries t0, PONG returns it with the peer's receive/send times
+  private pingPeers() {
+      this.connectedUsers.forEach(u => {
+          if (u.status === 'online') this.send('PING', { to: u.id, t0: Date.now() });
+      });
+  }
+
+  private handlePong(userId: string, payload: any, t3: number) {
+      const { t0, t1, t2 } = payload || {};
+      if (![t0, t1, t2].every(v => typeof v === 'number')) return;
+      const rtt = Math.max(0, (t3 - t0) - (t2 - t1));
+      const offset = ((t1 - t0) + (t2 - t3)) / 2;
+
+      const samples = [...(this.clockSamples.get(userId) || []), { offset, rtt }].slice(-CLOCK_SAMPLES);
+      this.clockSamples.set(userId, samples);
+
+      const user = this.connectedUsers.find(u => u.id === userId);
+      if (!user) return;
+      // Lowest-RTT sample has the least queueing asymmetry, so the best offset estimate
+      const best = samples.reduce((a, b) => b.rtt < a.rtt ? b : a);
+      user.clockOffset = best.offset;
+      user.latency = Math.round(user.latency === undefined ? rtt : user.latency * 0.7 + rtt * 0.3);
+      this.notify('USERS', [...this.connectedUsers]);
+  }
+
+  // Map a peer's Date.now() onto the local clock
+  public toLocalTime(userId: string, remoteTime: number): number {
+      const offset = this.connectedUsers.find(u => u.id === userId)?.clockOffset || 0;
+      return remoteTime - offset;
+  }
+
+  private withLocalTimestamps(userId: string, objects: TrackedObject[]): TrackedObject[] {
+      if (!Array.isArray(objects)) return [];
+      return objects.map(o => ({ ...o, lastSeen: this.toLocalTime(userId, o.lastSeen) }));
+  }
+
+  private publishStats() {
+      const stats: LinkStats = {
+          txBytesPerSec: this.bytesSent * 1000 / STATS_INTERVAL,
+          rxBytesPerSec: this.bytesReceived * 1000 / STATS_INTERVAL,
+          codec: this.activeCodec
+      };
+      this.bytesSent = 0;
+      this.bytesReceived = 0;
+      this.notify('LINK_STATS', stats);
+  }
+
+  // Client-side timeout in case the relay never tells us a peer is gone
+  private checkPresence() {
+      const now = Date.now();
+      let changed = false;
+      const remaining = this.connectedUsers.filter(u => {
+          if (now - u.lastPing > PURGE_AFTER) {
+              this.forgetPeer(u.id);
+              changed = true;
+              return false;
+          }
+          if (u.status === 'online' && now - u.lastPing > OFFLINE_AFTER) {
+              u.status = 'offline';
+              changed = true;
+          }
+          return true;
+      });
+      if (changed) {
+          this.connectedUsers = remaining;
+          this.notify('USERS', [...this.connectedUsers]);
+      }
+  }
+
+  // Without a link every peer is unreachable; the relay replays the roster on reconnect
+  private markAllOffline() {
+      if (this.connectedUsers.length === 0) return;
+      this.connectedUsers.forEach(u => u.status = 'offline');
+      this.notify('USERS', [...this.connectedUsers]);
+  }
+
   public setUrl(url: string) {
+      if (url === this.serverUrl) return;
       this.serverUrl = url;
       this.retryCount = 0; // Reset retries for new URL
-      if (this.ws) {
-          this.ws.close();
-      } else {
-          this.connect();
+      // Dropped without a reconnect: connect() opens the new URL
+      this.dropSocket();
+  }
+
+  // Detaches the current socket, whose late events are then ignored (see openSocket)
+  private dropSocket(): boolean {
+      const socket = this.ws;
+      if (!socket) return false;
+      this.ws = null;
+      socket.close();
+      this.linkLost();
+      return true;
+  }
+
+  // Peers update the roster entry on the repeated HANDSHAKE
+  public setName(name: string) {
+      const next = name.trim();
+      if (next === this.name) return;
+      this.name = next;
+      this.sendHandshake();
+  }
+
+  public setRoom(room: string) {
+      if (room === this.room) return;
+      this.room = room;
+      // Roster belongs to the previous room, the relay replays the new one on handshake
+      this.connectedUsers = [];
+      this.notify('USERS', []);
+      this.setMarks([]);
+      this.pendingReliable.clear(); // Chat and marks were meant for the previous room
+      this.sendHandshake();
+  }
+
+  private sendHandshake() {
+      this.send('HANDSHAKE', { name: this.getName(), status: 'online', room: this.room, codecs: SUPPORTED_CODECS });
+  }
+
+  // Keys are derived on the outbound queue, so nothing leaves unsealed while they are pending
+  public configureSecurity(options: SecurityOptions) {
+      this.authToken = options.token || null;
+      const passphrase = options.squadKey || null;
+      if (passphrase === this.passphrase) {
+          if (this.ws?.readyState === WebSocket.OPEN) this.sendHandshake(); // New join token
+          return;
       }
+      this.passphrase = passphrase;
+      this.secure = !!passphrase;
+      this.squadKey = null;
+      this.peerKeys.clear();
+
+      if (passphrase) this.enqueue(async () => {
+          if (!isCryptoAvailable()) {
+              // Browsers only expose WebCrypto on https:// or localhost
+              this.notify('SECURITY', 'WEBCRYPTO НЕДОСТУПЕН: ТРАФИК ОТРЯДА ЗАБЛОКИРОВАН');
+              return;
+          }
+          this.squadKey = await deriveSquadKey(passphrase);
+          if (!this.signingKeys) {
+              this.signingKeys = await generateSigningKeys();
+              this.publicKey = await exportPublicKey(this.signingKeys.publicKey);
+          }
+      });
+
+      // Peers in the room never re-announce themselves, so a new squad key takes a fresh join:
+      // the relay tells them we left, so they re-pin our key, and replays their handshakes to us
+      if (this.dropSocket() && !this.isExplicitlyClosed) this.openSocket();
+  }
+
+  public isSecure() { return this.secure; }
+
+  // A replay redraws a recording: none of its targets, poses or marks may reach the squad as live
+  public setReplaying(replaying: boolean) {
+      this.replaying = replaying;
   }
 
   public disconnect() {
       this.isExplicitlyClosed = true;
       if (this.reconnectTimeout) clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
+      this.stopLinkTimers();
+      this.send('LEAVE', { reason: 'disconnect' });
       if (this.ws) this.ws.close();
+      this.connectedUsers = [];
+      this.notify('USERS', []);
+      this.setMarks([]);
   }
 
-  public send(type: 'TELEMETRY' | 'CHAT' | 'HANDSHAKE', payload: any) {
-    if (this.ws && this.ws.readyState === WebSocket.OPEN) {
-      const packet: NetworkPacket = {
-        type,
-        userId: this.userId,
-        payload,
-        timestamp: Date.now()
-      };
-      try {
-        this.ws.send(JSON.stringify(packet));
-      } catch (e) {
-          // Ignore send errors
-      }
+  public send(type: NetworkPacketType, payload: any) {
+    const packet: NetworkPacket = {
+      type,
+      userId: this.userId,
+      payload,
+      timestamp: Date.now()
+    };
+    if (RELIABLE_TYPES.includes(type)) {
+        this.queueReliable(packet);
+        return;
     }
+    this.dispatch(packet);
+  }
+
+  private dispatch(packet: NetworkPacket) {
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) return;
+    const { type, payload } = packet;
+    if (type === 'HANDSHAKE' && this.authToken) packet.payload = { ...payload, token: this.authToken };
+    if (!this.secure || RELAY_TYPES.includes(type)) {
+        // Sent immediately: LEAVE has to go out before disconnect() closes the socket
+        this.transmit(JSON.stringify(packet));
+        return;
+    }
+    this.enqueue(async () => {
+        const sealed = await this.seal(packet);
+        if (sealed) this.transmit(JSON.stringify(sealed));
+    });
+  }
+
+  private queueReliable(packet: NetworkPacket) {
+    packet.seq = this.outboundSeq = this.outboundSeq + 1;
+    this.pendingReliable.set(packet.seq, { packet, sentAt: 0 });
+    if (this.pendingReliable.size > MAX_OUTBOUND_QUEUE) {
+        const oldest = this.pendingReliable.keys().next().value!;
+        this.pendingReliable.delete(oldest);
+        console.warn(`[NET] Outbound queue full, dropped packet #${oldest}`);
+    }
+    if (this.ws?.readyState !== WebSocket.OPEN) return;
+    this.pendingReliable.get(packet.seq)!.sentAt = Date.now();
+    this.dispatch(packet);
+  }
+
+  // Resends in seq order; `all` flushes everything, e.g. right after reconnecting
+  private retransmitPending(all: boolean) {
+    const now = Date.now();
+    this.pendingReliable.forEach(entry => {
+        if (!all && now - entry.sentAt < ACK_TIMEOUT) return;
+        entry.sentAt = now;
+        this.dispatch(entry.packet);
+    });
+  }
+
+  // Receivers see every retransmit the relay acked late, so drop what was already handled
+  private isDuplicate(userId: string, seq: number): boolean {
+    let seen = this.seenSeqs.get(userId);
+    if (!seen) {
+        seen = new Set();
+        this.seenSeqs.set(userId, seen);
+    }
+    if (seen.has(seq)) return true;
+    seen.add(seq);
+    if (seen.size > SEEN_SEQS) seen.delete(seen.values().next().value!);
+    return false;
+  }
+
+  public getPendingCount() { return this.pendingReliable.size; }
+
+  private enqueue(task: () => Promise<void>) {
+    // A failed packet must not stall everything queued behind it
+    this.outbound = this.outbound.then(task).catch(e => console.warn('[NET] Send failed', e));
+  }
+
+  private transmit(data: string | ArrayBuffer | Uint8Array) {
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) return;
+    try {
+      this.ws.send(data);
+      this.bytesSent += typeof data === 'string' ? data.length : data.byteLength;
+    } catch (e) {
+        // Ignore send errors
+    }
+  }
+
+  // The relay still needs the room, the recipient and the join token in clear
+  private async seal(packet: NetworkPacket): Promise<NetworkPacket | null> {
+    if (!this.squadKey || !this.signingKeys) return null;
+    const payload = packet.type === 'HANDSHAKE' ? { ...packet.payload, publicKey: this.publicKey } : packet.payload;
+    const { token, ...body } = payload || {};
+    const sealed = await sealPayload(this.squadKey, this.signingKeys.privateKey, packet.type, packet.userId, ++this.sealCounter, { payload: body, timestamp: packet.timestamp });
+    const routing: any = { sealed };
+    if (typeof body.to === 'string') routing.to = body.to;
+    if (packet.type === 'HANDSHAKE') {
+        routing.room = body.room;
+        if (token) routing.token = token;
+    }
+    return { ...packet, payload: routing };
+  }
+
+  private rejectPacket(userId: string, reason: string) {
+    const key = `${userId}:${reason}`;
+    const now = Date.now();
+    if (now - (this.lastRejectLog.get(key) || 0) < REJECT_LOG_INTERVAL) return;
+    this.lastRejectLog.set(key, now);
+    console.warn(`[NET] Rejected packet from ${userId}: ${reason}`);
+    this.notify('SECURITY', `ОТКЛОНЁН ПАКЕТ ${userId}: ${reason}`);
+  }
+
+  private async receivePacket(packet: NetworkPacket) {
+    if (!packet || typeof packet.type !== 'string' || typeof packet.userId !== 'string') return;
+    const sealed: SealedPayload | undefined = packet.payload?.sealed;
+    if (!this.secure || RELAY_TYPES.includes(packet.type)) {
+        if (sealed) this.rejectPacket(packet.userId, 'ЗАШИФРОВАН, НЕТ КЛЮЧА ОТРЯДА');
+        else this.handlePacket(packet);
+        return;
+    }
+    if (!sealed) return this.rejectPacket(packet.userId, 'БЕЗ ШИФРОВАНИЯ');
+    if (!this.squadKey) return; // Keys still being derived, or WebCrypto is missing
+
+    const opened = await openPayload(this.squadKey, packet.type, packet.userId, sealed);
+    const body = opened?.body;
+    if (!body || typeof body !== 'object') return this.rejectPacket(packet.userId, 'НЕВЕРНЫЙ КЛЮЧ ОТРЯДА');
+
+    let peer = this.peerKeys.get(packet.userId);
+    if (packet.type === 'HANDSHAKE') {
+        const announced = body.payload?.publicKey;
+        if (typeof announced !== 'string') return this.rejectPacket(packet.userId, 'НЕТ КЛЮЧА ПОДПИСИ');
+        if (peer && peer.raw !== announced) return this.rejectPacket(packet.userId, 'КЛЮЧ ПОДПИСИ НЕ СОВПАДАЕТ');
+        if (!peer) {
+            try {
+                peer = { raw: announced, key: await importPublicKey(announced) };
+            } catch (e) {
+                return this.rejectPacket(packet.userId, 'НЕКОРРЕКТНЫЙ КЛЮЧ ПОДПИСИ');
+            }
+        }
+    }
+    if (!peer) return this.rejectPacket(packet.userId, 'НЕИЗВЕСТНЫЙ ОТПРАВИТЕЛЬ');
+    if (!(await verifyPayload(peer.key, packet.type, packet.userId, sealed))) {
+        return this.rejectPacket(packet.userId, 'ПОДПИСЬ НЕВЕРНА');
+    }
+    // The relay replays each unit's last HANDSHAKE to newcomers, so it may be older than traffic
+    // we already took; it carries nothing but the unit's own key and name
+    if (!this.isFresh(peer, opened!.counter) && packet.type !== 'HANDSHAKE') return this.rejectPacket(packet.userId, 'ПОВТОРНЫЙ ПАКЕТ');
+    this.peerKeys.set(packet.userId, peer);
+    this.handlePacket({ type: packet.type, userId: packet.userId, payload: body.payload, timestamp: body.timestamp, seq: packet.seq });
+  }
+
+  // Counters only grow per signing key. Kept by key rather than unit id, so replaying an old
+  // HANDSHAKE after the unit left cannot reset them
+  private isFresh(peer: PeerKey, counter: number): boolean {
+    if (counter <= (this.peerCounters.get(peer.raw) ?? 0)) return false;
+    this.peerCounters.set(peer.raw, counter);
+    return true;
+  }
+
+  private async receiveBinary(data: ArrayBuffer) {
+    const envelope = unwrapSender(data);
+    if (!envelope) return;
+    const { senderId } = envelope;
+    let frame: ArrayBuffer | null = envelope.frame;
+
+    if (!this.secure) {
+        if (isSealedFrame(frame)) return this.rejectPacket(senderId, 'ЗАШИФРОВАН, НЕТ КЛЮЧА ОТРЯДА');
+    } else {
+        if (!isSealedFrame(frame)) return this.rejectPacket(senderId, 'БЕЗ ШИФРОВАНИЯ');
+        const peer = this.peerKeys.get(senderId);
+        if (!this.squadKey) return;
+        if (!peer) return this.rejectPacket(senderId, 'НЕИЗВЕСТНЫЙ ОТПРАВИТЕЛЬ');
+        const opened = await openFrame(this.squadKey, peer.key, senderId, frame);
+        if (!opened) return this.rejectPacket(senderId, 'ПОДПИСЬ ИЛИ КЛЮЧ НЕВЕРНЫ');
+        if (!this.isFresh(peer, opened.counter)) return this.rejectPacket(senderId, 'ПОВТОРНЫЙ ПАКЕТ');
+        frame = opened.body;
+    }
+    this.handleBinary(senderId, frame);
+  }
+
+  // Binary delta frames when every peer negotiated them, JSON otherwise
+  public sendTelemetry(objects: TrackedObject[]) {
+    if (this.replaying || !this.ws || this.ws.readyState !== WebSocket.OPEN) return;
+    const peers = this.connectedUsers.filter(u => u.status === 'online');
+    if (peers.length === 0) return; // Nobody in the room to receive it
+    if (this.secure && this.pendingTelemetry >= MAX_PENDING_TELEMETRY) return; // Sealing can't keep up, skip a frame
+
+    const useBinary = peers.every(u => u.codecs?.includes(BINARY_CODEC)) && canEncodeBinary(objects);
+    if (!useBinary) {
+        this.activeCodec = 'json';
+        this.send('TELEMETRY', objects);
+        return;
+    }
+
+    const now = Date.now();
+    const seq = this.telemetrySeq = (this.telemetrySeq + 1) & 0xFFFF;
+    const base = this.findAckedKeyframe(peers.map(u => u.id));
+    // One keyframe in flight at a time, so slow links get acks back before the next one
+    const latest = this.sentKeyframes[this.sentKeyframes.length - 1];
+    const awaitingAck = !!latest && latest !== base && now - latest.time < KEYFRAME_ACK_WAIT;
+
+    let frame = base && (awaitingAck || now - base.time <= KEYFRAME_INTERVAL)
+        ? encodeTelemetry(objects, { keyframeId: base.id, seq, timestamp: now }, base.objects)
+        : null;
+    if (!frame || frame.kind === 'keyframe') {
+        if (awaitingAck) {
+            // No base the peers share yet (or heavy churn): JSON until the keyframe is acked
+            this.activeCodec = 'json';
+            this.send('TELEMETRY', objects);
+            return;
+        }
+        const id = this.keyframeCounter = (this.keyframeCounter + 1) & 0xFFFF;
+        frame = encodeTelemetry(objects, { keyframeId: id, seq, timestamp: now });
+        const decoded = decodeTelemetry(frame.data, () => undefined);
+        // Kept by age, not count: on a slow link the ack comes back long after later frames
+        this.sentKeyframes = [
+            ...this.sentKeyframes.filter(k => k === base || now - k.time < KEYFRAME_MAX_AGE),
+            { id, time: now, objects: decoded?.objects || [], ackedBy: new Set<string>() }
+        ];
+    }
+    this.activeCodec = 'binary';
+
+    if (!this.secure) {
+        this.transmit(frame.data);
+        return;
+    }
+    const data = frame.data;
+    this.pendingTelemetry++;
+    this.enqueue(async () => {
+        try {
+            if (!this.squadKey || !this.signingKeys) return;
+            this.transmit(await sealFrame(this.squadKey, this.signingKeys.privateKey, this.userId, ++this.sealCounter, new Uint8Array(data)));
+        } finally {
+            this.pendingTelemetry--;
+        }
+    });
+  }
+
+  private findAckedKeyframe(peerIds: string[]): SentKeyframe | undefined {
+    for (let i = this.sentKeyframes.length - 1; i >= 0; i--) {
+        const k = this.sentKeyframes[i];
+        if (peerIds.every(id => k.ackedBy.has(id))) return k;
+    }
+    return undefined;
+  }
+
+  private handleBinary(senderId: string, frame: ArrayBuffer) {
+    this.touchUser(senderId);
+
+    let keyframes = this.remoteKeyframes.get(senderId);
+    if (!keyframes) {
+        keyframes = new Map();
+        this.remoteKeyframes.set(senderId, keyframes);
+    }
+    const decoded = decodeTelemetry(frame, id => keyframes!.get(id));
+    if (!decoded) return;
+
+    if (decoded.kind === 'keyframe') {
+        keyframes.delete(decoded.keyframeId); // Re-insert as newest when ids wrap
+        keyframes.set(decoded.keyframeId, decoded.objects);
+        if (keyframes.size > KEPT_KEYFRAMES) keyframes.delete(keyframes.keys().next().value!);
+        this.send('TELEMETRY_ACK', { to: senderId, keyframe: decoded.keyframeId });
+    }
+    this.notify('OBJECTS', { userId: senderId, objects: this.withLocalTimestamps(senderId, decoded.objects) });
+  }
+
+  // Best-effort like telemetry: a newer pose supersedes a lost one
+  public sendPose(pose: UnitPose) {
+    if (this.replaying || this.connectedUsers.every(u => u.status !== 'online')) return;
+    this.send('POSE', pose);
+  }
+
+  public sendChat(text: string, to: string | null = null, source: ChatMessage['source'] = 'text') {
+    const message: ChatMessage = { text, to, source };
+    this.send('CHAT', message);
+  }
+
+  // Designation requests are arbitrated by the relay; state arrives back as MARKS
+  public claimMark(ownerId: string, objectId: string | number, cls: string) {
+    if (this.replaying) return;
+    this.send('MARK', { action: 'claim', ownerId, objectId, class: cls });
+  }
+
+  public releaseMark(key: string) {
+    if (this.replaying) return;
+    this.send('MARK', { action: 'release', key });
+  }
+
+  public getOwnMark(): TargetMark | undefined {
+    return this.marks.find(m => m.designatorId === this.userId);
+  }
+
+  private setMarks(marks: TargetMark[]) {
+    this.marks = marks;
+    this.notify('MARKS', [...marks]);
   }
 
   public on(callback: NetworkCallback) {
@@ -128,22 +713,110 @@ export class NetworkService {
   }
 
   private handlePacket(packet: NetworkPacket) {
+     const receivedAt = Date.now();
+     if (packet.type === 'ACK') {
+         this.pendingReliable.delete(packet.payload?.seq);
+         return;
+     }
+     if (packet.type !== 'LEAVE') this.touchUser(packet.userId);
+     if (typeof packet.seq === 'number' && this.isDuplicate(packet.userId, packet.seq)) return;
+
+     if (packet.type === 'PING') {
+         this.send('PONG', { to: packet.userId, t0: packet.payload?.t0, t1: receivedAt, t2: Date.now() });
+     }
+     if (packet.type === 'PONG') this.handlePong(packet.userId, packet.payload, receivedAt);
      if (packet.type === 'TELEMETRY') {
-         this.notify('OBJECTS', { userId: packet.userId, objects: packet.payload });
+         this.notify('OBJECTS', { userId: packet.userId, objects: this.withLocalTimestamps(packet.userId, packet.payload) });
+     }
+     if (packet.type === 'POSE') {
+         const pose: UnitPose = packet.payload;
+         if (!pose || !Array.isArray(pose.orientation) || pose.orientation.length !== 4) return;
+         this.notify('POSE', { userId: packet.userId, pose: { ...pose, timestamp: this.toLocalTime(packet.userId, pose.timestamp) } });
+     }
+     if (packet.type === 'TELEMETRY_ACK') {
+         const keyframe = this.sentKeyframes.find(k => k.id === packet.payload?.keyframe);
+         if (keyframe) keyframe.ackedBy.add(packet.userId);
+     }
+     if (packet.type === 'CHAT') {
+         const message: ChatMessage = packet.payload;
+         if (!message || typeof message.text !== 'string') return;
+         // Relay already filters DMs, but never show someone else's direct message
+         if (message.to && message.to !== this.userId) return;
+         const sender = this.connectedUsers.find(u => u.id === packet.userId);
+         this.notify('CHAT', {
+             userId: packet.userId,
+             name: sender?.name || packet.userId,
+             color: sender?.color || this.getUserColor(packet.userId),
+             message,
+             timestamp: this.toLocalTime(packet.userId, packet.timestamp)
+         });
+     }
+     if (packet.type === 'MARK') {
+         const payload = packet.payload || {};
+         if (payload.action === 'state' && Array.isArray(payload.marks)) {
+             // In a secured squad only units with a verified key may designate
+             const marks = payload.marks.filter((m: Omit<TargetMark, 'color'>) =>
+                 !this.secure || m.designatorId === this.userId || this.peerKeys.has(m.designatorId));
+             // Sealed handshakes hide names from the relay, so prefer the roster's
+             this.setMarks(marks.map((m: Omit<TargetMark, 'color'>) => ({
+                 ...m,
+                 designatorName: m.designatorId === this.userId
+                     ? this.getName()
+                     : this.connectedUsers.find(u => u.id === m.designatorId)?.name || m.designatorName,
+                 color: this.getUserColor(m.designatorId)
+             })));
+         }
+         if (payload.action === 'denied') {
+             this.notify('MARK_DENIED', { key: payload.key, holder: payload.holder?.designatorName || packet.userId });
+         }
      }
      if (packet.type === 'HANDSHAKE') {
          const existing = this.connectedUsers.find(u => u.id === packet.userId);
+         const codecs = Array.isArray(packet.payload.codecs) ? packet.payload.codecs : undefined;
          if (!existing) {
              this.connectedUsers.push({
                  id: packet.userId,
                  name: packet.payload.name || packet.userId,
                  status: 'online',
                  lastPing: Date.now(),
-                 color: this.getUserColor(packet.userId)
+                 color: this.getUserColor(packet.userId),
+                 codecs
              });
              this.notify('USERS', [...this.connectedUsers]);
+         } else {
+             existing.codecs = codecs;
+             const name = packet.payload.name || packet.userId;
+             if (existing.name !== name) {
+                 existing.name = name;
+                 this.notify('USERS', [...this.connectedUsers]);
+             }
          }
      }
+     if (packet.type === 'LEAVE') {
+         const before = this.connectedUsers.length;
+         this.connectedUsers = this.connectedUsers.filter(u => u.id !== packet.userId);
+         this.forgetPeer(packet.userId);
+         if (this.connectedUsers.length !== before) this.notify('USERS', [...this.connectedUsers]);
+     }
+  }
+
+  // Ids are reused across sessions: a later unit with this id starts over, signing key included
+  private forgetPeer(userId: string) {
+      this.remoteKeyframes.delete(userId);
+      this.clockSamples.delete(userId);
+      this.seenSeqs.delete(userId);
+      this.peerKeys.delete(userId);
+  }
+
+  // Any traffic from a peer counts as a sign of life
+  private touchUser(userId: string) {
+      const user = this.connectedUsers.find(u => u.id === userId);
+      if (!user) return;
+      user.lastPing = Date.now();
+      if (user.status !== 'online') {
+          user.status = 'online';
+          this.notify('USERS', [...this.connectedUsers]);
+      }
   }
 
   private getUserColor(id: string) {
@@ -156,4 +829,6 @@ export class NetworkService {
   }
 
   public getUserId() { return this.userId; }
+  public getName() { return this.name || this.userId; }
+  public getRoom() { return this.room; }
 }
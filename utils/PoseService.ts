@@ -0,0 +1,134 @@
+import * as THREE from 'three';
+import { UnitPose, Vector3 } from '../types';
+
+const DEG = Math.PI / 180;
+const BROADCAST_ANGLE = 2 * DEG; // Rotation worth telling the squad about
+const BROADCAST_REFRESH = 2000; // Resend an unchanged pose so late joiners get one
+
+// Device frame (flat, screen up, top edge north) to a three.js camera looking along -Z
+const DEVICE_TO_CAMERA = new THREE.Quaternion(-Math.sqrt(0.5), 0, 0, Math.sqrt(0.5));
+const Z_AXIS = new THREE.Vector3(0, 0, 1);
+
+export class PoseService {
+  private orientation = new THREE.Quaternion();
+  private headingSource: UnitPose['headingSource'] = 'none';
+  private landmark: Vector3 | null = null;
+  private hasAbsoluteEvents = false;
+  private euler = new THREE.Euler();
+  private screenTwist = new THREE.Quaternion();
+  private lastBroadcast: { orientation: THREE.Quaternion; landmark: Vector3 | null; time: number } | null = null;
+
+  // iOS only grants orientation events from a user gesture
+  public static async requestPermission(): Promise<boolean> {
+      const OrientationEvent = (window as any).DeviceOrientationEvent;
+      if (!OrientationEvent) return false;
+      if (typeof OrientationEvent.requestPermission !== 'function') return true;
+      try {
+          return (await OrientationEvent.requestPermission()) === 'granted';
+      } catch (e) {
+          return false;
+      }
+  }
+
+  public start() {
+      window.addEventListener('deviceorientationabsolute', this.handleAbsolute as EventListener);
+      window.addEventListener('deviceorientation', this.handleOrientation);
+  }
+
+  public stop() {
+      window.removeEventListener('deviceorientationabsolute', this.handleAbsolute as EventListener);
+      window.removeEventListener('deviceorientation', this.handleOrientation);
+  }
+
+  private handleAbsolute = (e: DeviceOrientationEvent) => {
+      this.hasAbsoluteEvents = true;
+      this.update(e.alpha, e.beta, e.gamma, 'compass');
+  };
+
+  private handleOrientation = (e: DeviceOrientationEvent) => {
+      if (this.hasAbsoluteEvents) return; // Chrome fires both, the absolute stream is north-referenced
+      const compassHeading = (e as any).webkitCompassHeading; // iOS, degrees clockwise from north
+      if (typeof compassHeading === 'number') {
+          this.update((360 - compassHeading) % 360, e.beta, e.gamma, 'compass');
+          return;
+      }
+      this.update(e.alpha, e.beta, e.gamma, e.absolute ? 'compass' : 'relative');
+  };
+
+  private update(alpha: number | null, beta: number | null, gamma: number | null, source: UnitPose['headingSource']) {
+      if (alpha === null || beta === null || gamma === null) return;
+      const screenAngle = (screen.orientation?.angle ?? (window as any).orientation ?? 0) * DEG;
+      this.euler.set(beta * DEG, alpha * DEG, -gamma * DEG, 'YXZ');
+      this.orientation.setFromEuler(this.euler)
+          .multiply(DEVICE_TO_CAMERA)
+          .multiply(this.screenTwist.setFromAxisAngle(Z_AXIS, -screenAngle));
+      this.headingSource = source;
+  }
+
+  // Operators aim at the same landmark; each stores where it lies from them in world axes
+  public calibrate(landmarkInCamera: Vector3) {
+      const v = new THREE.Vector3(landmarkInCamera.x, landmarkInCamera.y, landmarkInCamera.z).applyQuaternion(this.orientation);
+      this.landmark = { x: v.x, y: v.y, z: v.z };
+  }
+
+  public clearCalibration() {
+      this.landmark = null;
+  }
+
+  public isCalibrated() { return !!this.landmark; }
+  public getHeadingSource() { return this.headingSource; }
+
+  public getPose(): UnitPose {
+      return {
+          orientation: this.orientation.toArray() as UnitPose['orientation'],
+          headingSource: this.headingSource,
+          landmark: this.landmark || undefined,
+          timestamp: Date.now()
+      };
+  }
+
+  // Pose to send to the squad, or null if nothing changed enough since the last one
+  public nextBroadcast(): UnitPose | null {
+      const now = Date.now();
+      const last = this.lastBroadcast;
+      if (last
+          && last.landmark === this.landmark
+          && last.orientation.angleTo(this.orientation) < BROADCAST_ANGLE
+          && now - last.time < BROADCAST_REFRESH) {
+          return null;
+      }
+      this.lastBroadcast = { orientation: this.orientation.clone(), landmark: this.landmark, time: now };
+      return this.getPose();
+  }
+}
+
+const scratchPoint = new THREE.Vector3();
+const remoteOrientation = new THREE.Quaternion();
+const localOrientation = new THREE.Quaternion();
+const yawEuler = new THREE.Euler();
+
+const orientationOf = (pose: UnitPose, target: THREE.Quaternion, keepYaw: boolean) => {
+    target.fromArray(pose.orientation);
+    if (!keepYaw) {
+        yawEuler.setFromQuaternion(target, 'YXZ');
+        yawEuler.y = 0;
+        target.setFromEuler(yawEuler);
+    }
+    return target;
+};
+
+// Sender camera frame -> local camera frame. Yaw (and with it the landmark offset) is only
+// trusted when both units are compass-referenced; otherwise just tilt is compensated.
+export const toLocalFrame = (point: Vector3, remote: UnitPose | undefined, local: UnitPose): Vector3 => {
+    if (!remote) return point; // No pose from the sender yet, its camera frame is the best guess
+    const keepYaw = remote.headingSource === 'compass' && local.headingSource === 'compass';
+    const v = scratchPoint.set(point.x, point.y, point.z).applyQuaternion(orientationOf(remote, remoteOrientation, keepYaw));
+    if (keepYaw && remote.landmark && local.landmark) {
+        // Same landmark seen from both units: the difference is where the sender stands
+        v.x += local.landmark.x - remote.landmark.x;
+        v.y += local.landmark.y - remote.landmark.y;
+        v.z += local.landmark.z - remote.landmark.z;
+    }
+    v.applyQuaternion(orientationOf(local, localOrientation, keepYaw).invert());
+    return { x: v.x, y: v.y, z: v.z };
+};
@@ -0,0 +1,124 @@
+// Appearance gallery for re-identification. Tracks that end are kept with their last
+// appearance signature so an object walking back into view gets its old id (and with it
+// the codename, designation and marks keyed on that id) instead of a fresh one.
+export interface GalleryConfig {
+  maxSize: number; // Retired identities kept; the stalest are evicted first
+  expiryMs: number; // Forget identities not seen for this long
+  minSimilarity: number; // Bhattacharyya coefficient needed to reclaim an identity
+  smoothing: number; // Weight of a new observation in the running signature
+}
+
+export interface GalleryEntry {
+  id: number;
+  class: string;
+  embedding: number[];
+  firstSeen: number;
+  lastSeen: number;
+  sightings: number; // Times the identity was (re)acquired
+  active: boolean; // Currently held by a live track
+}
+
+export const DEFAULT_GALLERY_CONFIG: GalleryConfig = {
+  maxSize: 64,
+  expiryMs: 10 * 60 * 1000,
+  minSimilarity: 0.85,
+  smoothing: 0.2
+};
+
+const normalize = (v: number[]) => {
+  const total = v.reduce((sum, x) => sum + Math.max(0, x), 0);
+  return total > 0 ? v.map(x => Math.max(0, x) / total) : v.map(() => 1 / v.length);
+};
+
+// Overlap of two histograms, 1 = identical
+export const similarity = (a: number[], b: number[]): number => {
+  if (a.length !== b.length || a.length === 0) return 0;
+  const p = normalize(a);
+  const q = normalize(b);
+  return p.reduce((sum, x, i) => sum + Math.sqrt(x * q[i]), 0);
+};
+
+export class ReIdGallery {
+  private config: GalleryConfig;
+  private entries: Map<number, GalleryEntry> = new Map();
+
+  constructor(config: Partial<GalleryConfig> = {}) {
+    this.config = { ...DEFAULT_GALLERY_CONFIG, ...config };
+  }
+
+  // Takes effect from the next match or retirement
+  public configure(config: Partial<GalleryConfig>) {
+    this.config = { ...this.config, ...config };
+  }
+
+  // Live track `id` was seen with this signature
+  public observe(id: number, cls: string, embedding: number[] | undefined, time: number) {
+    const entry = this.entries.get(id);
+    if (!entry) {
+      if (!embedding) return;
+      this.entries.set(id, { id, class: cls, embedding: normalize(embedding), firstSeen: time, lastSeen: time, sightings: 1, active: true });
+      return;
+    }
+    if (embedding && embedding.length === entry.embedding.length) {
+      const k = this.config.smoothing;
+      entry.embedding = normalize(entry.embedding.map((x, i) => x * (1 - k) + embedding[i] * k));
+    }
+    entry.lastSeen = time;
+    entry.active = true;
+  }
+
+  // The track holding `id` ended; keep the identity around for re-identification
+  public retire(id: number, time: number) {
+    const entry = this.entries.get(id);
+    if (!entry) return;
+    entry.active = false;
+    this.prune(time);
+  }
+
+  // Claims the best retired identity of the same class, if it looks alike enough
+  public match(cls: string, embedding: number[] | undefined, time: number): GalleryEntry | undefined {
+    if (!embedding) return undefined;
+    this.prune(time);
+    let best: GalleryEntry | undefined;
+    let bestScore = this.config.minSimilarity;
+    this.entries.forEach(entry => {
+      if (entry.active || entry.class !== cls) return;
+      const score = similarity(entry.embedding, embedding);
+      if (score >= bestScore) {
+        bestScore = score;
+        best = entry;
+      }
+    });
+    if (best) {
+      best.active = true;
+      best.sightings++;
+      best.lastSeen = time;
+    }
+    return best;
+  }
+
+  public get(id: number) {
+    return this.entries.get(id);
+  }
+
+  public size() {
+    return this.entries.size;
+  }
+
+  public clear() {
+    this.entries.clear();
+  }
+
+  private prune(time: number) {
+    const retired: GalleryEntry[] = [];
+    this.entries.forEach(entry => {
+      if (entry.active) return;
+      if (time - entry.lastSeen > this.config.expiryMs) this.entries.delete(entry.id);
+      else retired.push(entry);
+    });
+    retired
+      .sort((a, b) => a.lastSeen - b.lastSeen)
+      .slice(0, Math.max(0, retired.length - this.config.maxSize))
+      .forEach(entry => this.entries.delete(entry.id));
+  }
+}
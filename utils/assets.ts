@@ -0,0 +1,104 @@
+// Self-hosted runtime assets: TF.js runtimes, model weights and avatar meshes are served from
+// the app (public/), fetched there by `npm run assets` and cached by the service worker (public/sw.js).
+// The boot sequence checks them against the manifest the script writes; anything missing falls
+// back to its upstream URL, which only works online.
+
+export type AssetId =
+  | 'tfjs-core' | 'tfjs-converter' | 'tfjs-backend-webgl'
+  | 'hand-pose-detection' | 'coco-ssd' | 'pose-detection'
+  | 'coco-ssd-lite' | 'coco-ssd-v2' | 'coco-ssd-v1'
+  | 'hand-detector' | 'hand-landmark' | 'movenet-multipose'
+  | 'avatar-helmet' | 'avatar-robot';
+
+export type AssetGroup = 'runtime' | 'model' | 'avatar';
+
+export interface AssetSource {
+  id: AssetId;
+  group: AssetGroup;
+  path: string; // Under public/; for models the model.json, for glTF the .gltf
+  upstream: string; // As the loading library accepts it (TF Hub models by their handle)
+}
+
+export const ASSET_MANIFEST = 'assets-manifest.json';
+
+// Runtimes in importScripts order
+export const ASSETS: AssetSource[] = [
+  { id: 'tfjs-core', group: 'runtime', path: 'vendor/tf-core.min.js', upstream: 'https://cdn.jsdelivr.net/npm/@tensorflow/tfjs-core@4.17.0/dist/tf-core.min.js' },
+  { id: 'tfjs-converter', group: 'runtime', path: 'vendor/tf-converter.min.js', upstream: 'https://cdn.jsdelivr.net/npm/@tensorflow/tfjs-converter@4.17.0/dist/tf-converter.min.js' },
+  { id: 'tfjs-backend-webgl', group: 'runtime', path: 'vendor/tf-backend-webgl.min.js', upstream: 'https://cdn.jsdelivr.net/npm/@tensorflow/tfjs-backend-webgl@4.17.0/dist/tf-backend-webgl.min.js' },
+  { id: 'hand-pose-detection', group: 'runtime', path: 'vendor/hand-pose-detection.min.js', upstream: 'https://cdn.jsdelivr.net/npm/@tensorflow-models/hand-pose-detection@2.0.1/dist/hand-pose-detection.min.js' },
+  { id: 'coco-ssd', group: 'runtime', path: 'vendor/coco-ssd.min.js', upstream: 'https://cdn.jsdelivr.net/npm/@tensorflow-models/coco-ssd@2.2.3/dist/coco-ssd.min.js' },
+  { id: 'pose-detection', group: 'runtime', path: 'vendor/pose-detection.min.js', upstream: 'https://cdn.jsdelivr.net/npm/@tensorflow-models/pose-detection@2.1.3/dist/pose-detection.min.js' },
+  { id: 'coco-ssd-lite', group: 'model', path: 'models/coco-ssd-lite/model.json', upstream: 'https://storage.googleapis.com/tfjs-models/savedmodel/ssdlite_mobilenet_v2/model.json' },
+  { id: 'coco-ssd-v2', group: 'model', path: 'models/coco-ssd-v2/model.json', upstream: 'https://storage.googleapis.com/tfjs-models/savedmodel/ssd_mobilenet_v2/model.json' },
+  { id: 'coco-ssd-v1', group: 'model', path: 'models/coco-ssd-v1/model.json', upstream: 'https://storage.googleapis.com/tfjs-models/savedmodel/ssd_mobilenet_v1/model.json' },
+  { id: 'hand-detector', group: 'model', path: 'models/hand-detector/model.json', upstream: 'https://tfhub.dev/mediapipe/tfjs-model/handpose_3d/detector/lite/1' },
+  { id: 'hand-landmark', group: 'model', path: 'models/hand-landmark/model.json', upstream: 'https://tfhub.dev/mediapipe/tfjs-model/handpose_3d/landmark/lite/1' },
+  { id: 'movenet-multipose', group: 'model', path: 'models/movenet-multipose/model.json', upstream: 'https://tfhub.dev/google/tfjs-model/movenet/multipose/lightning/1' },
+  { id: 'avatar-helmet', group: 'avatar', path: 'avatars/DamagedHelmet/DamagedHelmet.gltf', upstream: 'https://raw.githubusercontent.com/mrdoob/three.js/master/examples/models/gltf/DamagedHelmet/glTF/DamagedHelmet.gltf' },
+  { id: 'avatar-robot', group: 'avatar', path: 'avatars/RobotExpressive.glb', upstream: 'https://raw.githubusercontent.com/mrdoob/three.js/master/examples/models/gltf/RobotExpressive/RobotExpressive.glb' }
+];
+
+export interface ManifestFile {
+  path: string; // Under public/
+  size: number; // Bytes
+}
+
+// Written by scripts/fetchAssets.ts: every file each asset needs (weight shards, glTF buffers and textures)
+export interface AssetManifest {
+  generated: string; // ISO time
+  assets: Partial<Record<AssetId, ManifestFile[]>>;
+}
+
+export interface AssetReport {
+  urls: Record<AssetId, string>; // Absolute; local when present, upstream otherwise
+  missing: AssetSource[];
+  checked: number; // Files probed
+  manifest: boolean; // False when the manifest itself is missing (assets never fetched)
+}
+
+type Fetch = (input: string, init?: RequestInit) => Promise<Response>;
+
+// Per request; a dead dev server should not stall the boot
+const PROBE_TIMEOUT_MS = 4000;
+
+const probe = async (fetchFn: Fetch, url: string, size: number): Promise<boolean> => {
+  try {
+    const res = await fetchFn(url, { method: 'HEAD', cache: 'no-cache', signal: AbortSignal.timeout(PROBE_TIMEOUT_MS) });
+    if (!res.ok) return false;
+    // SPA dev servers answer unknown paths with index.html; no asset is HTML
+    if (res.headers.get('content-type')?.startsWith('text/html')) return false;
+    // A compressed response reports the compressed length, only a plain one can be compared
+    const length = res.headers.get('content-length');
+    if (length !== null && !res.headers.get('content-encoding')) return Number(length) === size;
+    return true;
+  } catch (e) {
+    return false;
+  }
+};
+
+// base: absolute URL public/ is served from
+export const checkAssets = async (base: string, fetchFn: Fetch = fetch): Promise<AssetReport> => {
+  let manifest: AssetManifest | null = null;
+  try {
+    const res = await fetchFn(new URL(ASSET_MANIFEST, base).href, { cache: 'no-cache', signal: AbortSignal.timeout(PROBE_TIMEOUT_MS) });
+    if (res.ok) manifest = await res.json();
+  } catch (e) {
+    manifest = null; // Not fetched yet, or unreadable: treat every asset as missing
+  }
+
+  let checked = 0;
+  const present = await Promise.all(ASSETS.map(async (asset) => {
+    const files = manifest?.assets?.[asset.id];
+    if (!files || files.length === 0) return false;
+    checked += files.length;
+    const results = await Promise.all(files.map(f => probe(fetchFn, new URL(f.path, base).href, f.size)));
+    return results.every(Boolean);
+  }));
+
+  const urls = {} as Record<AssetId, string>;
+  ASSETS.forEach((asset, i) => {
+    urls[asset.id] = present[i] ? new URL(asset.path, base).href : asset.upstream;
+  });
+  return { urls, missing: ASSETS.filter((_, i) => !present[i]), checked, manifest: manifest !== null };
+};
@@ -0,0 +1,130 @@
+import { Keypoint, Posture } from '../types';
+
+// Body posture from the 17 COCO keypoints the worker's pose model returns for each person.
+// Single frames are classified from joint angles, then smoothed per track; a fall is a track
+// that goes from upright to lying within a short window.
+export const KEYPOINT = {
+  nose: 0, leftEye: 1, rightEye: 2, leftEar: 3, rightEar: 4,
+  leftShoulder: 5, rightShoulder: 6, leftElbow: 7, rightElbow: 8, leftWrist: 9, rightWrist: 10,
+  leftHip: 11, rightHip: 12, leftKnee: 13, rightKnee: 14, leftAnkle: 15, rightAnkle: 16
+};
+
+// Bone pairs drawn as the skeleton
+export const SKELETON_EDGES: [number, number][] = [
+  [0, 1], [0, 2], [1, 3], [2, 4],
+  [5, 6], [5, 7], [7, 9], [6, 8], [8, 10],
+  [5, 11], [6, 12], [11, 12],
+  [11, 13], [13, 15], [12, 14], [14, 16]
+];
+
+export interface PostureConfig {
+  minScore: number; // Keypoints below this confidence are ignored
+  lyingAngle: number; // Torso tilt from vertical, degrees
+  sittingAngle: number; // Thigh tilt from vertical, degrees
+  smoothing: number; // Recent frames that vote on a track's posture
+  minVotes: number; // Votes a posture needs to replace the current one
+  fallWindowMs: number; // Upright to lying faster than this is a fall
+}
+
+export const DEFAULT_POSTURE_CONFIG: PostureConfig = {
+  minScore: 0.3,
+  lyingAngle: 60,
+  sittingAngle: 50,
+  smoothing: 5,
+  minVotes: 3,
+  fallWindowMs: 2000
+};
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+// Degrees between a -> b and straight down the image (y grows downwards)
+const tiltFromVertical = (a: Point, b: Point) =>
+  Math.atan2(Math.abs(b.x - a.x), b.y - a.y) * 180 / Math.PI;
+
+const isUpright = (posture?: Posture) => posture === 'STANDING' || posture === 'ARMS_RAISED';
+
+export const classifyPosture = (keypoints: Keypoint[], config: PostureConfig = DEFAULT_POSTURE_CONFIG): Posture | undefined => {
+  const at = (i: number): Point | null => {
+    const k = keypoints[i];
+    return k && k[2] >= config.minScore ? { x: k[0], y: k[1] } : null;
+  };
+  const mid = (i: number, j: number): Point | null => {
+    const a = at(i), b = at(j);
+    if (a && b) return { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+    return a || b;
+  };
+
+  const shoulders = mid(KEYPOINT.leftShoulder, KEYPOINT.rightShoulder);
+  const hips = mid(KEYPOINT.leftHip, KEYPOINT.rightHip);
+  if (!shoulders) return undefined;
+
+  if (hips && tiltFromVertical(shoulders, hips) > config.lyingAngle) return 'LYING';
+
+  const leftWrist = at(KEYPOINT.leftWrist), rightWrist = at(KEYPOINT.rightWrist);
+  if (leftWrist && rightWrist && leftWrist.y < shoulders.y && rightWrist.y < shoulders.y) return 'ARMS_RAISED';
+
+  if (!hips) return undefined; // Upper body only: nothing to tell standing from sitting
+  const torso = Math.hypot(hips.x - shoulders.x, hips.y - shoulders.y);
+  const thighs = [[KEYPOINT.leftHip, KEYPOINT.leftKnee], [KEYPOINT.rightHip, KEYPOINT.rightKnee]]
+    .map(([h, k]) => ({ hip: at(h), knee: at(k) }))
+    .filter((t): t is { hip: Point; knee: Point } => !!t.hip && !!t.knee);
+  if (thighs.length === 0) return undefined;
+
+  // Thighs pointing at the camera are foreshortened instead of tilted
+  const sitting = thighs.every(({ hip, knee }) =>
+    tiltFromVertical(hip, knee) > config.sittingAngle || Math.hypot(knee.x - hip.x, knee.y - hip.y) < torso * 0.4);
+  return sitting ? 'SITTING' : 'STANDING';
+};
+
+interface PostureState {
+  votes: Posture[];
+  posture?: Posture;
+  uprightAt: number;
+}
+
+// Per-track smoothing of the frame-by-frame classification, plus fall detection
+export class PostureMonitor {
+  private config: PostureConfig;
+  private states = new Map<string | number, PostureState>();
+
+  constructor(config: Partial<PostureConfig> = {}) {
+    this.config = { ...DEFAULT_POSTURE_CONFIG, ...config };
+  }
+
+  public update(id: string | number, observed: Posture | undefined, time: number): Posture | undefined {
+    let state = this.states.get(id);
+    if (!state) {
+      state = { votes: [], uprightAt: -Infinity };
+      this.states.set(id, state);
+    }
+    if (!observed) return state.posture;
+
+    state.votes.push(observed);
+    if (state.votes.length > this.config.smoothing) state.votes.shift();
+    const count = state.votes.filter(p => p === observed).length;
+    const winner = count >= Math.min(this.config.minVotes, this.config.smoothing) ? observed : undefined;
+
+    if (winner && winner !== state.posture) {
+      const wasDown = state.posture === 'LYING' || state.posture === 'FALLEN';
+      if (winner === 'LYING' && !wasDown && time - state.uprightAt <= this.config.fallWindowMs) state.posture = 'FALLEN';
+      else if (winner !== 'LYING' || !wasDown) state.posture = winner;
+    }
+    if (isUpright(state.posture)) state.uprightAt = time;
+    return state.posture;
+  }
+
+  public get(id: string | number) {
+    return this.states.get(id)?.posture;
+  }
+
+  public forget(id: string | number) {
+    this.states.delete(id);
+  }
+
+  public clear() {
+    this.states.clear();
+  }
+}
@@ -0,0 +1,28 @@
+import { CameraCalibration, SizeProfile } from '../types';
+
+const CALIBRATION_KEY = 'veraos.calibration';
+const SIZE_PROFILES_KEY = 'veraos.sizeProfiles';
+
+const load = <T>(key: string): T | null => {
+  try {
+    return JSON.parse(localStorage.getItem(key) || 'null');
+  } catch (e) {
+    return null;
+  }
+};
+
+const save = (key: string, value: unknown) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (e) {
+    // Private mode / quota: the values still apply for this session
+  }
+};
+
+// Keyed by CameraDevice.deviceId
+export const loadCalibrations = (): Record<string, CameraCalibration> => load(CALIBRATION_KEY) || {};
+export const saveCalibrations = (calibrations: Record<string, CameraCalibration>) => save(CALIBRATION_KEY, calibrations);
+
+// Operator overrides only, defaults live in objectGeometry
+export const loadSizeProfiles = (): Record<string, SizeProfile> => load(SIZE_PROFILES_KEY) || {};
+export const saveSizeProfiles = (profiles: Record<string, SizeProfile>) => save(SIZE_PROFILES_KEY, profiles);
@@ -0,0 +1,85 @@
+// Monocular depth models (MiDaS and friends) give relative inverse depth, correct up to an
+// unknown scale and shift that drift with the scene. DepthScale fits 1/Z = a*r + b against
+// metric estimates from known-size objects, then converts the model output for every box.
+export interface DepthScaleConfig {
+  maxSamples: number; // Sliding window of (model, metric) pairs
+  minSamples: number; // Pairs needed before the fit is trusted
+  minDepth: number; // Clamp, metres
+  maxDepth: number;
+}
+
+export const DEFAULT_DEPTH_SCALE_CONFIG: DepthScaleConfig = {
+  maxSamples: 60,
+  minSamples: 6,
+  minDepth: 0.3,
+  maxDepth: 50
+};
+
+interface Sample {
+  r: number; // Model output
+  inv: number; // 1 / metric depth
+}
+
+export class DepthScale {
+  private config: DepthScaleConfig;
+  private samples: Sample[] = [];
+  private a = 0;
+  private b = 0;
+  private fitted = false;
+
+  constructor(config: Partial<DepthScaleConfig> = {}) {
+    this.config = { ...DEFAULT_DEPTH_SCALE_CONFIG, ...config };
+  }
+
+  public observe(modelValue: number, metricDepth: number) {
+    if (!isFinite(modelValue) || !(metricDepth > 0)) return;
+    this.samples.push({ r: modelValue, inv: 1 / metricDepth });
+    if (this.samples.length > this.config.maxSamples) this.samples.shift();
+    this.fit();
+  }
+
+  // Metric depth for a model value, or null until enough pairs have been seen
+  public toMetric(modelValue: number): number | null {
+    if (!this.fitted || !isFinite(modelValue)) return null;
+    const inv = this.a * modelValue + this.b;
+    if (!(inv > 0)) return null;
+    return Math.max(this.config.minDepth, Math.min(this.config.maxDepth, 1 / inv));
+  }
+
+  public isFitted() {
+    return this.fitted;
+  }
+
+  public reset() {
+    this.samples = [];
+    this.fitted = false;
+  }
+
+  private fit() {
+    const n = this.samples.length;
+    if (n < this.config.minSamples) {
+      this.fitted = false;
+      return;
+    }
+    let sr = 0, si = 0, srr = 0, sri = 0;
+    this.samples.forEach(({ r, inv }) => {
+      sr += r; si += inv; srr += r * r; sri += r * inv;
+    });
+    const variance = srr - sr * sr / n;
+    if (variance > 1e-9 * Math.max(1, srr)) {
+      this.a = (sri - sr * si / n) / variance;
+      this.b = (si - this.a * sr) / n;
+    }
+    // All pairs at one model value, or a fit that inverts the depth order: scale only
+    if (variance <= 1e-9 * Math.max(1, srr) || this.a <= 0) {
+      const ratios = this.samples.filter(s => s.r > 0).map(s => s.inv / s.r).sort((x, y) => x - y);
+      if (ratios.length === 0) {
+        this.fitted = false;
+        return;
+      }
+      this.a = ratios[Math.floor(ratios.length / 2)];
+      this.b = 0;
+    }
+    this.fitted = true;
+  }
+}
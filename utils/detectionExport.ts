@@ -0,0 +1,184 @@
+import { TrackedObject } from '../types';
+import { createZip, ZipEntry } from './zip';
+
+// One HUD update as exported: what was tracked, in video pixels
+export interface ExportFrame {
+  index: number; // 1-based, as MOTChallenge counts
+  t: number; // ms, wall clock
+  width: number; // Video frame size the boxes refer to
+  height: number;
+  objects: TrackedObject[];
+  jpeg?: Uint8Array; // Gemini frame capture taken at this update, if any
+}
+
+export interface DetectionLogConfig {
+  intervalMs: number; // One frame per interval; the HUD updates every animation frame
+  maxFrames: number;
+  maxJpegs: number; // Oldest captures are dropped first, their frames stay
+}
+
+export const DEFAULT_DETECTION_LOG_CONFIG: DetectionLogConfig = {
+  intervalMs: 100,
+  maxFrames: 6000, // 10 minutes at 10 fps
+  maxJpegs: 300
+};
+
+const decodeBase64 = (base64: string) => Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+
+// Rolling record of what the HUD tracked, ready to export
+export class DetectionLog {
+  private frames: Omit<ExportFrame, 'index'>[] = [];
+  private jpegCount = 0;
+  private config: DetectionLogConfig;
+
+  constructor(config: Partial<DetectionLogConfig> = {}) {
+    this.config = { ...DEFAULT_DETECTION_LOG_CONFIG, ...config };
+  }
+
+  public get frameCount() {
+    return this.frames.length;
+  }
+
+  public get capturedCount() {
+    return this.jpegCount;
+  }
+
+  // Seconds between the first and last frame kept
+  public get span() {
+    return this.frames.length > 1 ? (this.frames[this.frames.length - 1].t - this.frames[0].t) / 1000 : 0;
+  }
+
+  // Local objects only: remote boxes are in another unit's camera frame
+  public record(objects: TrackedObject[], t: number, width: number, height: number) {
+    const last = this.frames[this.frames.length - 1];
+    if (last && t - last.t < this.config.intervalMs) return;
+    this.frames.push({ t, width, height, objects: objects.filter(o => !o.isRemote) });
+    if (this.frames.length > this.config.maxFrames) {
+      const dropped = this.frames.shift()!;
+      if (dropped.jpeg) this.jpegCount--;
+    }
+  }
+
+  // A frame capture (base64 JPEG) belongs to the latest update
+  public attachJpeg(base64: string) {
+    const last = this.frames[this.frames.length - 1];
+    if (!last) return;
+    if (!last.jpeg) this.jpegCount++;
+    last.jpeg = decodeBase64(base64);
+    if (this.jpegCount > this.config.maxJpegs) {
+      const oldest = this.frames.find(f => f.jpeg);
+      if (oldest) {
+        oldest.jpeg = undefined;
+        this.jpegCount--;
+      }
+    }
+  }
+
+  // Numbered from 1 at the oldest frame kept
+  public getFrames(): ExportFrame[] {
+    return this.frames.map((f, i) => ({ ...f, index: i + 1 }));
+  }
+
+  public clear() {
+    this.frames = [];
+    this.jpegCount = 0;
+  }
+}
+
+// Image size from the SOF header, which may be smaller than the video (captures follow link quality)
+export const jpegSize = (data: Uint8Array): { width: number; height: number } | null => {
+  let pos = 2; // After SOI
+  while (pos + 9 < data.length) {
+    if (data[pos] !== 0xFF) return null;
+    const marker = data[pos + 1];
+    const length = (data[pos + 2] << 8) | data[pos + 3];
+    const isSof = marker >= 0xC0 && marker <= 0xCF && marker !== 0xC4 && marker !== 0xC8 && marker !== 0xCC;
+    if (isSof) return { height: (data[pos + 5] << 8) | data[pos + 6], width: (data[pos + 7] << 8) | data[pos + 8] };
+    pos += 2 + length;
+  }
+  return null;
+};
+
+// MOTChallenge needs positive integer ids; string ids get numbers past the largest numeric one
+const motIds = (frames: ExportFrame[]) => {
+  const ids = new Map<string | number, number>();
+  let next = frames.reduce((max, f) => f.objects.reduce((m, o) => (typeof o.id === 'number' ? Math.max(m, o.id) : m), max), 0) + 1;
+  frames.forEach(f => f.objects.forEach(o => {
+    if (ids.has(o.id)) return;
+    ids.set(o.id, typeof o.id === 'number' && o.id > 0 ? o.id : next++);
+  }));
+  return ids;
+};
+
+const fixed = (v: number, digits = 2) => Number(v.toFixed(digits));
+
+const frameFile = (index: number) => `img1/${String(index).padStart(6, '0')}.jpg`;
+
+// gt.txt rows: frame, id, bb_left, bb_top, bb_width, bb_height, conf, x, y, z (world, metres)
+export const toMotCsv = (frames: ExportFrame[]): string => {
+  const ids = motIds(frames);
+  const rows = frames.flatMap(f => f.objects.map(o => [
+    f.index, ids.get(o.id), ...o.bbox.map(v => fixed(v)), fixed(o.confidence, 3),
+    fixed(o.position3D.x, 3), fixed(o.position3D.y, 3), fixed(o.position3D.z, 3)
+  ].join(',')));
+  return rows.length ? rows.join('\n') + '\n' : '';
+};
+
+export const toMotSeqInfo = (frames: ExportFrame[], name: string, intervalMs = DEFAULT_DETECTION_LOG_CONFIG.intervalMs): string => {
+  const first = frames[0];
+  return [
+    '[Sequence]',
+    `name=${name}`,
+    'imDir=img1',
+    `frameRate=${Math.round(1000 / intervalMs)}`,
+    `seqLength=${first ? frames[frames.length - 1].index - first.index + 1 : 0}`,
+    `imWidth=${first?.width ?? 0}`,
+    `imHeight=${first?.height ?? 0}`,
+    'imExt=.jpg',
+    ''
+  ].join('\n');
+};
+
+// COCO detection JSON. With images, only frames that have a capture are listed and boxes are
+// scaled to the capture's size; without, every frame is listed at the video size.
+export const toCocoJson = (frames: ExportFrame[], withImages: boolean, description = 'VERA OS detections'): string => {
+  const listed = withImages ? frames.filter(f => f.jpeg) : frames;
+  const classes = [...new Set(frames.flatMap(f => f.objects.map(o => o.class)))].sort();
+  const categoryId = new Map(classes.map((c, i) => [c, i + 1]));
+  const ids = motIds(frames);
+  const images: object[] = [];
+  const annotations: object[] = [];
+
+  listed.forEach(f => {
+    const size = (withImages && f.jpeg && jpegSize(f.jpeg)) || { width: f.width, height: f.height };
+    const sx = size.width / f.width;
+    const sy = size.height / f.height;
+    images.push({ id: f.index, file_name: frameFile(f.index), width: size.width, height: size.height, date_captured: new Date(f.t).toISOString() });
+    f.objects.forEach(o => {
+      const bbox = [o.bbox[0] * sx, o.bbox[1] * sy, o.bbox[2] * sx, o.bbox[3] * sy].map(v => fixed(v));
+      annotations.push({
+        id: annotations.length + 1, image_id: f.index, category_id: categoryId.get(o.class), bbox,
+        area: fixed(bbox[2] * bbox[3]), iscrowd: 0, score: fixed(o.confidence, 3), track_id: ids.get(o.id),
+        attributes: { gesture: o.gesture ?? null, posture: o.posture ?? null, distance: fixed(o.distance, 3), occluded: !!o.isOccluded }
+      });
+    });
+  });
+
+  return JSON.stringify({
+    info: { description, date_created: new Date().toISOString() },
+    images,
+    annotations,
+    categories: classes.map(c => ({ id: categoryId.get(c), name: c, supercategory: c === 'person' || c === 'hand' ? 'person' : 'object' }))
+  }, null, 1);
+};
+
+// MOT sequence layout, with the COCO file beside it so both point at the same img1/
+export const buildExportZip = (frames: ExportFrame[], withImages: boolean, name: string): Uint8Array => {
+  const entries: ZipEntry[] = [
+    { name: `${name}/seqinfo.ini`, data: toMotSeqInfo(frames, name) },
+    { name: `${name}/gt/gt.txt`, data: toMotCsv(frames) },
+    { name: `${name}/annotations.coco.json`, data: toCocoJson(frames, withImages, name) }
+  ];
+  if (withImages) frames.forEach(f => f.jpeg && entries.push({ name: `${name}/${frameFile(f.index)}`, data: f.jpeg }));
+  return createZip(entries);
+};
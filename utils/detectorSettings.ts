@@ -0,0 +1,56 @@
+import { DetectorConfig, DetectorId } from '../types';
+import { GalleryConfig, DEFAULT_GALLERY_CONFIG } from './ReIdGallery';
+
+const STORAGE_KEY = 'veraos.detector';
+const GALLERY_KEY = 'veraos.reidGallery';
+
+export interface DetectorDescriptor {
+  id: DetectorId;
+  label: string;
+  needsUrl: boolean; // Model is not bundled with the worker
+}
+
+// Mirrors DETECTOR_PLUGINS in the worker script
+export const DETECTORS: DetectorDescriptor[] = [
+  { id: 'coco-ssd-lite', label: 'COCO-SSD LITE MOBILENET V2', needsUrl: false },
+  { id: 'coco-ssd-v2', label: 'COCO-SSD MOBILENET V2', needsUrl: false },
+  { id: 'coco-ssd-v1', label: 'COCO-SSD MOBILENET V1', needsUrl: false },
+  { id: 'yolo', label: 'YOLO (COCO, TF.JS GRAPH)', needsUrl: true },
+  { id: 'custom', label: 'СВОЯ МОДЕЛЬ (YOLO-ФОРМАТ)', needsUrl: true }
+];
+
+export const DEFAULT_DETECTOR: DetectorConfig = { id: 'coco-ssd-lite' };
+
+export const loadDetectorConfig = (): DetectorConfig => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    return stored && DETECTORS.some(d => d.id === stored.id) ? stored : { ...DEFAULT_DETECTOR };
+  } catch (e) {
+    return { ...DEFAULT_DETECTOR };
+  }
+};
+
+export const saveDetectorConfig = (config: DetectorConfig) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+  } catch (e) {
+    // Private mode / quota: the choice still applies for this session
+  }
+};
+
+// Re-identification gallery limits, edited next to the detector whose tracks feed it
+export const loadGalleryConfig = (): GalleryConfig => {
+  try {
+    return { ...DEFAULT_GALLERY_CONFIG, ...JSON.parse(localStorage.getItem(GALLERY_KEY) || 'null') };
+  } catch (e) {
+    return { ...DEFAULT_GALLERY_CONFIG };
+  }
+};
+
+export const saveGalleryConfig = (config: GalleryConfig) => {
+  try {
+    localStorage.setItem(GALLERY_KEY, JSON.stringify(config));
+  } catch (e) {
+    // Private mode / quota: the limits still apply for this session
+  }
+};
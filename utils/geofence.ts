@@ -0,0 +1,219 @@
+import { GeoZone, TrackedObject, TripwireDirection } from '../types';
+
+type Point = [number, number];
+
+export interface ZoneEvent {
+  zone: GeoZone;
+  objectId: string | number;
+  kind: 'enter' | 'dwell' | 'cross';
+  direction?: 'forward' | 'reverse'; // Crossings
+}
+
+export interface GeofenceConfig {
+  classes: string[]; // Who sets zones off
+  rearmMs: number; // Stepping out and back within this is one visit; a wire re-arms after it
+  forgetMs: number; // Drop an object's state once unseen this long
+  flashMs: number; // How long a zone stays highlighted after an alert
+}
+
+export const DEFAULT_GEOFENCE_CONFIG: GeofenceConfig = {
+  classes: ['person'],
+  rearmMs: 2000,
+  forgetMs: 3000,
+  flashMs: 1500
+};
+
+export const pointInPolygon = ([x, y]: Point, polygon: Point[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [xi, yi] = polygon[i];
+    const [xj, yj] = polygon[j];
+    if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+};
+
+// Positive on the right-hand side of a -> b as seen on screen (y down)
+const side = (a: Point, b: Point, p: Point) => (b[0] - a[0]) * (p[1] - a[1]) - (b[1] - a[1]) * (p[0] - a[0]);
+
+// Which way the path from -> to crossed the wire, or null if it did not
+export const crossing = (wire: [Point, Point], from: Point, to: Point): 'forward' | 'reverse' | null => {
+  const [a, b] = wire;
+  const s0 = side(a, b, from);
+  const s1 = side(a, b, to);
+  if (s0 === 0 || Math.sign(s0) === Math.sign(s1)) return null;
+  // The wire's ends must straddle the path too, or it passed beside the wire
+  const e0 = side(from, to, a);
+  const e1 = side(from, to, b);
+  if (e0 !== 0 && e1 !== 0 && Math.sign(e0) === Math.sign(e1)) return null;
+  return s1 > 0 ? 'forward' : 'reverse';
+};
+
+// Where a person stands: bottom center of the box, as frame fractions
+const anchorOf = (o: TrackedObject, frameW: number, frameH: number): Point =>
+  [(o.bbox[0] + o.bbox[2] / 2) / frameW, (o.bbox[1] + o.bbox[3]) / frameH];
+
+interface Presence {
+  inside: boolean;
+  since: number; // Start of the current visit
+  exitedAt: number;
+  dwellFired: boolean;
+}
+
+// Turns tracked boxes into zone entries, overstays and tripwire crossings
+export class GeofenceMonitor {
+  private config: GeofenceConfig;
+  private presence = new Map<string, Presence>(); // `${zone}|${object}`
+  private anchors = new Map<string | number, { point: Point; lastSeen: number }>();
+  private lastCrossing = new Map<string, number>(); // `${wire}|${object}`
+  private lastAlert = new Map<string, number>(); // Zone id -> time
+
+  constructor(config: Partial<GeofenceConfig> = {}) {
+    this.config = { ...DEFAULT_GEOFENCE_CONFIG, ...config };
+  }
+
+  public update(zones: GeoZone[], objects: TrackedObject[], frameW: number, frameH: number, now: number): ZoneEvent[] {
+    const events: ZoneEvent[] = [];
+    const emit = (event: ZoneEvent) => {
+      events.push(event);
+      this.lastAlert.set(event.zone.id, now);
+    };
+
+    objects.forEach(o => {
+      if (o.isRemote || !this.config.classes.includes(o.class)) return;
+      const point = anchorOf(o, frameW, frameH);
+      const previous = this.anchors.get(o.id);
+      this.anchors.set(o.id, { point, lastSeen: now });
+
+      zones.forEach(zone => {
+        const key = `${zone.id}|${o.id}`;
+        if (zone.kind === 'tripwire') {
+          if (!previous || zone.points.length < 2) return;
+          const direction = crossing([zone.points[0], zone.points[1]], previous.point, point);
+          if (!direction || now - (this.lastCrossing.get(key) ?? -Infinity) < this.config.rearmMs) return;
+          this.lastCrossing.set(key, now);
+          const wanted = zone.direction || 'both';
+          if (wanted === 'both' || wanted === direction) emit({ zone, objectId: o.id, kind: 'cross', direction });
+          return;
+        }
+
+        const inside = zone.points.length >= 3 && pointInPolygon(point, zone.points);
+        const state = this.presence.get(key);
+        if (inside && !state?.inside) {
+          const revisit = state && now - state.exitedAt < this.config.rearmMs;
+          if (revisit) state!.inside = true;
+          else {
+            this.presence.set(key, { inside: true, since: now, exitedAt: 0, dwellFired: false });
+            emit({ zone, objectId: o.id, kind: 'enter' });
+          }
+        } else if (!inside && state?.inside) {
+          state.inside = false;
+          state.exitedAt = now;
+        }
+        const current = this.presence.get(key);
+        if (current?.inside && zone.dwellSeconds && !current.dwellFired && now - current.since >= zone.dwellSeconds * 1000) {
+          current.dwellFired = true;
+          emit({ zone, objectId: o.id, kind: 'dwell' });
+        }
+      });
+    });
+
+    this.prune(zones, now);
+    return events;
+  }
+
+  // Zones with someone inside or a recent alert, for the overlay
+  public activeZoneIds(now: number): string[] {
+    const ids = new Set<string>();
+    this.presence.forEach((state, key) => state.inside && ids.add(key.slice(0, key.indexOf('|'))));
+    this.lastAlert.forEach((t, id) => now - t < this.config.flashMs && ids.add(id));
+    return [...ids].sort();
+  }
+
+  public clear() {
+    this.presence.clear();
+    this.anchors.clear();
+    this.lastCrossing.clear();
+    this.lastAlert.clear();
+  }
+
+  private prune(zones: GeoZone[], now: number) {
+    const zoneIds = new Set(zones.map(z => z.id));
+    const gone = new Set<string>();
+    this.anchors.forEach((a, id) => {
+      if (now - a.lastSeen <= this.config.forgetMs) return;
+      this.anchors.delete(id);
+      gone.add(String(id));
+    });
+    [this.presence, this.lastCrossing].forEach((map: Map<string, unknown>) => {
+      const keys: string[] = Array.from(map.keys());
+      keys.forEach(key => {
+        const [zoneId, objectId] = [key.slice(0, key.indexOf('|')), key.slice(key.indexOf('|') + 1)];
+        if (!zoneIds.has(zoneId) || gone.has(objectId)) map.delete(key);
+      });
+    });
+    const alerted: string[] = Array.from(this.lastAlert.keys());
+    alerted.forEach(id => !zoneIds.has(id) && this.lastAlert.delete(id));
+  }
+}
+
+// Line segments to draw, as pairs of frame-fraction points: the outline, plus an arrow across a
+// one-way wire. aspect (video width / height) keeps the arrow square on screen.
+export const zoneSegments = (zone: GeoZone, aspect: number): Point[] => {
+  const pts = zone.points;
+  if (zone.kind === 'zone') return pts.flatMap((p, i) => [p, pts[(i + 1) % pts.length]]);
+  if (pts.length < 2) return [];
+  const [a, b] = pts;
+  const segments: Point[] = [a, b];
+  const direction = zone.direction || 'both';
+  if (direction === 'both') return segments;
+  // Right-hand normal in square (height) units, flipped for reverse
+  const dx = (b[0] - a[0]) * aspect, dy = b[1] - a[1];
+  const len = Math.hypot(dx, dy) || 1;
+  const sign = direction === 'forward' ? 1 : -1;
+  const nx = (-dy / len) * sign, ny = (dx / len) * sign;
+  const size = 0.08;
+  const mid: Point = [(a[0] + b[0]) / 2, (a[1] + b[1]) / 2];
+  const at = (along: number, across: number): Point => [mid[0] + (nx * along + -ny * across) / aspect, mid[1] + ny * along + nx * across];
+  const tip = at(size, 0);
+  segments.push(at(-size * 0.5, 0), tip, tip, at(size * 0.6, size * 0.3), tip, at(size * 0.6, -size * 0.3));
+  return segments;
+};
+
+export type PresetArea = 'view' | 'left' | 'right' | 'near' | 'far' | 'target';
+export type PresetDirection = 'both' | 'left-to-right' | 'right-to-left' | 'toward-camera' | 'away-from-camera';
+
+const clamp01 = (v: number) => Math.max(0, Math.min(1, v));
+const rect = (x0: number, y0: number, x1: number, y1: number): Point[] =>
+  [[x0, y0], [x1, y0], [x1, y1], [x0, y1]].map(([x, y]) => [clamp01(x), clamp01(y)] as Point);
+
+// Spoken requests ("perimeter here", "tripwire left to right") as shapes on the current view.
+// target: the selected object's box as frame fractions, for area 'target'.
+export const presetZone = (
+  kind: GeoZone['kind'],
+  area: PresetArea = 'view',
+  options: { direction?: PresetDirection; dwellSeconds?: number; target?: [number, number, number, number] } = {}
+): Pick<GeoZone, 'kind' | 'points' | 'dwellSeconds' | 'direction'> => {
+  const t = area === 'target' ? options.target : undefined;
+  if (kind === 'zone') {
+    const points = t ? rect(t[0] - t[2] / 2, t[1] + t[3] * 0.5, t[0] + t[2] * 1.5, t[1] + t[3] * 1.2)
+      : area === 'left' ? rect(0.05, 0.05, 0.5, 0.95)
+      : area === 'right' ? rect(0.5, 0.05, 0.95, 0.95)
+      : area === 'near' ? rect(0.05, 0.5, 0.95, 0.95)
+      : area === 'far' ? rect(0.05, 0.05, 0.95, 0.5)
+      : rect(0.05, 0.05, 0.95, 0.95);
+    return { kind, points, dwellSeconds: options.dwellSeconds };
+  }
+
+  const direction = options.direction || 'both';
+  const horizontal = direction === 'toward-camera' || direction === 'away-from-camera' || (direction === 'both' && (area === 'near' || area === 'far'));
+  // Vertical wires run bottom to top, so forward is left to right; horizontal ones run left to
+  // right, so forward is down the frame, toward the camera
+  const wireDirection: TripwireDirection = direction === 'both' ? 'both' : direction === 'left-to-right' || direction === 'toward-camera' ? 'forward' : 'reverse';
+  if (horizontal) {
+    const y = t ? t[1] + t[3] : area === 'near' ? 0.75 : area === 'far' ? 0.4 : 0.6;
+    return { kind, points: [[0.05, clamp01(y)], [0.95, clamp01(y)]], direction: wireDirection };
+  }
+  const x = t ? t[0] + t[2] / 2 : area === 'left' ? 0.33 : area === 'right' ? 0.67 : 0.5;
+  return { kind, points: [[clamp01(x), 0.95], [clamp01(x), 0.05]], direction: wireDirection };
+};
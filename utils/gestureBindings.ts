@@ -0,0 +1,42 @@
+import { DynamicGesture, GestureAction } from '../types';
+
+const STORAGE_KEY = 'veraos.gestureBindings';
+
+export const DYNAMIC_GESTURES: DynamicGesture[] = [
+  'SWIPE LEFT', 'SWIPE RIGHT', 'PINCH',
+  'HOLD OPEN PALM', 'HOLD FIST', 'HOLD POINTING', 'HOLD VICTORY', 'HOLD THUMBS UP'
+];
+
+export const GESTURE_ACTIONS: GestureAction[] = [
+  'NONE', 'SWITCH_CAMERA', 'TOGGLE_VIEW', 'RESET_ZOOM', 'TOGGLE_LOGS', 'CYCLE_ANALYSIS', 'SELECT_POINTED'
+];
+
+// Deliberate motions only; open palm and fist show up too often by accident to bind by default,
+// and pointing already selects by dwelling on the target
+export const DEFAULT_GESTURE_BINDINGS: Record<DynamicGesture, GestureAction> = {
+  'SWIPE LEFT': 'TOGGLE_VIEW',
+  'SWIPE RIGHT': 'SWITCH_CAMERA',
+  'PINCH': 'RESET_ZOOM',
+  'HOLD OPEN PALM': 'NONE',
+  'HOLD FIST': 'NONE',
+  'HOLD POINTING': 'NONE',
+  'HOLD VICTORY': 'TOGGLE_LOGS',
+  'HOLD THUMBS UP': 'CYCLE_ANALYSIS'
+};
+
+export const loadGestureBindings = (): Record<DynamicGesture, GestureAction> => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+    return { ...DEFAULT_GESTURE_BINDINGS, ...stored };
+  } catch (e) {
+    return { ...DEFAULT_GESTURE_BINDINGS };
+  }
+};
+
+export const saveGestureBindings = (bindings: Record<DynamicGesture, GestureAction>) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(bindings));
+  } catch (e) {
+    // Private mode / quota: bindings still apply for this session
+  }
+};
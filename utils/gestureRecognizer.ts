@@ -0,0 +1,119 @@
+import { DynamicGesture, Keypoint } from '../types';
+
+// Temporal hand gestures from the keypoint history of each tracked hand. Static shapes
+// (OPEN PALM, FIST, ...) come from the worker per frame; here they gain a time axis.
+export interface GestureConfig {
+  swipeWindowMs: number; // A swipe has to cover its distance within this window
+  swipeDistance: number; // Palm travel, fraction of frame width
+  swipeMaxSlope: number; // Vertical over horizontal travel still counted as a swipe
+  pinchClose: number; // Thumb-index tip gap, fraction of palm size, that closes a pinch
+  pinchOpen: number; // Gap that releases it (hysteresis)
+  holdMs: number; // Keep a shape still this long to confirm
+  holdMaxMotion: number; // Palm drift allowed during a hold, fraction of frame width
+  cooldownMs: number; // Quiet period per hand after any event
+}
+
+export const DEFAULT_GESTURE_CONFIG: GestureConfig = {
+  swipeWindowMs: 600,
+  swipeDistance: 0.2,
+  swipeMaxSlope: 0.5,
+  pinchClose: 0.25,
+  pinchOpen: 0.45,
+  holdMs: 1200,
+  holdMaxMotion: 0.04,
+  cooldownMs: 800
+};
+
+// MediaPipe hand landmarks
+export const HAND = { wrist: 0, thumbTip: 4, indexMcp: 5, indexTip: 8, middleMcp: 9, pinkyMcp: 17 };
+
+// Shapes that can be held to confirm
+const HOLDABLE = ['OPEN PALM', 'FIST', 'POINTING', 'VICTORY', 'THUMBS UP'];
+
+interface Sample {
+  time: number;
+  x: number;
+  y: number;
+}
+
+interface HandState {
+  samples: Sample[];
+  pinched: boolean;
+  hold?: { shape: string; since: number; x: number; y: number; fired: boolean };
+  lastEvent: number;
+}
+
+const dist = (a: Keypoint, b: Keypoint) => Math.hypot(a[0] - b[0], a[1] - b[1]);
+
+// Palm center and size (wrist to middle knuckle) in video pixels
+export const palm = (keypoints: Keypoint[]) => {
+  const { wrist, indexMcp, middleMcp, pinkyMcp } = HAND;
+  return {
+    x: (keypoints[wrist][0] + keypoints[indexMcp][0] + keypoints[pinkyMcp][0]) / 3,
+    y: (keypoints[wrist][1] + keypoints[indexMcp][1] + keypoints[pinkyMcp][1]) / 3,
+    size: Math.max(1, dist(keypoints[wrist], keypoints[middleMcp]))
+  };
+};
+
+export class GestureRecognizer {
+  private config: GestureConfig;
+  private hands = new Map<string | number, HandState>();
+
+  constructor(config: Partial<GestureConfig> = {}) {
+    this.config = { ...DEFAULT_GESTURE_CONFIG, ...config };
+  }
+
+  // Feed one frame for a hand; returns a gesture the moment it completes
+  public update(id: string | number, keypoints: Keypoint[], shape: string | undefined, frameWidth: number, time: number): DynamicGesture | null {
+    if (keypoints.length < 21) return null;
+    const c = this.config;
+    const p = palm(keypoints);
+    const gap = dist(keypoints[HAND.thumbTip], keypoints[HAND.indexTip]) / p.size;
+    let state = this.hands.get(id);
+    if (!state) {
+      // A hand that comes into view already pinched has not pinched
+      state = { samples: [], pinched: gap < c.pinchClose, lastEvent: -Infinity };
+      this.hands.set(id, state);
+    }
+
+    state.samples.push({ time, x: p.x, y: p.y });
+    while (state.samples.length > 0 && time - state.samples[0].time > c.swipeWindowMs) state.samples.shift();
+
+    const wasPinched = state.pinched;
+    if (gap < c.pinchClose) state.pinched = true;
+    else if (gap > c.pinchOpen) state.pinched = false;
+
+    if (!state.hold || state.hold.shape !== shape || Math.hypot(p.x - state.hold.x, p.y - state.hold.y) > c.holdMaxMotion * frameWidth) {
+      state.hold = shape && HOLDABLE.includes(shape) ? { shape, since: time, x: p.x, y: p.y, fired: false } : undefined;
+    }
+
+    if (time - state.lastEvent < c.cooldownMs) return null;
+
+    const first = state.samples[0];
+    const dx = p.x - first.x, dy = p.y - first.y;
+    if (Math.abs(dx) >= c.swipeDistance * frameWidth && Math.abs(dy) <= Math.abs(dx) * c.swipeMaxSlope) {
+      return this.fire(state, time, dx < 0 ? 'SWIPE LEFT' : 'SWIPE RIGHT');
+    }
+    if (state.pinched && !wasPinched) return this.fire(state, time, 'PINCH');
+    // Once per hold: the shape has to change or the hand move before it fires again
+    if (state.hold && !state.hold.fired && time - state.hold.since >= c.holdMs) {
+      return this.fire(state, time, `HOLD ${state.hold.shape}` as DynamicGesture);
+    }
+    return null;
+  }
+
+  public forget(id: string | number) {
+    this.hands.delete(id);
+  }
+
+  public clear() {
+    this.hands.clear();
+  }
+
+  private fire(state: HandState, time: number, gesture: DynamicGesture) {
+    state.lastEvent = time;
+    state.samples = [];
+    if (state.hold) state.hold.fired = true;
+    return gesture;
+  }
+}
@@ -0,0 +1,69 @@
+// Minimum-cost assignment (Hungarian / Kuhn-Munkres with potentials), O(n^2 m).
+// Returns, for every row, the assigned column or -1. Rectangular matrices are fine;
+// use a large finite cost for forbidden pairs and filter those matches afterwards.
+export const solveAssignment = (cost: number[][]): number[] => {
+  const n = cost.length;
+  if (n === 0) return [];
+  const m = cost[0].length;
+  if (m === 0) return new Array(n).fill(-1);
+
+  if (n > m) {
+    // The algorithm needs rows <= columns: solve the transpose and invert the mapping
+    const transposed = Array.from({ length: m }, (_, j) => cost.map(row => row[j]));
+    const byColumn = solveAssignment(transposed);
+    const result = new Array(n).fill(-1);
+    byColumn.forEach((row, col) => { if (row >= 0) result[row] = col; });
+    return result;
+  }
+
+  // 1-indexed; p[j] = row matched to column j, u/v = row/column potentials
+  const u = new Array(n + 1).fill(0);
+  const v = new Array(m + 1).fill(0);
+  const p = new Array(m + 1).fill(0);
+  const way = new Array(m + 1).fill(0);
+
+  for (let i = 1; i <= n; i++) {
+    p[0] = i;
+    let j0 = 0;
+    const minv = new Array(m + 1).fill(Infinity);
+    const used = new Array(m + 1).fill(false);
+    do {
+      used[j0] = true;
+      const i0 = p[j0];
+      let delta = Infinity;
+      let j1 = 0;
+      for (let j = 1; j <= m; j++) {
+        if (used[j]) continue;
+        const cur = cost[i0 - 1][j - 1] - u[i0] - v[j];
+        if (cur < minv[j]) {
+          minv[j] = cur;
+          way[j] = j0;
+        }
+        if (minv[j] < delta) {
+          delta = minv[j];
+          j1 = j;
+        }
+      }
+      for (let j = 0; j <= m; j++) {
+        if (used[j]) {
+          u[p[j]] += delta;
+          v[j] -= delta;
+        } else {
+          minv[j] -= delta;
+        }
+      }
+      j0 = j1;
+    } while (p[j0] !== 0);
+    do {
+      const j1 = way[j0];
+      p[j0] = p[j1];
+      j0 = j1;
+    } while (j0);
+  }
+
+  const result = new Array(n).fill(-1);
+  for (let j = 1; j <= m; j++) {
+    if (p[j]) result[p[j] - 1] = j - 1;
+  }
+  return result;
+};
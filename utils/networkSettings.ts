@@ -0,0 +1,40 @@
+import { NetworkSettings } from '../types';
+
+const STORAGE_KEY = 'veraos.network';
+const SECRETS_KEY = 'veraos.network.secrets';
+
+// Build-time values from .env.local act as defaults until the operator saves their own
+const DEFAULT_SETTINGS: NetworkSettings = {
+  relayUrl: 'ws://localhost:8080',
+  displayName: '',
+  room: 'default',
+  enabled: true,
+  squadKey: process.env.SQUAD_KEY || '',
+  token: process.env.RELAY_TOKEN || '',
+  rememberSecrets: false
+};
+
+// The passphrase and token stay out of localStorage, which outlives the session. Only when the
+// operator asks are they kept in sessionStorage, for this tab.
+export const loadNetworkSettings = (): NetworkSettings => {
+  try {
+    const { squadKey, token, ...stored } = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+    // Saved in clear by an earlier version
+    if (squadKey !== undefined || token !== undefined) localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+    const secrets = stored.rememberSecrets ? JSON.parse(sessionStorage.getItem(SECRETS_KEY) || '{}') : {};
+    return { ...DEFAULT_SETTINGS, ...stored, ...secrets };
+  } catch (e) {
+    return { ...DEFAULT_SETTINGS };
+  }
+};
+
+export const saveNetworkSettings = (settings: NetworkSettings) => {
+  const { squadKey, token, ...stored } = settings;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+    if (settings.rememberSecrets) sessionStorage.setItem(SECRETS_KEY, JSON.stringify({ squadKey, token }));
+    else sessionStorage.removeItem(SECRETS_KEY);
+  } catch (e) {
+    // Private mode / quota: settings still apply for this session
+  }
+};
@@ -0,0 +1,62 @@
+import { SizeProfile } from '../types';
+
+// Typical physical size per detector class, used for depth from box height and to
+// recognise boxes that are cut short by an occluder. Operators can override entries.
+export const DEFAULT_SIZE_PROFILES: Record<string, SizeProfile> = {
+    person: { height: 1.70, aspect: 2.4 },
+    cup: { height: 0.15, aspect: 1.1 },
+    bottle: { height: 0.25, aspect: 2.6 },
+    wine_glass: { height: 0.20, aspect: 1.8 },
+    bowl: { height: 0.15, aspect: 0.5 },
+    chair: { height: 1.0, aspect: 1.4 },
+    couch: { height: 0.9, aspect: 0.5 },
+    potted_plant: { height: 0.5, aspect: 1.3 },
+    tv: { height: 0.7, aspect: 0.65 },
+    laptop: { height: 0.3, aspect: 0.75 },
+    mouse: { height: 0.05, aspect: 0.6 },
+    remote: { height: 0.15, aspect: 2.5 },
+    keyboard: { height: 0.05, aspect: 0.3 },
+    cell_phone: { height: 0.15, aspect: 1.8 },
+    book: { height: 0.25, aspect: 1.3 },
+    vase: { height: 0.3, aspect: 1.6 },
+    hand: { height: 0.20, aspect: 1.1 }
+};
+
+const DEFAULT_HEIGHT = 0.5;
+
+// 75° vertical field of view, what the HUD assumed before cameras could be calibrated
+export const DEFAULT_FOCAL_LENGTH = 1 / (2 * Math.tan(37.5 * Math.PI / 180));
+
+let overrides: Record<string, SizeProfile> = {};
+
+// Detector class names use spaces ("cell phone"), the table uses underscores
+const classKey = (cls: string) => cls.toLowerCase().replace(/\s+/g, '_');
+
+export const setSizeProfiles = (profiles: Record<string, SizeProfile>) => {
+    overrides = {};
+    Object.entries(profiles).forEach(([cls, profile]) => { overrides[classKey(cls)] = profile; });
+};
+
+export const getSizeProfiles = (): Record<string, SizeProfile> => ({ ...DEFAULT_SIZE_PROFILES, ...overrides });
+
+// Metres
+export const getRealWorldHeight = (cls: string): number => {
+    const key = classKey(cls);
+    return (overrides[key] || DEFAULT_SIZE_PROFILES[key])?.height || DEFAULT_HEIGHT;
+};
+
+export const getAspectRatio = (cls: string): number | undefined => {
+    const key = classKey(cls);
+    return (overrides[key] || DEFAULT_SIZE_PROFILES[key])?.aspect;
+};
+
+// Pinhole model: distance in metres from a box height in pixels of a frame `frameHeight` tall
+export const depthFromHeight = (realHeight: number, boxHeight: number, frameHeight: number, focalLength: number) =>
+    realHeight * focalLength * frameHeight / Math.max(1, boxHeight);
+
+// Focal length under which an object `realHeight` tall at `distance` spans `boxHeight` pixels
+export const focalFromKnownDistance = (boxHeight: number, frameHeight: number, realHeight: number, distance: number) =>
+    (boxHeight / frameHeight) * distance / realHeight;
+
+// Vertical field of view in degrees
+export const fieldOfView = (focalLength: number) => 2 * Math.atan(1 / (2 * focalLength)) * 180 / Math.PI;
@@ -0,0 +1,106 @@
+import { Keypoint } from '../types';
+import { Box } from './MultiObjectTracker';
+import { HAND } from './gestureRecognizer';
+
+// Point-to-select: the index finger of a POINTING hand is extended as a ray in image space,
+// the first tracked box it enters is the candidate, and dwelling on it selects it.
+export interface Ray {
+  x: number; // Origin (index fingertip), video pixels
+  y: number;
+  dx: number; // Unit direction
+  dy: number;
+}
+
+export interface DwellConfig {
+  dwellMs: number; // Aim at the same target this long to select it
+  graceMs: number; // Dropped frames or a flicker off the box shorter than this keep the dwell going
+}
+
+export const DEFAULT_DWELL_CONFIG: DwellConfig = {
+  dwellMs: 1200,
+  graceMs: 300
+};
+
+export interface DwellState {
+  targetId?: string | number;
+  progress: number; // 0..1
+  selected: boolean; // True on the update the dwell completes
+}
+
+// Knuckle to fingertip; the fingertip is the origin so the hand's own box is behind it
+export const pointingRay = (keypoints: Keypoint[]): Ray | null => {
+  const base = keypoints[HAND.indexMcp], tip = keypoints[HAND.indexTip];
+  if (!base || !tip) return null;
+  const dx = tip[0] - base[0], dy = tip[1] - base[1];
+  const len = Math.hypot(dx, dy);
+  if (len < 1) return null;
+  return { x: tip[0], y: tip[1], dx: dx / len, dy: dy / len };
+};
+
+// Distance along the ray to where it enters the box, null on a miss or when it starts inside
+export const rayBoxDistance = (ray: Ray, box: Box): number | null => {
+  const [x, y, w, h] = box;
+  let near = -Infinity, far = Infinity;
+  const slabs: [number, number, number, number][] = [[ray.x, ray.dx, x, x + w], [ray.y, ray.dy, y, y + h]];
+  for (const [origin, dir, min, max] of slabs) {
+    if (Math.abs(dir) < 1e-9) {
+      if (origin < min || origin > max) return null;
+      continue;
+    }
+    const t1 = (min - origin) / dir, t2 = (max - origin) / dir;
+    near = Math.max(near, Math.min(t1, t2));
+    far = Math.min(far, Math.max(t1, t2));
+  }
+  if (near > far || near <= 0) return null;
+  return near;
+};
+
+export const pickTarget = <T extends string | number>(ray: Ray, candidates: { id: T; box: Box }[]): { id: T; distance: number } | null => {
+  let best: { id: T; distance: number } | null = null;
+  candidates.forEach(({ id, box }) => {
+    const distance = rayBoxDistance(ray, box);
+    if (distance !== null && (!best || distance < best.distance)) best = { id, distance };
+  });
+  return best;
+};
+
+interface Dwell {
+  targetId: string | number;
+  since: number;
+  lastHit: number;
+  done: boolean;
+}
+
+// One dwell timer per pointing hand
+export class DwellSelector {
+  private config: DwellConfig;
+  private dwells = new Map<string | number, Dwell>();
+
+  constructor(config: Partial<DwellConfig> = {}) {
+    this.config = { ...DEFAULT_DWELL_CONFIG, ...config };
+  }
+
+  public update(pointerId: string | number, targetId: string | number | undefined, time: number): DwellState {
+    let dwell = this.dwells.get(pointerId);
+    if (targetId !== undefined) {
+      if (!dwell || dwell.targetId !== targetId) {
+        dwell = { targetId, since: time, lastHit: time, done: false };
+        this.dwells.set(pointerId, dwell);
+      }
+      dwell.lastHit = time;
+    } else if (dwell && time - dwell.lastHit > this.config.graceMs) {
+      this.dwells.delete(pointerId);
+      dwell = undefined;
+    }
+    if (!dwell) return { progress: 0, selected: false };
+
+    const progress = Math.min(1, (time - dwell.since) / this.config.dwellMs);
+    const selected = progress >= 1 && !dwell.done;
+    if (selected) dwell.done = true; // Once per target; aim elsewhere and back to select again
+    return { targetId: dwell.targetId, progress, selected };
+  }
+
+  public forget(pointerId: string | number) {
+    this.dwells.delete(pointerId);
+  }
+}
@@ -0,0 +1,60 @@
+import { Vector3 } from '../types';
+import { getRealWorldHeight, depthFromHeight } from './objectGeometry';
+
+// What a video pixel lands on: the frame is drawn object-fit: cover under a perspective camera
+export interface Viewport {
+  videoW: number;
+  videoH: number;
+  screenW: number;
+  screenH: number;
+  fov: number; // Vertical, degrees; narrows with zoom
+}
+
+// Box-height depth is only trusted within this range, metres
+export const MIN_DEPTH = 1.5;
+export const MAX_DEPTH = 50;
+
+// Video pixel to screen pixel through the object-fit: cover crop
+export const videoToScreen = (px: number, py: number, view: Viewport) => {
+  const { videoW, videoH, screenW, screenH } = view;
+  const videoRatio = videoW / videoH;
+  const screenRatio = screenW / screenH;
+  let renderW, renderH, offsetX, offsetY;
+  if (screenRatio > videoRatio) {
+    renderW = screenW; renderH = screenW / videoRatio;
+    offsetX = 0; offsetY = (screenH - renderH) / 2;
+  } else {
+    renderH = screenH; renderW = screenH * videoRatio;
+    offsetX = (screenW - renderW) / 2; offsetY = 0;
+  }
+  return { x: px * renderW / videoW + offsetX, y: py * renderH / videoH + offsetY };
+};
+
+// Screen pixel back to a video pixel, the inverse of videoToScreen (at zoom 1)
+export const screenToVideo = (sx: number, sy: number, view: Viewport) => {
+  const origin = videoToScreen(0, 0, view);
+  const corner = videoToScreen(view.videoW, view.videoH, view);
+  return {
+    x: (sx - origin.x) * view.videoW / (corner.x - origin.x),
+    y: (sy - origin.y) * view.videoH / (corner.y - origin.y)
+  };
+};
+
+// A video pixel on the plane at depth z (negative, in front of the camera)
+export const videoPointToWorld = (px: number, py: number, z: number, view: Viewport): Vector3 => {
+  const screen = videoToScreen(px, py, view);
+  const ndcX = (screen.x / view.screenW) * 2 - 1;
+  const ndcY = -(screen.y / view.screenH) * 2 + 1;
+  const visibleHeightAtZ = 2 * Math.abs(z) * Math.tan((view.fov * Math.PI / 180) / 2);
+  const visibleWidthAtZ = visibleHeightAtZ * (view.screenW / view.screenH);
+  return { x: (ndcX * visibleWidthAtZ) / 2, y: (ndcY * visibleHeightAtZ) / 2, z };
+};
+
+// Box center in world space. Depth comes from the box height in video pixels, so on-screen
+// cropping and zoom do not skew it, unless the depth model measured it.
+export const boxToWorld = (bbox: number[], cls: string, view: Viewport, focalLength: number, measuredDepth?: number | null): Vector3 => {
+  const [x, y, w, h] = bbox;
+  let z = measuredDepth ?? depthFromHeight(getRealWorldHeight(cls), h, view.videoH, focalLength);
+  z = Math.max(MIN_DEPTH, Math.min(MAX_DEPTH, z));
+  return videoPointToWorld(x + w / 2, y + h / 2, -z, view);
+};
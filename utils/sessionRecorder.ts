@@ -0,0 +1,93 @@
+import { SessionEvent, SessionMeta } from '../types';
+import { appendSessionEvents, appendVideoChunk, putSessionMeta } from './sessionStore';
+
+// Distributes over the union so each kind keeps its own data type
+type EventInput<E = SessionEvent> = E extends SessionEvent ? Omit<E, 't'> : never;
+
+const FLUSH_INTERVAL_MS = 1000;
+const VIDEO_CHUNK_MS = 1000;
+const VIDEO_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm', 'video/mp4'];
+
+// Records one session to IndexedDB: events are stamped with the session clock, buffered and
+// written in batches; the displayed video is captured from its element with MediaRecorder.
+export class SessionRecorder {
+  public readonly meta: SessionMeta;
+  private origin = performance.now();
+  private buffer: SessionEvent[] = [];
+  private flushTimer: ReturnType<typeof setInterval>;
+  private writes: Promise<void> = Promise.resolve(); // Serialized, so batches land in order
+  private mediaRecorder: MediaRecorder | null = null;
+  private chunkSeq = 0;
+  private stopped = false;
+
+  constructor(name: string) {
+    this.meta = { id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`, name, startedAt: Date.now(), duration: 0, eventCount: 0, videoOffset: null };
+    this.enqueue(() => putSessionMeta({ ...this.meta }));
+    this.flushTimer = setInterval(() => this.flush(), FLUSH_INTERVAL_MS);
+  }
+
+  public get elapsed() {
+    return performance.now() - this.origin;
+  }
+
+  public record(event: EventInput) {
+    if (this.stopped) return;
+    this.buffer.push({ ...event, t: this.elapsed } as SessionEvent);
+  }
+
+  // Captures what the element shows; once per session, the first element offered wins
+  public attachVideo(video: HTMLVideoElement) {
+    if (this.stopped || this.mediaRecorder || typeof MediaRecorder === 'undefined' || video.readyState < 2) return;
+    const capture = (video as HTMLVideoElement & { captureStream?: () => MediaStream; mozCaptureStream?: () => MediaStream });
+    const stream = capture.captureStream?.() || capture.mozCaptureStream?.();
+    if (!stream) return;
+    const mimeType = VIDEO_TYPES.find(t => MediaRecorder.isTypeSupported(t));
+    try {
+      const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+      recorder.ondataavailable = (e) => {
+        if (e.data.size === 0) return;
+        const seq = this.chunkSeq++;
+        this.enqueue(() => appendVideoChunk(this.meta.id, seq, e.data));
+      };
+      recorder.start(VIDEO_CHUNK_MS);
+      this.mediaRecorder = recorder;
+      this.meta.videoOffset = this.elapsed;
+      this.meta.videoType = recorder.mimeType || mimeType;
+    } catch (e) {
+      console.warn('Session video not recorded', e); // Events still record
+    }
+  }
+
+  public async stop(): Promise<SessionMeta> {
+    if (this.stopped) return this.meta;
+    this.stopped = true;
+    clearInterval(this.flushTimer);
+    if (this.mediaRecorder && this.mediaRecorder.state !== 'inactive') {
+      const recorder = this.mediaRecorder;
+      await new Promise<void>(resolve => {
+        recorder.addEventListener('stop', () => resolve(), { once: true });
+        recorder.stop(); // Emits the last chunk before 'stop'
+      });
+    }
+    this.meta.duration = this.elapsed;
+    this.flush();
+    this.enqueue(() => putSessionMeta({ ...this.meta }));
+    await this.writes;
+    return this.meta;
+  }
+
+  private flush() {
+    if (this.buffer.length === 0) return;
+    const batch = this.buffer;
+    this.buffer = [];
+    this.meta.eventCount += batch.length;
+    this.meta.duration = this.elapsed;
+    const meta = { ...this.meta };
+    // Meta follows every batch so a crashed tab still leaves a replayable session
+    this.enqueue(() => appendSessionEvents(meta.id, batch).then(() => putSessionMeta(meta)));
+  }
+
+  private enqueue(write: () => Promise<void>) {
+    this.writes = this.writes.then(write).catch(e => console.warn('Session write failed', e));
+  }
+}
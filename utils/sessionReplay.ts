@@ -0,0 +1,85 @@
+import { LogEntry, SessionEvent, SessionMeta, TrackedObject, TranscriptItem } from '../types';
+
+type EventOf<K extends SessionEvent['kind']> = Extract<SessionEvent, { kind: K }>;
+
+export interface TimelineMarker {
+  t: number;
+  kind: 'tool' | 'action';
+  label: string;
+}
+
+// What the HUD showed live: the same caps and expiry App applies
+const LOG_LIMIT = 20;
+const TRANSCRIPT_WINDOW_MS = 30000;
+const TRANSCRIPT_LIMIT = 10;
+
+// Index of the first event after t
+const upperBound = (events: SessionEvent[], t: number) => {
+  let lo = 0, hi = events.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (events[mid].t <= t) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+};
+
+// Read side of a recorded session: everything is a function of the session time, so the
+// scrubber can jump anywhere and get the same state back.
+export class SessionTimeline {
+  public readonly duration: number;
+  private byKind: { [K in SessionEvent['kind']]: EventOf<K>[] } = { predictions: [], objects: [], tool: [], transcript: [], log: [] };
+
+  constructor(events: SessionEvent[], duration = 0) {
+    // Stable sort keeps same-millisecond events in recording order
+    [...events].sort((a, b) => a.t - b.t).forEach(e => (this.byKind[e.kind] as SessionEvent[]).push(e));
+    this.duration = Math.max(duration, events.reduce((max, e) => Math.max(max, e.t), 0));
+  }
+
+  // Predictions in (from, to], in order: what the tracker has to consume to advance from one time to the other
+  public predictionsBetween(from: number, to: number): EventOf<'predictions'>[] {
+    const list = this.byKind.predictions;
+    return list.slice(upperBound(list, from), upperBound(list, to));
+  }
+
+  public logsAt(t: number): LogEntry[] {
+    const list = this.byKind.log;
+    const end = upperBound(list, t);
+    return list.slice(Math.max(0, end - LOG_LIMIT), end).map(e => e.data);
+  }
+
+  public transcriptsAt(t: number): TranscriptItem[] {
+    const list = this.byKind.transcript;
+    const end = upperBound(list, t);
+    return list.slice(0, end).filter(e => t - e.t < TRANSCRIPT_WINDOW_MS).slice(-TRANSCRIPT_LIMIT).map(e => e.data);
+  }
+
+  // Latest snapshot at or before t
+  public objectsAt(t: number): { local: TrackedObject[]; remote: TrackedObject[] } | null {
+    const list = this.byKind.objects;
+    const i = upperBound(list, t) - 1;
+    return i >= 0 ? list[i].data : null;
+  }
+
+  // Tool calls and operator-visible actions (selections, gestures, alarms), for the scrubber
+  public markers(): TimelineMarker[] {
+    const tools: TimelineMarker[] = this.byKind.tool.map(e => ({ t: e.t, kind: 'tool', label: e.data.name }));
+    const actions: TimelineMarker[] = this.byKind.log
+      .filter(e => e.data.type === 'action')
+      .map(e => ({ t: e.t, kind: 'action', label: e.data.message }));
+    return [...tools, ...actions].sort((a, b) => a.t - b.t);
+  }
+}
+
+// A loaded session ready for VisionSystem and the HUD; the recorded video is the replay clock
+export interface SessionReplay {
+  meta: SessionMeta;
+  timeline: SessionTimeline;
+  video: File;
+}
+
+// Session time at a position in the recorded video
+export const sessionTimeAt = (meta: SessionMeta, videoSeconds: number) => (meta.videoOffset ?? 0) + videoSeconds * 1000;
+
+// Session time of a wall-clock stamp in recorded data, such as TrackedObject.lastSeen
+export const sessionTimeOf = (meta: SessionMeta, wallTime: number) => wallTime - meta.startedAt;
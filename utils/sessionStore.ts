@@ -0,0 +1,117 @@
+import { SessionEvent, SessionMeta } from '../types';
+
+// IndexedDB persistence for recorded sessions: meta, timestamped events and the video as
+// MediaRecorder chunks, in separate stores so a long session is written incrementally.
+const DB_NAME = 'veraos.sessions';
+const DB_VERSION = 1;
+const SESSIONS = 'sessions';
+const EVENTS = 'events';
+const CHUNKS = 'chunks';
+
+type StoredEvent = SessionEvent & { sessionId: string };
+
+interface StoredChunk {
+  sessionId: string;
+  seq: number;
+  blob: Blob;
+}
+
+export interface RecordedSession {
+  meta: SessionMeta;
+  events: SessionEvent[];
+  video: Blob | null;
+}
+
+const request = <T>(req: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const complete = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('TRANSACTION ABORTED'));
+  });
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        db.createObjectStore(SESSIONS, { keyPath: 'id' });
+        db.createObjectStore(EVENTS, { autoIncrement: true }).createIndex('session', 'sessionId');
+        db.createObjectStore(CHUNKS, { autoIncrement: true }).createIndex('session', 'sessionId');
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => {
+        dbPromise = null; // Let the next call retry
+        reject(req.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+export const putSessionMeta = async (meta: SessionMeta) => {
+  const tx = (await openDb()).transaction(SESSIONS, 'readwrite');
+  tx.objectStore(SESSIONS).put(meta);
+  await complete(tx);
+};
+
+// One transaction per batch; the recorder flushes about once a second
+export const appendSessionEvents = async (sessionId: string, events: SessionEvent[]) => {
+  if (events.length === 0) return;
+  const tx = (await openDb()).transaction(EVENTS, 'readwrite');
+  const store = tx.objectStore(EVENTS);
+  events.forEach(e => store.add({ ...e, sessionId } as StoredEvent));
+  await complete(tx);
+};
+
+export const appendVideoChunk = async (sessionId: string, seq: number, blob: Blob) => {
+  const tx = (await openDb()).transaction(CHUNKS, 'readwrite');
+  tx.objectStore(CHUNKS).add({ sessionId, seq, blob } as StoredChunk);
+  await complete(tx);
+};
+
+export const listSessions = async (): Promise<SessionMeta[]> => {
+  const tx = (await openDb()).transaction(SESSIONS, 'readonly');
+  const sessions = await request(tx.objectStore(SESSIONS).getAll() as IDBRequest<SessionMeta[]>);
+  return sessions.sort((a, b) => b.startedAt - a.startedAt);
+};
+
+export const loadSession = async (id: string): Promise<RecordedSession | null> => {
+  const tx = (await openDb()).transaction([SESSIONS, EVENTS, CHUNKS], 'readonly');
+  const [meta, stored, chunks] = await Promise.all([
+    request(tx.objectStore(SESSIONS).get(id) as IDBRequest<SessionMeta | undefined>),
+    request(tx.objectStore(EVENTS).index('session').getAll(id) as IDBRequest<StoredEvent[]>),
+    request(tx.objectStore(CHUNKS).index('session').getAll(id) as IDBRequest<StoredChunk[]>)
+  ]);
+  if (!meta) return null;
+  const events: SessionEvent[] = stored.map(({ sessionId, ...event }) => event as SessionEvent);
+  chunks.sort((a, b) => a.seq - b.seq);
+  const video = chunks.length > 0 ? new Blob(chunks.map(c => c.blob), { type: meta.videoType || 'video/webm' }) : null;
+  return { meta, events, video };
+};
+
+const deleteByIndex = (store: IDBObjectStore, id: string) => {
+  const req = store.index('session').openKeyCursor(IDBKeyRange.only(id));
+  req.onsuccess = () => {
+    const cursor = req.result;
+    if (!cursor) return;
+    store.delete(cursor.primaryKey);
+    cursor.continue();
+  };
+};
+
+export const deleteSession = async (id: string) => {
+  const tx = (await openDb()).transaction([SESSIONS, EVENTS, CHUNKS], 'readwrite');
+  tx.objectStore(SESSIONS).delete(id);
+  deleteByIndex(tx.objectStore(EVENTS), id);
+  deleteByIndex(tx.objectStore(CHUNKS), id);
+  await complete(tx);
+};
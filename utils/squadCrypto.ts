@@ -0,0 +1,144 @@
+// End-to-end protection for squad traffic (WebCrypto).
+// Payloads are sealed with AES-GCM under a key derived from the pre-shared squad passphrase,
+// so the relay only sees routing fields. Each unit also signs what it sends with a per-session
+// ECDSA key announced inside its (sealed) HANDSHAKE; peers pin that key to the unit id.
+// Everything a unit seals carries its send counter, so a replayed copy arrives no newer than
+// what the receiver already accepted from that key.
+// Sealed binary frame layout: u8 magic | iv[12] | signature[64] | ciphertext(u32 counter | frame)
+export const SEALED_FRAME_MAGIC = 0xE5;
+
+const KDF_SALT = 'veraos-squad-v1';
+const KDF_ITERATIONS = 100000;
+const IV_BYTES = 12;
+const SIGNATURE_BYTES = 64; // P-256, raw r|s
+const SIGNING_ALGORITHM = { name: 'ECDSA', namedCurve: 'P-256' };
+const SIGNATURE_PARAMS = { name: 'ECDSA', hash: 'SHA-256' };
+
+export interface SealedPayload {
+  iv: string;
+  data: string;
+  sig: string;
+}
+
+export interface Opened<T> {
+  counter: number;
+  body: T;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(b => binary += String.fromCharCode(b));
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string): Uint8Array => Uint8Array.from(atob(value), c => c.charCodeAt(0));
+
+const concat = (...parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  parts.forEach(p => { out.set(p, offset); offset += p.length; });
+  return out;
+};
+
+// Binds ciphertext and signature to the packet type and sender, so the relay cannot relabel them
+const context = (type: string, userId: string) => encoder.encode(`${type}|${userId}|`);
+
+export const isCryptoAvailable = () => typeof crypto !== 'undefined' && !!crypto.subtle;
+
+export const deriveSquadKey = async (passphrase: string): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', encoder.encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: encoder.encode(KDF_SALT), iterations: KDF_ITERATIONS, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+export const generateSigningKeys = (): Promise<CryptoKeyPair> =>
+  crypto.subtle.generateKey(SIGNING_ALGORITHM, true, ['sign', 'verify']) as Promise<CryptoKeyPair>;
+
+export const exportPublicKey = async (key: CryptoKey): Promise<string> =>
+  toBase64(new Uint8Array(await crypto.subtle.exportKey('raw', key)));
+
+export const importPublicKey = (value: string): Promise<CryptoKey> =>
+  crypto.subtle.importKey('raw', fromBase64(value), SIGNING_ALGORITHM, false, ['verify']);
+
+const encrypt = async (key: CryptoKey, aad: Uint8Array, plain: Uint8Array) => {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const data = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv, additionalData: aad }, key, plain));
+  return { iv, data };
+};
+
+const decrypt = async (key: CryptoKey, aad: Uint8Array, iv: Uint8Array, data: Uint8Array): Promise<Uint8Array | null> => {
+  try {
+    return new Uint8Array(await crypto.subtle.decrypt({ name: 'AES-GCM', iv, additionalData: aad }, key, data));
+  } catch (e) {
+    return null; // Wrong squad key or tampered ciphertext
+  }
+};
+
+const sign = async (key: CryptoKey, bytes: Uint8Array) =>
+  new Uint8Array(await crypto.subtle.sign(SIGNATURE_PARAMS, key, bytes));
+
+const verify = (key: CryptoKey, signature: Uint8Array, bytes: Uint8Array): Promise<boolean> =>
+  crypto.subtle.verify(SIGNATURE_PARAMS, key, signature, bytes).catch(() => false);
+
+export const sealPayload = async (squadKey: CryptoKey, signingKey: CryptoKey, type: string, userId: string, counter: number, body: any): Promise<SealedPayload> => {
+  const aad = context(type, userId);
+  const { iv, data } = await encrypt(squadKey, aad, encoder.encode(JSON.stringify({ counter, body })));
+  const sig = await sign(signingKey, concat(aad, iv, data));
+  return { iv: toBase64(iv), data: toBase64(data), sig: toBase64(sig) };
+};
+
+// Decrypting first is unavoidable: a HANDSHAKE carries the key its own signature is checked against
+export const openPayload = async (squadKey: CryptoKey, type: string, userId: string, sealed: SealedPayload): Promise<Opened<any> | null> => {
+  if (!sealed || typeof sealed.iv !== 'string' || typeof sealed.data !== 'string') return null;
+  try {
+    const plain = await decrypt(squadKey, context(type, userId), fromBase64(sealed.iv), fromBase64(sealed.data));
+    const opened = plain ? JSON.parse(decoder.decode(plain)) : null;
+    return typeof opened?.counter === 'number' ? { counter: opened.counter, body: opened.body } : null;
+  } catch (e) {
+    return null;
+  }
+};
+
+export const verifyPayload = async (publicKey: CryptoKey, type: string, userId: string, sealed: SealedPayload): Promise<boolean> => {
+  if (typeof sealed.sig !== 'string') return false;
+  try {
+    const bytes = concat(context(type, userId), fromBase64(sealed.iv), fromBase64(sealed.data));
+    return verify(publicKey, fromBase64(sealed.sig), bytes);
+  } catch (e) {
+    return false;
+  }
+};
+
+export const sealFrame = async (squadKey: CryptoKey, signingKey: CryptoKey, userId: string, counter: number, frame: Uint8Array): Promise<Uint8Array> => {
+  const aad = context('BINARY', userId);
+  const header = new Uint8Array(4);
+  new DataView(header.buffer).setUint32(0, counter);
+  const { iv, data } = await encrypt(squadKey, aad, concat(header, frame));
+  const sig = await sign(signingKey, concat(aad, iv, data));
+  return concat(new Uint8Array([SEALED_FRAME_MAGIC]), iv, sig, data);
+};
+
+export const isSealedFrame = (frame: ArrayBuffer) =>
+  frame.byteLength > 0 && new Uint8Array(frame)[0] === SEALED_FRAME_MAGIC;
+
+export const openFrame = async (squadKey: CryptoKey, publicKey: CryptoKey, userId: string, frame: ArrayBuffer): Promise<Opened<ArrayBuffer> | null> => {
+  const bytes = new Uint8Array(frame);
+  if (bytes.length <= 1 + IV_BYTES + SIGNATURE_BYTES || bytes[0] !== SEALED_FRAME_MAGIC) return null;
+  const iv = bytes.subarray(1, 1 + IV_BYTES);
+  const sig = bytes.subarray(1 + IV_BYTES, 1 + IV_BYTES + SIGNATURE_BYTES);
+  const data = bytes.subarray(1 + IV_BYTES + SIGNATURE_BYTES);
+  const aad = context('BINARY', userId);
+  if (!(await verify(publicKey, sig, concat(aad, iv, data)))) return null;
+  const plain = await decrypt(squadKey, aad, iv, data);
+  if (!plain || plain.length < 4) return null;
+  const counter = new DataView(plain.buffer, plain.byteOffset, 4).getUint32(0);
+  return { counter, body: plain.buffer.slice(plain.byteOffset + 4, plain.byteOffset + plain.byteLength) as ArrayBuffer };
+};
@@ -0,0 +1,394 @@
+import { TrackedObject, Posture } from '../types';
+
+// Binary telemetry, version 2 (adds posture). Negotiated via the `codecs` list in HANDSHAKE,
+// so units on version 1 fall back to JSON with newer ones instead of misreading their records.
+// Frame layout (little-endian):
+//   u8 magic | u8 version | u8 kind | u16 keyframeId | u16 seq | f64 timestamp | records...
+// Keyframes carry full records. Deltas reference a keyframe the receivers acked and only
+// carry added/changed/removed objects; changed fields use small signed steps where they fit.
+export const BINARY_CODEC = 'bin2';
+export const JSON_CODEC = 'json';
+export const SUPPORTED_CODECS = [BINARY_CODEC, JSON_CODEC];
+
+const MAGIC = 0xB7;
+const VERSION = 2;
+
+const KIND_KEYFRAME = 0;
+const KIND_DELTA = 1;
+
+const OP_FULL = 1;
+const OP_PATCH = 2;
+const OP_REMOVED = 3;
+
+const FIELD_BBOX = 1 << 0;
+const FIELD_BBOX_STEP = 1 << 1;
+const FIELD_POS = 1 << 2;
+const FIELD_POS_STEP = 1 << 3;
+const FIELD_DISTANCE = 1 << 4;
+const FIELD_CONFIDENCE = 1 << 5;
+const FIELD_FLAGS = 1 << 6;
+const FIELD_SCAN = 1 << 7;
+const FIELD_GESTURE = 1 << 8;
+const FIELD_CODENAME = 1 << 9;
+const FIELD_CLASS = 1 << 10;
+const FIELD_POSTURE = 1 << 11;
+
+const FLAG_SELECTED = 1 << 0;
+const FLAG_OCCLUDED = 1 << 1;
+const FLAG_ANALYZED = 1 << 2;
+const FLAG_LIDAR = 1 << 3;
+const FLAG_DEPTH_MODEL = 1 << 4;
+
+// Packed into the full record's flags byte: which optional fields follow
+const HAS_POSTURE = 0x20;
+const HAS_GESTURE = 0x40;
+const HAS_CODENAME = 0x80;
+
+const INLINE_STRING = 255;
+
+// Append-only: indices are part of the wire format
+const CLASS_DICTIONARY = [
+  'person', 'bicycle', 'car', 'motorcycle', 'airplane', 'bus', 'train', 'truck', 'boat', 'traffic light',
+  'fire hydrant', 'stop sign', 'parking meter', 'bench', 'bird', 'cat', 'dog', 'horse', 'sheep', 'cow',
+  'elephant', 'bear', 'zebra', 'giraffe', 'backpack', 'umbrella', 'handbag', 'tie', 'suitcase', 'frisbee',
+  'skis', 'snowboard', 'sports ball', 'kite', 'baseball bat', 'baseball glove', 'skateboard', 'surfboard', 'tennis racket', 'bottle',
+  'wine glass', 'cup', 'fork', 'knife', 'spoon', 'bowl', 'banana', 'apple', 'sandwich', 'orange',
+  'broccoli', 'carrot', 'hot dog', 'pizza', 'donut', 'cake', 'chair', 'couch', 'potted plant', 'bed',
+  'dining table', 'toilet', 'tv', 'laptop', 'mouse', 'remote', 'keyboard', 'cell phone', 'microwave', 'oven',
+  'toaster', 'sink', 'refrigerator', 'book', 'clock', 'vase', 'scissors', 'teddy bear', 'hair drier', 'toothbrush',
+  'hand'
+];
+
+const GESTURE_DICTIONARY = ['UNKNOWN', 'OPEN PALM', 'FIST', 'POINTING', 'VICTORY', 'THUMBS UP'];
+const POSTURE_DICTIONARY: Posture[] = ['STANDING', 'SITTING', 'LYING', 'ARMS_RAISED', 'FALLEN'];
+
+export interface TelemetryFrame {
+  kind: 'keyframe' | 'delta';
+  keyframeId: number; // Own id for keyframes, base id for deltas
+  seq: number;
+  timestamp: number;
+  objects: TrackedObject[];
+}
+
+// Fixed-point view of an object: what actually goes over the wire
+interface WireRecord {
+  id: number;
+  cls: string;
+  confidence: number; // 0-255
+  bbox: [number, number, number, number]; // px, u16
+  pos: [number, number, number]; // cm, i16
+  distance: number; // cm, u16
+  flags: number;
+  scan: number; // 0-255
+  gesture?: string;
+  posture?: Posture;
+  codeName?: string;
+}
+
+const clamp = (v: number, min: number, max: number) => Math.max(min, Math.min(max, Math.round(v)));
+
+const toWire = (obj: TrackedObject): WireRecord => {
+  let flags = 0;
+  if (obj.isSelected) flags |= FLAG_SELECTED;
+  if (obj.isOccluded) flags |= FLAG_OCCLUDED;
+  if (obj.isAnalyzed) flags |= FLAG_ANALYZED;
+  if (obj.depthSource === 'LIDAR_FUSION') flags |= FLAG_LIDAR;
+  if (obj.depthSource === 'DEPTH_MODEL') flags |= FLAG_DEPTH_MODEL;
+  return {
+    id: obj.id as number,
+    cls: obj.class,
+    confidence: clamp(obj.confidence * 255, 0, 255),
+    bbox: obj.bbox.map(v => clamp(v, 0, 0xFFFF)) as [number, number, number, number],
+    pos: [obj.position3D.x, obj.position3D.y, obj.position3D.z].map(v => clamp(v * 100, -0x7FFF, 0x7FFF)) as [number, number, number],
+    distance: clamp(obj.distance * 100, 0, 0xFFFF),
+    flags,
+    scan: clamp((obj.scanProgress || 0) * 255, 0, 255),
+    gesture: obj.gesture,
+    posture: obj.posture,
+    codeName: obj.codeName
+  };
+};
+
+const fromWire = (r: WireRecord, timestamp: number): TrackedObject => ({
+  id: r.id,
+  class: r.cls,
+  confidence: r.confidence / 255,
+  bbox: [...r.bbox] as [number, number, number, number],
+  position3D: { x: r.pos[0] / 100, y: r.pos[1] / 100, z: r.pos[2] / 100 },
+  distance: r.distance / 100,
+  lastSeen: timestamp,
+  isSelected: !!(r.flags & FLAG_SELECTED),
+  isOccluded: !!(r.flags & FLAG_OCCLUDED),
+  isAnalyzed: !!(r.flags & FLAG_ANALYZED),
+  depthSource: r.flags & FLAG_LIDAR ? 'LIDAR_FUSION' : r.flags & FLAG_DEPTH_MODEL ? 'DEPTH_MODEL' : 'AI_ESTIMATE',
+  scanProgress: r.scan / 255,
+  gesture: r.gesture,
+  posture: r.posture,
+  codeName: r.codeName
+});
+
+class ByteWriter {
+  private buffer = new ArrayBuffer(256);
+  private view = new DataView(this.buffer);
+  private offset = 0;
+
+  private ensure(bytes: number) {
+    if (this.offset + bytes <= this.buffer.byteLength) return;
+    const next = new ArrayBuffer(Math.max(this.buffer.byteLength * 2, this.offset + bytes));
+    new Uint8Array(next).set(new Uint8Array(this.buffer));
+    this.buffer = next;
+    this.view = new DataView(next);
+  }
+
+  u8(v: number) { this.ensure(1); this.view.setUint8(this.offset, v); this.offset += 1; }
+  i8(v: number) { this.ensure(1); this.view.setInt8(this.offset, v); this.offset += 1; }
+  u16(v: number) { this.ensure(2); this.view.setUint16(this.offset, v, true); this.offset += 2; }
+  i16(v: number) { this.ensure(2); this.view.setInt16(this.offset, v, true); this.offset += 2; }
+  u32(v: number) { this.ensure(4); this.view.setUint32(this.offset, v, true); this.offset += 4; }
+  f64(v: number) { this.ensure(8); this.view.setFloat64(this.offset, v, true); this.offset += 8; }
+
+  str(v: string) {
+    const bytes = new TextEncoder().encode(v).slice(0, 255);
+    this.u8(bytes.length);
+    this.ensure(bytes.length);
+    new Uint8Array(this.buffer, this.offset, bytes.length).set(bytes);
+    this.offset += bytes.length;
+  }
+
+  // Index into a shared dictionary, or inline the string for anything unknown
+  dict(v: string, dictionary: string[]) {
+    const idx = dictionary.indexOf(v);
+    if (idx > -1 && idx < INLINE_STRING) this.u8(idx);
+    else { this.u8(INLINE_STRING); this.str(v); }
+  }
+
+  result(): ArrayBuffer {
+    return this.buffer.slice(0, this.offset);
+  }
+}
+
+class ByteReader {
+  private view: DataView;
+  private offset = 0;
+
+  constructor(private buffer: ArrayBuffer) {
+    this.view = new DataView(buffer);
+  }
+
+  u8() { const v = this.view.getUint8(this.offset); this.offset += 1; return v; }
+  i8() { const v = this.view.getInt8(this.offset); this.offset += 1; return v; }
+  u16() { const v = this.view.getUint16(this.offset, true); this.offset += 2; return v; }
+  i16() { const v = this.view.getInt16(this.offset, true); this.offset += 2; return v; }
+  u32() { const v = this.view.getUint32(this.offset, true); this.offset += 4; return v; }
+  f64() { const v = this.view.getFloat64(this.offset, true); this.offset += 8; return v; }
+
+  str() {
+    const len = this.u8();
+    const bytes = new Uint8Array(this.buffer, this.offset, len);
+    this.offset += len;
+    return new TextDecoder().decode(bytes);
+  }
+
+  dict(dictionary: string[]) {
+    const idx = this.u8();
+    return idx === INLINE_STRING ? this.str() : (dictionary[idx] ?? 'unknown');
+  }
+}
+
+const writeFull = (w: ByteWriter, r: WireRecord) => {
+  w.u32(r.id);
+  w.dict(r.cls, CLASS_DICTIONARY);
+  w.u8(r.confidence);
+  r.bbox.forEach(v => w.u16(v));
+  r.pos.forEach(v => w.i16(v));
+  w.u16(r.distance);
+  w.u8(r.flags | (r.posture ? HAS_POSTURE : 0) | (r.gesture ? HAS_GESTURE : 0) | (r.codeName ? HAS_CODENAME : 0));
+  w.u8(r.scan);
+  if (r.posture) w.dict(r.posture, POSTURE_DICTIONARY);
+  if (r.gesture) w.dict(r.gesture, GESTURE_DICTIONARY);
+  if (r.codeName) w.str(r.codeName);
+};
+
+const readFull = (rd: ByteReader): WireRecord => {
+  const id = rd.u32();
+  const cls = rd.dict(CLASS_DICTIONARY);
+  const confidence = rd.u8();
+  const bbox: [number, number, number, number] = [rd.u16(), rd.u16(), rd.u16(), rd.u16()];
+  const pos: [number, number, number] = [rd.i16(), rd.i16(), rd.i16()];
+  const distance = rd.u16();
+  const packedFlags = rd.u8();
+  const scan = rd.u8();
+  const posture = packedFlags & HAS_POSTURE ? rd.dict(POSTURE_DICTIONARY) as Posture : undefined;
+  const gesture = packedFlags & HAS_GESTURE ? rd.dict(GESTURE_DICTIONARY) : undefined;
+  const codeName = packedFlags & HAS_CODENAME ? rd.str() : undefined;
+  return { id, cls, confidence, bbox, pos, distance, flags: packedFlags & (HAS_POSTURE - 1), scan, gesture, posture, codeName };
+};
+
+const fitsStep = (a: number[], b: number[]) => a.every((v, i) => Math.abs(v - b[i]) <= 127);
+const sameValues = (a: number[], b: number[]) => a.every((v, i) => v === b[i]);
+
+// Returns false when nothing changed, so the record can be skipped entirely
+const writePatch = (w: ByteWriter, r: WireRecord, base: WireRecord): boolean => {
+  let mask = 0;
+  if (r.cls !== base.cls) mask |= FIELD_CLASS;
+  if (!sameValues(r.bbox, base.bbox)) mask |= fitsStep(r.bbox, base.bbox) ? FIELD_BBOX_STEP : FIELD_BBOX;
+  if (!sameValues(r.pos, base.pos)) mask |= fitsStep(r.pos, base.pos) ? FIELD_POS_STEP : FIELD_POS;
+  if (r.distance !== base.distance) mask |= FIELD_DISTANCE;
+  if (r.confidence !== base.confidence) mask |= FIELD_CONFIDENCE;
+  if (r.flags !== base.flags) mask |= FIELD_FLAGS;
+  if (r.scan !== base.scan) mask |= FIELD_SCAN;
+  if (r.gesture !== base.gesture) mask |= FIELD_GESTURE;
+  if (r.posture !== base.posture) mask |= FIELD_POSTURE;
+  if (r.codeName !== base.codeName) mask |= FIELD_CODENAME;
+  if (mask === 0) return false;
+
+  w.u8(OP_PATCH);
+  w.u32(r.id);
+  w.u16(mask);
+  if (mask & FIELD_CLASS) w.dict(r.cls, CLASS_DICTIONARY);
+  if (mask & FIELD_BBOX) r.bbox.forEach(v => w.u16(v));
+  if (mask & FIELD_BBOX_STEP) r.bbox.forEach((v, i) => w.i8(v - base.bbox[i]));
+  if (mask & FIELD_POS) r.pos.forEach(v => w.i16(v));
+  if (mask & FIELD_POS_STEP) r.pos.forEach((v, i) => w.i8(v - base.pos[i]));
+  if (mask & FIELD_DISTANCE) w.u16(r.distance);
+  if (mask & FIELD_CONFIDENCE) w.u8(r.confidence);
+  if (mask & FIELD_FLAGS) w.u8(r.flags);
+  if (mask & FIELD_SCAN) w.u8(r.scan);
+  if (mask & FIELD_GESTURE) w.str(r.gesture || '');
+  if (mask & FIELD_POSTURE) w.str(r.posture || '');
+  if (mask & FIELD_CODENAME) w.str(r.codeName || '');
+  return true;
+};
+
+const readPatch = (rd: ByteReader, base: WireRecord): WireRecord => {
+  const mask = rd.u16();
+  const r: WireRecord = { ...base, bbox: [...base.bbox] as WireRecord['bbox'], pos: [...base.pos] as WireRecord['pos'] };
+  if (mask & FIELD_CLASS) r.cls = rd.dict(CLASS_DICTIONARY);
+  if (mask & FIELD_BBOX) r.bbox = [rd.u16(), rd.u16(), rd.u16(), rd.u16()];
+  if (mask & FIELD_BBOX_STEP) r.bbox = r.bbox.map(v => v + rd.i8()) as WireRecord['bbox'];
+  if (mask & FIELD_POS) r.pos = [rd.i16(), rd.i16(), rd.i16()];
+  if (mask & FIELD_POS_STEP) r.pos = r.pos.map(v => v + rd.i8()) as WireRecord['pos'];
+  if (mask & FIELD_DISTANCE) r.distance = rd.u16();
+  if (mask & FIELD_CONFIDENCE) r.confidence = rd.u8();
+  if (mask & FIELD_FLAGS) r.flags = rd.u8();
+  if (mask & FIELD_SCAN) r.scan = rd.u8();
+  if (mask & FIELD_GESTURE) r.gesture = rd.str() || undefined;
+  if (mask & FIELD_POSTURE) r.posture = (rd.str() || undefined) as Posture | undefined;
+  if (mask & FIELD_CODENAME) r.codeName = rd.str() || undefined;
+  return r;
+};
+
+// Binary frames need numeric ids; anything else goes over JSON
+export const canEncodeBinary = (objects: TrackedObject[]) =>
+  objects.length < 256 && objects.every(o => typeof o.id === 'number' && Number.isInteger(o.id) && o.id >= 0 && o.id <= 0xFFFFFFFF);
+
+export const encodeTelemetry = (
+  objects: TrackedObject[],
+  meta: { keyframeId: number; seq: number; timestamp: number },
+  base?: TrackedObject[] // Acked keyframe objects; omitted = encode a keyframe
+): { data: ArrayBuffer; kind: TelemetryFrame['kind'] } => {
+  const w = new ByteWriter();
+  w.u8(MAGIC);
+  w.u8(VERSION);
+  w.u8(base ? KIND_DELTA : KIND_KEYFRAME);
+  w.u16(meta.keyframeId & 0xFFFF);
+  w.u16(meta.seq & 0xFFFF);
+  w.f64(meta.timestamp);
+
+  const records = objects.map(toWire);
+  if (!base) {
+    w.u8(records.length);
+    records.forEach(r => writeFull(w, r));
+    return { data: w.result(), kind: 'keyframe' };
+  }
+
+  const baseRecords = new Map<number, WireRecord>(base.map(o => [o.id as number, toWire(o)]));
+  const body = new ByteWriter();
+  let count = 0;
+  records.forEach(r => {
+    const prev = baseRecords.get(r.id);
+    if (!prev) {
+      body.u8(OP_FULL);
+      writeFull(body, r);
+      count++;
+    } else if (writePatch(body, r, prev)) {
+      count++;
+    }
+    baseRecords.delete(r.id);
+  });
+  baseRecords.forEach((_, id) => {
+    body.u8(OP_REMOVED);
+    body.u32(id);
+    count++;
+  });
+
+  // Heavy churn: a fresh keyframe is smaller than the diff anyway
+  if (count > 255) return encodeTelemetry(objects, meta);
+
+  w.u8(count);
+  const bodyBytes = new Uint8Array(body.result());
+  bodyBytes.forEach(b => w.u8(b));
+  return { data: w.result(), kind: 'delta' };
+};
+
+export const decodeTelemetry = (
+  buffer: ArrayBuffer,
+  resolveBase: (keyframeId: number) => TrackedObject[] | undefined
+): TelemetryFrame | null => {
+  try {
+    const rd = new ByteReader(buffer);
+    if (rd.u8() !== MAGIC || rd.u8() !== VERSION) return null;
+    const kind = rd.u8();
+    const keyframeId = rd.u16();
+    const seq = rd.u16();
+    const timestamp = rd.f64();
+    const count = rd.u8();
+
+    if (kind === KIND_KEYFRAME) {
+      const objects: TrackedObject[] = [];
+      for (let i = 0; i < count; i++) objects.push(fromWire(readFull(rd), timestamp));
+      return { kind: 'keyframe', keyframeId, seq, timestamp, objects };
+    }
+
+    const base = resolveBase(keyframeId);
+    if (!base) return null; // Joined mid-stream, wait for the next keyframe
+
+    const records = new Map<number, WireRecord>(base.map(o => [o.id as number, toWire(o)]));
+    for (let i = 0; i < count; i++) {
+      const op = rd.u8();
+      if (op === OP_FULL) {
+        const r = readFull(rd);
+        records.set(r.id, r);
+      } else if (op === OP_PATCH) {
+        const id = rd.u32();
+        const prev = records.get(id);
+        if (!prev) return null;
+        records.set(id, readPatch(rd, prev));
+      } else if (op === OP_REMOVED) {
+        records.delete(rd.u32());
+      } else {
+        return null;
+      }
+    }
+    return { kind: 'delta', keyframeId, seq, timestamp, objects: Array.from(records.values()).map(r => fromWire(r, timestamp)) };
+  } catch (e) {
+    return null; // Truncated or corrupt frame
+  }
+};
+
+// Relay -> client binary envelope: u8 senderIdLength | senderId | frame
+export const wrapWithSender = (senderId: string, frame: Uint8Array): Uint8Array => {
+  const id = new TextEncoder().encode(senderId).slice(0, 255);
+  const out = new Uint8Array(1 + id.length + frame.length);
+  out[0] = id.length;
+  out.set(id, 1);
+  out.set(frame, 1 + id.length);
+  return out;
+};
+
+export const unwrapSender = (data: ArrayBuffer): { senderId: string; frame: ArrayBuffer } | null => {
+  const bytes = new Uint8Array(data);
+  if (bytes.length < 1 || bytes.length < 1 + bytes[0]) return null;
+  const senderId = new TextDecoder().decode(bytes.subarray(1, 1 + bytes[0]));
+  return { senderId, frame: data.slice(1 + bytes[0]) };
+};
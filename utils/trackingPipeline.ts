@@ -0,0 +1,229 @@
+import { TrackedObject, Vector3, Keypoint, Posture, DynamicGesture } from '../types';
+import { MultiObjectTracker, Detection, Box } from './MultiObjectTracker';
+import { ReIdGallery, GalleryConfig } from './ReIdGallery';
+import { getRealWorldHeight, getAspectRatio, depthFromHeight } from './objectGeometry';
+import { DepthScale } from './depthFusion';
+import { PostureMonitor, classifyPosture } from './bodyPose';
+import { GestureRecognizer } from './gestureRecognizer';
+import { Viewport, boxToWorld } from './projection';
+
+export interface PhysicsState {
+  current: Vector3;
+  target: Vector3;
+  velocity: Vector3;
+  scale: number;
+}
+
+export interface TrackerState {
+  id: string | number;
+  trackId?: number; // MultiObjectTracker track currently holding this id
+  isOccluded: boolean; // Hidden or cut off by something nearer: coasting, drawn dimmed
+  modelDepth?: number; // Relative inverse depth from the depth model
+  class: string;
+  confidence: number; // Detector score of the latest matched detection
+  isRemote: boolean;
+  color: number;
+  lastSeenTime: number;
+  consecutiveMisses: number;
+  opacity: number;
+  lockedBox: [number, number, number, number];
+  physics: PhysicsState;
+  scanProgress: number;
+  hasLidarScan: boolean;
+  gesture?: string;
+  posture?: Posture;
+  dynamicGesture?: { gesture: DynamicGesture; until: number }; // Shown on the label for a moment
+  handKeypoints?: Keypoint[];
+  skeleton?: Keypoint[]; // Latest pose, x/y as fractions of the box so it follows the coasting box
+  rotationOffset: number;
+  lastLabelUpdate?: string;
+  displayDist: number; // Smoothed distance for display
+}
+
+// What one detector batch changed, for the caller to draw and report
+export interface IngestResult {
+  created: TrackerState[]; // Need a label
+  reacquired: { id: number; class: string }[]; // A returning object got its old id back
+  fallen: (string | number)[]; // Went from upright to lying
+  gestures: { id: string | number; gesture: DynamicGesture; keypoints: Keypoint[] }[];
+  activeIds: (string | number)[];
+  classes: string[];
+  postures: Posture[];
+}
+
+export interface StepResult {
+  objects: TrackedObject[]; // Nearest first
+  removed: (string | number)[]; // Faded out; their labels go too
+}
+
+export const MIN_SCORE = 0.2;
+const LOST_AFTER_MS = 500;
+const FADE_PER_STEP = 0.05;
+const GESTURE_FLASH_MS = 1000;
+// Share of the remaining distance covered per render step
+const FOLLOW_RATE = 0.2;
+const FOLLOW_RATE_FAST = 0.9; // Camera moving fast: snap rather than trail
+
+// Detector batches in, smoothed 3D objects out. No DOM, no Three.js: VisionSystem feeds it
+// worker results and animation frames, the tests feed it fixtures on a fake clock.
+export class TrackingPipeline {
+  public readonly trackers = new Map<string | number, TrackerState>();
+  public readonly depthScale = new DepthScale();
+  private mot = new MultiObjectTracker();
+  private gallery: ReIdGallery;
+  private trackIds = new Map<number, number>(); // Tracker track id -> displayed id
+  private posture = new PostureMonitor();
+  private gesture = new GestureRecognizer();
+
+  constructor(gallery: Partial<GalleryConfig> = {}) {
+    this.gallery = new ReIdGallery(gallery);
+  }
+
+  public configureGallery(config: Partial<GalleryConfig>) {
+    this.gallery.configure(config);
+  }
+
+  // predictions: detector output in input pixels, scaled to video pixels by scaleFactor
+  public ingest(predictions: any[], scaleFactor: number, now: number, videoW: number, videoH: number, focalLength: number, lidar = false): IngestResult {
+    const result: IngestResult = { created: [], reacquired: [], fallen: [], gestures: [], activeIds: [], classes: [], postures: [] };
+    const detections: Detection[] = [];
+
+    predictions.forEach((pred: any) => {
+      if (pred.score < MIN_SCORE) return;
+      result.classes.push(pred.class);
+      const scaledBbox: Box = [pred.bbox[0] * scaleFactor, pred.bbox[1] * scaleFactor, pred.bbox[2] * scaleFactor, pred.bbox[3] * scaleFactor];
+      detections.push({ class: pred.class, score: pred.score, bbox: scaledBbox, gesture: pred.gesture, embedding: pred.embedding, depth: pred.depth,
+        keypoints: pred.keypoints?.map((k: Keypoint) => [k[0] * scaleFactor, k[1] * scaleFactor, k[2]]) });
+    });
+
+    const { tracks, removed } = this.mot.update(detections, now);
+    removed.forEach(trackId => {
+      const id = this.trackIds.get(trackId);
+      if (id === undefined) return;
+      this.gallery.retire(id, now);
+      this.trackIds.delete(trackId);
+      const t = this.trackers.get(id);
+      if (t && t.trackId === trackId) t.isOccluded = false; // Gave up coasting, let it fade
+    });
+    tracks.forEach(track => {
+      if (track.status === 'tentative') return; // Wait for a second hit before drawing anything
+      let id = this.trackIds.get(track.id);
+      if (id === undefined) {
+        // Newly confirmed: reclaim a retired identity if the appearance matches one
+        const known = this.gallery.match(track.class, track.embedding, now);
+        id = known ? known.id : track.id;
+        this.trackIds.set(track.id, id);
+        if (known) result.reacquired.push({ id, class: track.class });
+      }
+      this.gallery.observe(id, track.class, track.embedding, now);
+      let t = this.trackers.get(id);
+      if (!t) {
+        t = {
+          id, class: track.class, confidence: track.score, isRemote: false, color: track.class === 'hand' ? 0xFFD700 : 0x00FF00, lastSeenTime: track.lastSeen, consecutiveMisses: 0,
+          opacity: 1.0,
+          lockedBox: [...track.box], physics: { current: { x: 0, y: 0, z: -10 }, target: { x: 0, y: 0, z: -10 }, velocity: { x: 0, y: 0, z: 0 }, scale: 0.1 },
+          scanProgress: 0, hasLidarScan: lidar, gesture: track.gesture, rotationOffset: Math.random(),
+          displayDist: 0, isOccluded: false
+        };
+        this.trackers.set(id, t);
+        result.created.push(t);
+      }
+      t.trackId = track.id;
+      t.confidence = track.score;
+      t.lockedBox = [...track.box];
+      t.lastSeenTime = track.lastSeen;
+      t.consecutiveMisses = track.misses;
+      t.isOccluded = track.status === 'occluded' || track.partial;
+      t.modelDepth = track.status === 'confirmed' ? track.depth : undefined;
+      // Known-size objects in full view anchor the depth model's scale
+      if (t.modelDepth !== undefined && !t.isOccluded && getAspectRatio(track.class)) {
+        this.depthScale.observe(t.modelDepth, depthFromHeight(getRealWorldHeight(track.class), track.box[3], videoH, focalLength));
+      }
+      if (track.status === 'confirmed') {
+        t.gesture = track.gesture;
+        result.activeIds.push(id);
+        if (track.class === 'person') {
+          const seen = track.misses === 0 ? track.keypoints : undefined;
+          const [bx, by, bw, bh] = track.box;
+          t.skeleton = seen?.map(k => [(k[0] - bx) / bw, (k[1] - by) / bh, k[2]] as Keypoint);
+          const previous = t.posture;
+          t.posture = this.posture.update(id, seen ? classifyPosture(seen) : undefined, now);
+          if (t.posture === 'FALLEN' && previous !== 'FALLEN') result.fallen.push(id);
+          if (t.posture) result.postures.push(t.posture);
+        }
+        if (track.class === 'hand') {
+          t.handKeypoints = track.misses === 0 ? track.keypoints : undefined;
+          const event = t.handKeypoints && this.gesture.update(id, t.handKeypoints, track.gesture, videoW, now);
+          if (event) {
+            t.dynamicGesture = { gesture: event, until: now + GESTURE_FLASH_MS };
+            result.gestures.push({ id, gesture: event, keypoints: t.handKeypoints! });
+          }
+        }
+      } else {
+        t.skeleton = undefined;
+        t.handKeypoints = undefined;
+      }
+      if (track.status === 'confirmed' || track.status === 'occluded') t.opacity = 1.0;
+    });
+    return result;
+  }
+
+  // One render frame: coast boxes to now, ease toward their 3D position, fade out the lost
+  public step(now: number, view: Viewport, focalLength: number, fast = false, lidar = false): StepResult {
+    const objects: TrackedObject[] = [];
+    const removed: (string | number)[] = [];
+    const trackers: TrackerState[] = Array.from(this.trackers.values());
+
+    trackers.forEach(tracker => {
+      const predicted = tracker.trackId !== undefined && this.mot.boxAt(tracker.trackId, now); // Coast between detector frames
+      if (predicted) tracker.lockedBox = predicted;
+      const modelZ = tracker.modelDepth !== undefined ? this.depthScale.toMetric(tracker.modelDepth) : null;
+      tracker.physics.target = boxToWorld(tracker.lockedBox, tracker.class, view, focalLength, modelZ);
+      const rate = fast ? FOLLOW_RATE_FAST : FOLLOW_RATE;
+      tracker.physics.current.x += (tracker.physics.target.x - tracker.physics.current.x) * rate;
+      tracker.physics.current.y += (tracker.physics.target.y - tracker.physics.current.y) * rate;
+      tracker.physics.current.z += (tracker.physics.target.z - tracker.physics.current.z) * rate;
+      tracker.rotationOffset += 0.05;
+      const isLost = !tracker.isOccluded && now - tracker.lastSeenTime > LOST_AFTER_MS;
+
+      if (isLost) tracker.opacity -= FADE_PER_STEP;
+      if (tracker.opacity < FADE_PER_STEP && isLost) {
+        this.remove(tracker.id);
+        removed.push(tracker.id);
+        return;
+      }
+
+      if (tracker.scanProgress > 0 && tracker.scanProgress < 1) {
+        tracker.scanProgress += 0.01;
+        if (tracker.scanProgress > 1) tracker.scanProgress = 1;
+      }
+
+      objects.push({
+        id: tracker.id, class: tracker.class, confidence: tracker.confidence, bbox: tracker.lockedBox, position3D: { ...tracker.physics.current },
+        distance: Math.abs(tracker.physics.current.z), lastSeen: now, isOccluded: tracker.isOccluded,
+        depthSource: modelZ !== null ? 'DEPTH_MODEL' : lidar ? 'LIDAR_FUSION' : 'AI_ESTIMATE', gesture: tracker.gesture, posture: tracker.posture,
+        scanProgress: tracker.scanProgress
+      });
+    });
+
+    objects.sort((a, b) => b.position3D.z - a.position3D.z);
+    return { objects, removed };
+  }
+
+  public remove(id: string | number) {
+    this.trackers.delete(id);
+    this.posture.forget(id);
+    this.gesture.forget(id);
+  }
+
+  // Drops every track and identity, e.g. when a replay jumps back
+  public reset() {
+    this.trackers.clear();
+    this.mot = new MultiObjectTracker();
+    this.gallery.clear();
+    this.trackIds.clear();
+    this.posture.clear();
+    this.gesture.clear();
+    this.depthScale.reset();
+  }
+}
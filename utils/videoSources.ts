@@ -0,0 +1,251 @@
+import { VideoSourceKind, VideoSourceSpec } from '../types';
+
+// Frame sources for VisionSystem. Every source ends up playing in the same <video> element, which
+// is all the worker feed, the tracker overlay and the Gemini frame capture read from.
+export interface PlaybackControl {
+  readonly duration: number; // Seconds
+  readonly currentTime: number;
+  readonly paused: boolean;
+  play(): void;
+  pause(): void;
+  seek(time: number): void;
+}
+
+export interface VideoSource {
+  readonly kind: VideoSourceKind;
+  readonly label: string;
+  readonly track: MediaStreamTrack | null; // Live sources only
+  readonly playback: PlaybackControl | null; // Recorded sources only
+  onEnded?: () => void; // The source stopped on its own (screen sharing ended)
+  start(): Promise<void>; // Acquires the stream / first frame; may prompt the user
+  attach(video: HTMLVideoElement): Promise<void>; // Shows it in the element and plays
+  // Releases the source; leaves the element alone if another source has taken it over meanwhile
+  detach(): void;
+}
+
+// Shows a stream in the element, replacing whatever it played before
+const showStream = async (video: HTMLVideoElement, stream: MediaStream) => {
+  video.removeAttribute('src');
+  video.loop = false;
+  video.srcObject = stream;
+  await video.play();
+};
+
+const releaseStream = (video: HTMLVideoElement | null, stream: MediaStream | null) => {
+  if (!stream) return;
+  stream.getTracks().forEach(t => t.stop());
+  if (video && video.srcObject === stream) video.srcObject = null;
+};
+
+export class CameraSource implements VideoSource {
+  public readonly kind = 'camera';
+  public label = 'КАМЕРА';
+  public track: MediaStreamTrack | null = null;
+  public readonly playback = null;
+  public onEnded?: () => void;
+  private stream: MediaStream | null = null;
+  private video: HTMLVideoElement | null = null;
+
+  constructor(private deviceId: string, private isMobile: boolean) {}
+
+  public async start() {
+    // Adaptive Constraints based on device
+    const constraints: MediaStreamConstraints = {
+      video: {
+        deviceId: this.deviceId ? { exact: this.deviceId } : undefined,
+        width: this.isMobile ? { ideal: 640 } : { ideal: 1280 },
+        height: this.isMobile ? { ideal: 480 } : { ideal: 720 },
+        frameRate: this.isMobile ? { ideal: 24, max: 30 } : { ideal: 30, max: 60 }
+      }
+    };
+    this.stream = await navigator.mediaDevices.getUserMedia(constraints);
+    this.track = this.stream.getVideoTracks()[0];
+    this.label = this.track.label || this.label;
+  }
+
+  public async attach(video: HTMLVideoElement) {
+    this.video = video;
+    await showStream(video, this.stream!);
+  }
+
+  public detach() {
+    releaseStream(this.video, this.stream);
+    this.stream = null;
+  }
+}
+
+export class ScreenSource implements VideoSource {
+  public readonly kind = 'screen';
+  public label = 'ЭКРАН';
+  public track: MediaStreamTrack | null = null;
+  public readonly playback = null;
+  public onEnded?: () => void;
+  private stream: MediaStream | null = null;
+  private video: HTMLVideoElement | null = null;
+
+  public async start() {
+    this.stream = await navigator.mediaDevices.getDisplayMedia({ video: { frameRate: { ideal: 30 } }, audio: false });
+    this.track = this.stream.getVideoTracks()[0];
+    this.label = this.track.label || this.label;
+    // The browser's own "stop sharing" button
+    this.track.addEventListener('ended', () => this.onEnded?.());
+  }
+
+  public async attach(video: HTMLVideoElement) {
+    this.video = video;
+    await showStream(video, this.stream!);
+  }
+
+  public detach() {
+    releaseStream(this.video, this.stream);
+    this.stream = null;
+  }
+}
+
+export class FileSource implements VideoSource, PlaybackControl {
+  public readonly kind = 'file';
+  public readonly label: string;
+  public readonly track = null;
+  public readonly playback: PlaybackControl = this;
+  public onEnded?: () => void;
+  private url: string;
+  private video: HTMLVideoElement | null = null;
+
+  constructor(file: File) {
+    this.label = file.name;
+    this.url = URL.createObjectURL(file);
+  }
+
+  public get duration() { return this.video?.duration || 0; }
+  public get currentTime() { return this.video?.currentTime || 0; }
+  public get paused() { return this.video?.paused ?? true; }
+  public play() { this.video?.play().catch(() => {}); }
+  public pause() { this.video?.pause(); }
+  public seek(time: number) {
+    if (this.video) this.video.currentTime = Math.max(0, Math.min(time, this.duration));
+  }
+
+  public async start() {}
+
+  public async attach(video: HTMLVideoElement) {
+    this.video = video;
+    video.srcObject = null;
+    video.loop = true; // Footage review: keep running until the operator switches away
+    video.src = this.url;
+    await video.play();
+  }
+
+  public detach() {
+    if (this.video && this.video.src === this.url) {
+      this.video.pause();
+      this.video.removeAttribute('src');
+      this.video.load();
+    }
+    URL.revokeObjectURL(this.url);
+  }
+}
+
+const IMAGE_FILE = /\.(png|jpe?g|webp|bmp|gif)$/i;
+
+// Image files of a folder in playback order: natural sort, so frame_2 comes before frame_10
+export const orderFrames = (files: File[]): File[] =>
+  files
+    .filter(f => f.type.startsWith('image/') || IMAGE_FILE.test(f.name))
+    .sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+
+export const frameAt = (time: number, fps: number, count: number): number =>
+  Math.max(0, Math.min(count - 1, Math.floor(time * fps + 1e-6)));
+
+// Plays a folder of frames by drawing them to a canvas and showing its captured stream
+export class FrameSequenceSource implements VideoSource, PlaybackControl {
+  public readonly kind = 'frames';
+  public readonly label: string;
+  public readonly track = null;
+  public readonly playback: PlaybackControl = this;
+  public onEnded?: () => void;
+  private frames: File[];
+  private canvas = document.createElement('canvas');
+  private stream: MediaStream | null = null;
+  private video: HTMLVideoElement | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private index = 0;
+  private drawing = false;
+  private pending: number | null = null; // Frame to draw next
+
+  constructor(files: File[], private fps: number) {
+    this.frames = orderFrames(files);
+    const folder = (files[0] as File & { webkitRelativePath?: string })?.webkitRelativePath?.split('/')[0];
+    this.label = `${folder || 'КАДРЫ'} (${this.frames.length})`;
+  }
+
+  public get duration() { return this.frames.length / this.fps; }
+  public get currentTime() { return this.index / this.fps; }
+  public get paused() { return this.timer === null; }
+
+  public play() {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.index = (this.index + 1) % this.frames.length;
+      this.draw(this.index);
+    }, 1000 / this.fps);
+  }
+
+  public pause() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  public seek(time: number) {
+    this.index = frameAt(time, this.fps, this.frames.length);
+    this.draw(this.index);
+  }
+
+  public async start() {
+    if (this.frames.length === 0) throw new Error('НЕТ ИЗОБРАЖЕНИЙ В ПАПКЕ');
+    await this.draw(0); // Sizes the canvas before the stream starts
+    this.stream = this.canvas.captureStream(this.fps);
+  }
+
+  public async attach(video: HTMLVideoElement) {
+    this.video = video;
+    await showStream(video, this.stream!);
+    this.play();
+  }
+
+  public detach() {
+    this.pause();
+    releaseStream(this.video, this.stream);
+    this.stream = null;
+  }
+
+  private async draw(index: number) {
+    this.pending = index;
+    if (this.drawing) return; // The running draw picks up the latest request; slow decodes skip frames
+    this.drawing = true;
+    while (this.pending !== null) {
+      const next = this.pending;
+      this.pending = null;
+      try {
+        const bitmap = await createImageBitmap(this.frames[next]);
+        if (this.canvas.width !== bitmap.width || this.canvas.height !== bitmap.height) {
+          this.canvas.width = bitmap.width;
+          this.canvas.height = bitmap.height;
+        }
+        this.canvas.getContext('2d')?.drawImage(bitmap, 0, 0);
+        bitmap.close();
+      } catch (e) {
+        // Unreadable frame: keep showing the previous one
+      }
+    }
+    this.drawing = false;
+  }
+}
+
+export const createVideoSource = (spec: VideoSourceSpec, deviceId: string, isMobile: boolean): VideoSource => {
+  switch (spec.kind) {
+    case 'file': return new FileSource(spec.file);
+    case 'screen': return new ScreenSource();
+    case 'frames': return new FrameSequenceSource(spec.files, spec.fps);
+    default: return new CameraSource(deviceId, isMobile);
+  }
+};
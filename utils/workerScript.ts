@@ -1,19 +1,53 @@
 
 export const videoWorkerScript = `
-importScripts('https://cdn.jsdelivr.net/npm/@tensorflow/tfjs-core@4.17.0/dist/tf-core.min.js');
-importScripts('https://cdn.jsdelivr.net/npm/@tensorflow/tfjs-converter@4.17.0/dist/tf-converter.min.js');
-importScripts('https://cdn.jsdelivr.net/npm/@tensorflow/tfjs-backend-webgl@4.17.0/dist/tf-backend-webgl.min.js');
-importScripts('https://cdn.jsdelivr.net/npm/@tensorflow-models/hand-pose-detection@2.0.1/dist/hand-pose-detection.min.js');
-importScripts('https://cdn.jsdelivr.net/npm/@tensorflow-models/coco-ssd@2.2.3/dist/coco-ssd.min.js');
+// Runtimes load with the 'load' message: their URLs (self-hosted, or the CDN when missing) come
+// from the main thread's asset check, see utils/assets.ts. importScripts order matters.
+const RUNTIMES = ['tfjs-core', 'tfjs-converter', 'tfjs-backend-webgl', 'hand-pose-detection', 'coco-ssd', 'pose-detection'];
 
-let objectModel = null;
+let assets = null; // Asset id -> absolute URL
+let detector = null; // Active detector plugin, see DETECTOR_PLUGINS
 let handModel = null;
+let poseModel = null;
+let appearanceCanvas = null;
+let depthModel = null;
+
+// Depth map resolution sent to the main thread (width; height follows the frame aspect)
+const DEPTH_MAP_WIDTH = 64;
 
 self.onmessage = async (event) => {
-  const { type, imageBitmap, id, scaleFactor } = event.data;
+  const { type, imageBitmap, id, scaleFactor, withDepth, url, config } = event.data;
+
+  if (type === 'loadDetector') {
+    // Runtime swap: hands and pose stay loaded
+    try {
+      await switchDetector(config, 10);
+      if (!detector) throw new Error('NO DETECTOR');
+      postMessage({ type: 'loaded', detector: describeDetector() });
+    } catch (e) {
+      postMessage({ type: 'error', error: e.message });
+    }
+    return;
+  }
+
+  if (type === 'loadDepth') {
+    try {
+      // MiDaS-style graph model: [1, H, W, 3] image in 0..1 -> relative inverse depth
+      depthModel = await tf.loadGraphModel(url);
+      postMessage({ type: 'depthReady' });
+    } catch (e) {
+      depthModel = null;
+      postMessage({ type: 'depthError', error: e.message });
+    }
+    return;
+  }
 
   if (type === 'load') {
     try {
+      assets = event.data.assets;
+      postMessage({ type: 'progress', progress: 5, stage: 'RUNTIME' });
+      // Synchronous, before the first await, so no other message runs without tf
+      importScripts(...RUNTIMES.map(id => assets[id]));
+
       postMessage({ type: 'progress', progress: 10, stage: 'TENSORFLOW' });
 
       // Force aggressive cleanup of WebGL textures
@@ -21,10 +55,8 @@ self.onmessage = async (event) => {
       
       await tf.setBackend('webgl');
       
-      postMessage({ type: 'progress', progress: 40, stage: 'COCO-SSD' });
-      
-      // Load SSD model with MobileNetV2 backbone (optimized for web)
-      objectModel = await cocoSsd.load({ base: 'lite_mobilenet_v2' });
+      await switchDetector(config, 40);
+      if (!detector) throw new Error('NO DETECTOR');
       
       postMessage({ type: 'progress', progress: 70, stage: 'HAND-POSE' });
 
@@ -32,18 +64,29 @@ self.onmessage = async (event) => {
       handModel = await handPoseDetection.createDetector(model, {
         runtime: 'tfjs', 
         modelType: 'lite',
-        maxHands: 2
+        maxHands: 2,
+        detectorModelUrl: assets['hand-detector'],
+        landmarkModelUrl: assets['hand-landmark']
+      });
+
+      postMessage({ type: 'progress', progress: 85, stage: 'BODY-POSE' });
+
+      // MoveNet MultiPose: up to 6 people, 17 COCO keypoints each
+      poseModel = await poseDetection.createDetector(poseDetection.SupportedModels.MoveNet, {
+        modelType: poseDetection.movenet.modelType.MULTIPOSE_LIGHTNING,
+        modelUrl: assets['movenet-multipose'],
+        enableTracking: false
       });
 
       postMessage({ type: 'progress', progress: 100, stage: 'READY' });
-      postMessage({ type: 'loaded' });
+      postMessage({ type: 'loaded', detector: describeDetector() });
     } catch (e) {
       postMessage({ type: 'error', error: e.message });
     }
   }
 
   if (type === 'detect') {
-    if (!objectModel || !handModel) {
+    if (!detector || !handModel || !poseModel) {
         if (imageBitmap) imageBitmap.close();
         return;
     }
@@ -55,7 +98,7 @@ self.onmessage = async (event) => {
 
           // SSD Detection
           // Threshold set to 0.2 to catch objects faster (labels will appear instantly in VisionSystem)
-          const objects = await objectModel.detect(tensor, 20, 0.2);
+          const objects = await detector.detect(tensor, 20, 0.2);
           
           objects.forEach(obj => {
               if (obj.class === 'person' || obj.score > 0.3) {
@@ -63,6 +106,13 @@ self.onmessage = async (event) => {
               }
           });
 
+          // Body pose only when there is someone to attach it to
+          const people = predictions.filter(p => p.class === 'person');
+          if (people.length > 0) {
+              const poses = await poseModel.estimatePoses(tensor, { flipHorizontal: false });
+              attachPoses(people, poses);
+          }
+
           const hands = await handModel.estimateHands(tensor, { flipHorizontal: false });
           
           hands.forEach(hand => {
@@ -86,7 +136,8 @@ self.onmessage = async (event) => {
                       class: 'hand',
                       score: hand.score,
                       bbox: [minX, minY, width, height],
-                      gesture: gesture
+                      gesture: gesture,
+                      keypoints: hand.keypoints.map(kp => [Math.round(kp.x), Math.round(kp.y), 1])
                   });
               }
           });
@@ -98,15 +149,283 @@ self.onmessage = async (event) => {
         }
     });
 
+    let depthMap = null;
+    if (result) {
+        // Appearance signatures for re-identification, read before the frame is released
+        const pixels = readPixels(imageBitmap);
+        if (pixels) {
+            result.forEach(pred => {
+                pred.embedding = appearanceEmbedding(pixels, imageBitmap.width, imageBitmap.height, pred.bbox);
+            });
+        }
+        if (withDepth && depthModel) {
+            depthMap = await estimateDepth(imageBitmap);
+            if (depthMap) {
+                result.forEach(pred => {
+                    pred.depth = boxDepth(depthMap, pred.bbox, imageBitmap.width / depthMap.width);
+                });
+            }
+        }
+    }
+
     if (imageBitmap) imageBitmap.close();
     
     if (result) {
         // Send results back to main thread
-        postMessage({ type: 'result', predictions: result, id, scaleFactor });
+        postMessage({ type: 'result', predictions: result, id, scaleFactor, depthMap }, depthMap ? [depthMap.data.buffer] : []);
     }
   }
 };
 
+// Detector plugins: { stage, inputSize, classes, load(config), detect(tensor, maxResults, minScore), dispose() }.
+// detect resolves to [{ class, score, bbox: [x, y, w, h] }] in the pixels of the input tensor.
+const DETECTOR_PLUGINS = {
+    'coco-ssd-lite': () => cocoSsdPlugin('lite_mobilenet_v2', 'coco-ssd-lite'),
+    'coco-ssd-v2': () => cocoSsdPlugin('mobilenet_v2', 'coco-ssd-v2'),
+    'coco-ssd-v1': () => cocoSsdPlugin('mobilenet_v1', 'coco-ssd-v1'),
+    'yolo': () => yoloPlugin('YOLO', COCO_CLASSES),
+    'custom': () => yoloPlugin('CUSTOM MODEL', null)
+};
+const DEFAULT_DETECTOR = { id: 'coco-ssd-lite' };
+
+const COCO_CLASSES = ['person', 'bicycle', 'car', 'motorcycle', 'airplane', 'bus', 'train', 'truck', 'boat',
+    'traffic light', 'fire hydrant', 'stop sign', 'parking meter', 'bench', 'bird', 'cat', 'dog', 'horse', 'sheep',
+    'cow', 'elephant', 'bear', 'zebra', 'giraffe', 'backpack', 'umbrella', 'handbag', 'tie', 'suitcase', 'frisbee',
+    'skis', 'snowboard', 'sports ball', 'kite', 'baseball bat', 'baseball glove', 'skateboard', 'surfboard',
+    'tennis racket', 'bottle', 'wine glass', 'cup', 'fork', 'knife', 'spoon', 'bowl', 'banana', 'apple', 'sandwich',
+    'orange', 'broccoli', 'carrot', 'hot dog', 'pizza', 'donut', 'cake', 'chair', 'couch', 'potted plant', 'bed',
+    'dining table', 'toilet', 'tv', 'laptop', 'mouse', 'remote', 'keyboard', 'cell phone', 'microwave', 'oven',
+    'toaster', 'sink', 'refrigerator', 'book', 'clock', 'vase', 'scissors', 'teddy bear', 'hair drier', 'toothbrush'];
+
+// Loads the requested detector; on failure reports it and falls back to the default
+async function switchDetector(config, progress) {
+    const wanted = config && DETECTOR_PLUGINS[config.id] ? config : DEFAULT_DETECTOR;
+    if (detector) detector.dispose();
+    detector = null;
+    try {
+        const plugin = DETECTOR_PLUGINS[wanted.id]();
+        postMessage({ type: 'progress', progress, stage: plugin.stage });
+        await plugin.load(wanted);
+        detector = { ...plugin, id: wanted.id };
+    } catch (e) {
+        postMessage({ type: 'detectorError', error: e.message });
+        if (wanted.id === DEFAULT_DETECTOR.id) return;
+        const fallback = DETECTOR_PLUGINS[DEFAULT_DETECTOR.id]();
+        postMessage({ type: 'progress', progress, stage: fallback.stage });
+        await fallback.load(DEFAULT_DETECTOR);
+        detector = { ...fallback, id: DEFAULT_DETECTOR.id };
+    }
+}
+
+function describeDetector() {
+    return { id: detector.id, stage: detector.stage, inputSize: detector.inputSize, classes: detector.classes };
+}
+
+function cocoSsdPlugin(base, assetId) {
+    let model = null;
+    return {
+        stage: 'COCO-SSD',
+        inputSize: null, // Any size, resized internally
+        classes: COCO_CLASSES,
+        async load() {
+            model = await cocoSsd.load({ base, modelUrl: assets[assetId] });
+        },
+        detect: (tensor, maxResults, minScore) => model.detect(tensor, maxResults, minScore),
+        dispose() {
+            if (model) model.dispose();
+        }
+    };
+}
+
+// YOLO-style graph model (Ultralytics TF.js export): square input [1, S, S, 3] in 0..1,
+// output [1, 4 + classes, N] (v8) or [1, N, 5 + classes] (v5, with objectness)
+function yoloPlugin(stage, defaultClasses) {
+    let model = null;
+    const plugin = {
+        stage,
+        inputSize: 640,
+        classes: defaultClasses || [],
+        async load(config) {
+            if (!config.url) throw new Error(stage + ': URL НЕ ЗАДАН');
+            model = await tf.loadGraphModel(config.url);
+            const shape = model.inputs[0].shape;
+            if (config.inputSize) plugin.inputSize = config.inputSize;
+            else if (shape && shape[1] > 0) plugin.inputSize = shape[1];
+            const names = config.classes && config.classes.length ? config.classes : await fetchClassNames(config.url);
+            if (names) plugin.classes = names;
+            if (plugin.classes.length === 0) throw new Error(stage + ': НЕТ СПИСКА КЛАССОВ');
+        },
+        async detect(tensor, maxResults, minScore) {
+            const size = plugin.inputSize;
+            const [h, w] = tensor.shape;
+            const scale = size / Math.max(w, h); // Letterbox, padded at the bottom / right
+            const { boxes, scores, classes } = tf.tidy(() => {
+                const rh = Math.round(h * scale), rw = Math.round(w * scale);
+                const image = tf.image.resizeBilinear(tensor.toFloat().div(255), [rh, rw])
+                    .pad([[0, size - rh], [0, size - rw], [0, 0]]).expandDims(0);
+                let out = model.predict(image);
+                if (Array.isArray(out)) out = out[0];
+                out = out.squeeze([0]);
+                const numClasses = plugin.classes.length;
+                if (out.shape[0] === 4 + numClasses || out.shape[0] === 5 + numClasses) out = out.transpose(); // -> [N, C]
+                const hasObjectness = out.shape[1] === 5 + numClasses;
+                let classScores = out.slice([0, hasObjectness ? 5 : 4], [-1, numClasses]);
+                if (hasObjectness) classScores = classScores.mul(out.slice([0, 4], [-1, 1]));
+                const [cx, cy, bw, bh] = tf.split(out.slice([0, 0], [-1, 4]), 4, 1);
+                return {
+                    boxes: tf.concat([cy.sub(bh.div(2)), cx.sub(bw.div(2)), cy.add(bh.div(2)), cx.add(bw.div(2))], 1),
+                    scores: classScores.max(1),
+                    classes: classScores.argMax(1)
+                };
+            });
+            const keep = await tf.image.nonMaxSuppressionAsync(boxes, scores, maxResults, 0.45, minScore);
+            const [boxData, scoreData, classData, keepData] = await Promise.all([boxes.data(), scores.data(), classes.data(), keep.data()]);
+            tf.dispose([boxes, scores, classes, keep]);
+            return Array.from(keepData).map(i => {
+                const y1 = boxData[i * 4] / scale, x1 = boxData[i * 4 + 1] / scale;
+                const y2 = boxData[i * 4 + 2] / scale, x2 = boxData[i * 4 + 3] / scale;
+                return { class: plugin.classes[classData[i]] || 'object', score: scoreData[i], bbox: [x1, y1, x2 - x1, y2 - y1] };
+            });
+        },
+        dispose() {
+            if (model) model.dispose();
+        }
+    };
+    return plugin;
+}
+
+// Class names from the metadata.yaml Ultralytics writes next to model.json ("names:" then "  0: person")
+async function fetchClassNames(modelUrl) {
+    try {
+        const res = await fetch(new URL('metadata.yaml', new URL(modelUrl, self.location.href)).href);
+        if (!res.ok) return null;
+        const names = [];
+        let inNames = false;
+        (await res.text()).split('\\n').forEach(line => {
+            if (/^names:/.test(line)) { inNames = true; return; }
+            const m = inNames && line.match(/^\\s+(\\d+):\\s*['"]?(.*?)['"]?\\s*$/);
+            if (m) names[Number(m[1])] = m[2];
+            else if (inNames && /^\\S/.test(line)) inNames = false;
+        });
+        return names.length ? names : null;
+    } catch (e) {
+        return null;
+    }
+}
+
+// Each pose goes to the person box holding most of its confident keypoints
+function attachPoses(people, poses) {
+    const candidates = [];
+    poses.forEach((pose, p) => {
+        people.forEach((person, b) => {
+            const [x, y, w, h] = person.bbox;
+            const inside = pose.keypoints.filter(k => k.score > 0.3
+                && k.x >= x - w * 0.1 && k.x <= x + w * 1.1 && k.y >= y - h * 0.1 && k.y <= y + h * 1.1).length;
+            if (inside >= 5) candidates.push({ p, b, inside });
+        });
+    });
+    candidates.sort((a, b) => b.inside - a.inside);
+    const usedPoses = new Set(), usedPeople = new Set();
+    candidates.forEach(({ p, b }) => {
+        if (usedPoses.has(p) || usedPeople.has(b)) return;
+        usedPoses.add(p);
+        usedPeople.add(b);
+        people[b].keypoints = poses[p].keypoints.map(k => [Math.round(k.x), Math.round(k.y), Math.round(k.score * 100) / 100]);
+    });
+}
+
+async function estimateDepth(bitmap) {
+    const width = DEPTH_MAP_WIDTH;
+    const height = Math.max(1, Math.round(DEPTH_MAP_WIDTH * bitmap.height / bitmap.width));
+    try {
+        const map = tf.tidy(() => {
+            const shape = depthModel.inputs[0].shape;
+            const inputSize = [shape[1] > 0 ? shape[1] : 256, shape[2] > 0 ? shape[2] : 256];
+            const image = tf.image.resizeBilinear(tf.browser.fromPixels(bitmap).toFloat().div(255), inputSize).expandDims(0);
+            let output = depthModel.predict(image);
+            if (Array.isArray(output)) output = output[0];
+            const [, outH, outW] = output.shape;
+            return tf.image.resizeBilinear(output.reshape([outH, outW, 1]), [height, width]).reshape([height, width]);
+        });
+        const data = await map.data();
+        map.dispose();
+        return { width, height, data };
+    } catch (e) {
+        return null;
+    }
+}
+
+// Median relative inverse depth over the inner part of the box (edges are mostly background)
+function boxDepth(depthMap, bbox, scale) {
+    const x0 = Math.max(0, Math.floor((bbox[0] + bbox[2] * 0.25) / scale));
+    const x1 = Math.min(depthMap.width, Math.ceil((bbox[0] + bbox[2] * 0.75) / scale));
+    const y0 = Math.max(0, Math.floor((bbox[1] + bbox[3] * 0.25) / scale));
+    const y1 = Math.min(depthMap.height, Math.ceil((bbox[1] + bbox[3] * 0.75) / scale));
+    const values = [];
+    for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) values.push(depthMap.data[y * depthMap.width + x]);
+    }
+    if (values.length === 0) return undefined;
+    values.sort((a, b) => a - b);
+    return values[Math.floor(values.length / 2)];
+}
+
+function readPixels(bitmap) {
+    try {
+        if (!appearanceCanvas || appearanceCanvas.width !== bitmap.width || appearanceCanvas.height !== bitmap.height) {
+            appearanceCanvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+        }
+        const ctx = appearanceCanvas.getContext('2d', { willReadFrequently: true });
+        ctx.drawImage(bitmap, 0, 0);
+        return ctx.getImageData(0, 0, bitmap.width, bitmap.height).data;
+    } catch (e) {
+        return null;
+    }
+}
+
+// Hue histogram (plus dark / grey / bright bins for unsaturated pixels) of the upper and
+// lower half of the box interior, so clothing colours separate people of the same class
+const HUE_BINS = 12;
+function appearanceEmbedding(pixels, width, height, bbox) {
+    const bins = HUE_BINS + 3;
+    const hist = new Array(bins * 2).fill(0);
+    const x0 = Math.max(0, Math.floor(bbox[0] + bbox[2] * 0.2));
+    const x1 = Math.min(width, Math.ceil(bbox[0] + bbox[2] * 0.8));
+    const y0 = Math.max(0, Math.floor(bbox[1] + bbox[3] * 0.1));
+    const y1 = Math.min(height, Math.ceil(bbox[1] + bbox[3] * 0.9));
+    const midY = (y0 + y1) / 2;
+    const step = Math.max(1, Math.floor(Math.min(x1 - x0, y1 - y0) / 24)); // A few hundred samples at any box size
+
+    for (let y = y0; y < y1; y += step) {
+        const region = y < midY ? 0 : bins;
+        for (let x = x0; x < x1; x += step) {
+            const i = (y * width + x) * 4;
+            const r = pixels[i] / 255, g = pixels[i + 1] / 255, b = pixels[i + 2] / 255;
+            const max = Math.max(r, g, b);
+            const chroma = max - Math.min(r, g, b);
+            let bin;
+            if (max < 0.2) bin = HUE_BINS;
+            else if (chroma < 0.15) bin = max > 0.75 ? HUE_BINS + 2 : HUE_BINS + 1;
+            else {
+                let hue = max === r ? ((g - b) / chroma) % 6 : max === g ? (b - r) / chroma + 2 : (r - g) / chroma + 4;
+                if (hue < 0) hue += 6;
+                bin = Math.floor(hue / 6 * HUE_BINS) % HUE_BINS;
+            }
+            hist[region + bin]++;
+        }
+    }
+
+    // Each half sums to 0.5, the whole signature to 1
+    for (let region = 0; region < 2 * bins; region += bins) {
+        let total = 0;
+        for (let k = 0; k < bins; k++) total += hist[region + k];
+        for (let k = 0; k < bins; k++) {
+            hist[region + k] = total ? Math.round(hist[region + k] / total / 2 * 1000) / 1000 : 1 / (bins * 2);
+        }
+    }
+    return hist;
+}
+
 function recognizeGesture(keypoints, handedness) {
     const isFingerUp = (tipIdx, dipIdx) => {
         return keypoints[tipIdx].y < keypoints[dipIdx].y;
@@ -0,0 +1,80 @@
+// Minimal zip writer: stored (uncompressed) entries only. The payloads are JPEGs and text a few
+// MB at most, so deflate would buy little and need a dependency.
+
+export interface ZipEntry {
+  name: string; // Path inside the archive, '/' separated
+  data: Uint8Array | string; // Strings are written as UTF-8
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export const crc32 = (data: Uint8Array): number => {
+  let crc = 0xFFFFFFFF;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+  return (crc ^ 0xFFFFFFFF) >>> 0;
+};
+
+// MS-DOS date and time fields, local time
+const dosDateTime = (date: Date) => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+  date: ((Math.max(1980, date.getFullYear()) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+});
+
+export const createZip = (entries: ZipEntry[], modified = new Date()): Uint8Array => {
+  const encoder = new TextEncoder();
+  const { time, date } = dosDateTime(modified);
+  const files = entries.map(e => {
+    const data = typeof e.data === 'string' ? encoder.encode(e.data) : e.data;
+    return { name: encoder.encode(e.name), data, crc: crc32(data) };
+  });
+
+  const localSize = files.reduce((sum, f) => sum + 30 + f.name.length + f.data.length, 0);
+  const centralSize = files.reduce((sum, f) => sum + 46 + f.name.length, 0);
+  const out = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(out.buffer);
+  let pos = 0;
+  const u16 = (v: number) => { view.setUint16(pos, v, true); pos += 2; };
+  const u32 = (v: number) => { view.setUint32(pos, v, true); pos += 4; };
+  const bytes = (b: Uint8Array) => { out.set(b, pos); pos += b.length; };
+
+  const offsets = files.map(f => {
+    const offset = pos;
+    u32(0x04034B50); // Local file header
+    u16(20); u16(0x0800); u16(0); // Version needed, UTF-8 names, stored
+    u16(time); u16(date);
+    u32(f.crc); u32(f.data.length); u32(f.data.length);
+    u16(f.name.length); u16(0);
+    bytes(f.name);
+    bytes(f.data);
+    return offset;
+  });
+
+  const centralStart = pos;
+  files.forEach((f, i) => {
+    u32(0x02014B50); // Central directory header
+    u16(20); u16(20); u16(0x0800); u16(0);
+    u16(time); u16(date);
+    u32(f.crc); u32(f.data.length); u32(f.data.length);
+    u16(f.name.length); u16(0); u16(0); // Name, extra, comment lengths
+    u16(0); u16(0); u32(0); // Disk, internal and external attributes
+    u32(offsets[i]);
+    bytes(f.name);
+  });
+
+  const centralLength = pos - centralStart;
+  u32(0x06054B50); // End of central directory
+  u16(0); u16(0);
+  u16(files.length); u16(files.length);
+  u32(centralLength);
+  u32(centralStart);
+  u16(0);
+  return out;
+};
@@ -0,0 +1,20 @@
+import { GeoZone } from '../types';
+
+const ZONES_KEY = 'veraos.zones';
+
+// Keyed by CameraDevice.deviceId: a zone only means something in the view it was drawn on
+export const loadZones = (): Record<string, GeoZone[]> => {
+  try {
+    return JSON.parse(localStorage.getItem(ZONES_KEY) || 'null') || {};
+  } catch (e) {
+    return {};
+  }
+};
+
+export const saveZones = (zones: Record<string, GeoZone[]>) => {
+  try {
+    localStorage.setItem(ZONES_KEY, JSON.stringify(zones));
+  } catch (e) {
+    // Private mode / quota: the zones still apply for this session
+  }
+};
@@ -12,7 +12,10 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.SQUAD_KEY': JSON.stringify(env.SQUAD_KEY),
+        'process.env.RELAY_TOKEN': JSON.stringify(env.RELAY_TOKEN),
+        'process.env.DEPTH_MODEL_URL': JSON.stringify(env.DEPTH_MODEL_URL)
       },
       resolve: {
         alias: {
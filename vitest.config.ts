@@ -0,0 +1,12 @@
+import { defineConfig } from 'vitest/config';
+
+// Tests run headless under Node: pure utils, the worker is faked (tests/fakeWorker.ts) and the
+// relay runs in-process on a free port (tests/relay.test.ts).
+// Golden runs live in tests/fixtures/golden; `npx vitest run -u` rewrites them after an
+// intended change to tracking or projection.
+export default defineConfig({
+  test: {
+    environment: 'node',
+    include: ['tests/**/*.test.ts']
+  }
+});